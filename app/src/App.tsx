@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -23,12 +23,15 @@ import {
   Zap,
   Edit3
 } from 'lucide-react';
-import { useCurrentTab, getPageMeta, createBookmark, getBookmarkTree, getAllFolders, createFolder } from '@/hooks/useBookmarks';
+import { useCurrentTab, getPageMeta, createBookmark, getBookmarkTree, getFolderPaths, findFolderByPath, ensureFolderPath, flattenBookmarks } from '@/hooks/useBookmarks';
 import { useSettings } from '@/hooks/useSettings';
 import { getSmartSaveSuggestion } from '@/services/aiService';
 import { addTagsToBookmark } from '@/services/storageService';
+import { recordCorrections } from '@/services/corrections';
+import { isSameUrl } from '@/services/urlNormalizer';
+import { PendingSuggestions } from '@/components/PendingSuggestions';
 import { useLanguage } from '@/hooks/useLanguage';
-import type { BookmarkNode, AIResponse } from '@/types';
+import type { BookmarkNode, FolderPath, AIResponse, PageMeta } from '@/types';
 
 // 骨架屏组件
 const LoadingSkeleton = () => (
@@ -50,7 +53,7 @@ const AISuggestionCard = ({
   t
 }: { 
   suggestion: AIResponse;
-  matchedFolder?: BookmarkNode;
+  matchedFolder?: FolderPath;
   onCreateFolder: () => void;
   isCreating: boolean;
   t: any;
@@ -152,15 +155,17 @@ function App() {
   // 表单状态
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState<string | undefined>('');
+  const [pageMeta, setPageMeta] = useState<PageMeta | undefined>();
   const [selectedFolder, setSelectedFolder] = useState('');
   const [tags, setTags] = useState<string[]>([]);
-  const [folders, setFolders] = useState<BookmarkNode[]>([]);
+  const [folders, setFolders] = useState<FolderPath[]>([]);
   const [bookmarkBarId, setBookmarkBarId] = useState<string>('');
+  const [allBookmarks, setAllBookmarks] = useState<BookmarkNode[]>([]);
   
   // AI 状态
   const [analyzing, setAnalyzing] = useState(false);
   const [aiSuggestion, setAiSuggestion] = useState<AIResponse | null>(null);
-  const [matchedFolder, setMatchedFolder] = useState<BookmarkNode | undefined>();
+  const [matchedFolder, setMatchedFolder] = useState<FolderPath | undefined>();
   
   // 操作状态
   const [saving, setSaving] = useState(false);
@@ -175,6 +180,12 @@ function App() {
   const [showFullEditor, setShowFullEditor] = useState(false);
   const quickSaveAttempted = useRef(false);
 
+  // 已收藏过的相同页面（按网址规范化规则比较）
+  const existingBookmarks = useMemo(() => {
+    if (!tab?.url) return [];
+    return allBookmarks.filter(b => b.url && isSameUrl(b.url, tab.url!, settings.urlRules));
+  }, [allBookmarks, tab?.url, settings.urlRules]);
+
   // 初始化 - 并行获取数据
   useEffect(() => {
     if (tab) {
@@ -208,15 +219,17 @@ function App() {
   const loadInitialData = useCallback(async () => {
     try {
       const [meta, tree] = await Promise.all([
-        tab?.id ? getPageMeta(tab.id).catch(() => ({ description: undefined })) : Promise.resolve({ description: undefined }),
+        tab?.id ? getPageMeta(tab.id).catch(() => undefined) : Promise.resolve(undefined),
         getBookmarkTree()
       ]);
       
-      setDescription(meta.description);
+      setPageMeta(meta);
+      setDescription(meta?.description);
       
-      // 获取所有用户文件夹
-      const folderList = getAllFolders(tree);
+      // 获取所有用户文件夹（带完整路径）
+      const folderList = getFolderPaths(tree);
       setFolders(folderList);
+      setAllBookmarks(flattenBookmarks(tree));
       
       // 获取书签栏 ID
       const findBookmarkBar = (nodes: BookmarkNode[]): string => {
@@ -242,20 +255,23 @@ function App() {
   // 快速保存：AI分析并自动保存
   const performQuickSave = async () => {
     if (!settingsValid || !tab?.url) return;
+
+    // 页面已收藏过时不自动保存，交给用户在完整编辑器中决定
+    if (existingBookmarks.length > 0) {
+      setShowFullEditor(true);
+      return;
+    }
     
     setQuickSaveMode(true);
     setQuickSaveStatus('analyzing');
     setError(null);
 
     try {
-      const folderNames = folders.map(f => f.title);
+      const folderNames = folders.map(f => f.path);
       const suggestion = await getSmartSaveSuggestion(
         settings,
-        title,
-        tab.url,
-        description,
-        folderNames,
-        undefined
+        { title, url: tab.url, description, pageMeta },
+        folderNames
       );
 
       setAiSuggestion(suggestion);
@@ -263,17 +279,15 @@ function App() {
 
       // 确定保存位置
       let targetFolderId = bookmarkBarId;
-      let targetFolder = folders.find(f => 
-        f.title.toLowerCase() === suggestion.category.toLowerCase()
-      );
+      let targetFolder = findFolderByPath(folders, suggestion.category);
 
-      // 如果需要新建文件夹
+      // 如果需要新建文件夹（按路径逐级创建）
       if (!targetFolder && suggestion.isNewCategory) {
         setQuickSaveStatus('saving');
         try {
-          const newFolder = await createFolder(bookmarkBarId, suggestion.category);
-          targetFolder = newFolder;
-          setFolders(prev => [...prev, newFolder]);
+          const nextFolders = [...folders];
+          targetFolder = await ensureFolderPath(nextFolders, suggestion.category, bookmarkBarId);
+          setFolders(nextFolders);
         } catch (e) {
           // 创建失败，使用书签栏
           console.log('创建文件夹失败，使用书签栏');
@@ -328,23 +342,18 @@ function App() {
     setMatchedFolder(undefined);
 
     try {
-      const folderNames = folders.map(f => f.title);
+      const folderNames = folders.map(f => f.path);
       const suggestion = await getSmartSaveSuggestion(
         settings,
-        title,
-        tab?.url || '',
-        description,
-        folderNames,
-        undefined
+        { title, url: tab?.url || '', description, pageMeta },
+        folderNames
       );
 
       setAiSuggestion(suggestion);
       setTags(suggestion.tags);
       
       // 查找匹配的文件夹
-      const matched = folders.find(f => 
-        f.title.toLowerCase() === suggestion.category.toLowerCase()
-      );
+      const matched = findFolderByPath(folders, suggestion.category);
       setMatchedFolder(matched);
       
       // 如果匹配到现有文件夹，自动选中
@@ -366,8 +375,9 @@ function App() {
     setError(null);
     
     try {
-      const newFolder = await createFolder(bookmarkBarId, aiSuggestion.category);
-      setFolders(prev => [...prev, newFolder]);
+      const nextFolders = [...folders];
+      const newFolder = await ensureFolderPath(nextFolders, aiSuggestion.category, bookmarkBarId);
+      setFolders(nextFolders);
       setSelectedFolder(newFolder.id);
       setMatchedFolder(newFolder);
       
@@ -396,6 +406,18 @@ function App() {
     try {
       const newBookmark = await createBookmark(selectedFolder, title, tab?.url || '');
       
+      // 用户改选了其他文件夹时记录纠正，供之后的建议参考
+      const chosenFolder = folders.find(f => f.id === selectedFolder);
+      if (aiSuggestion?.category && chosenFolder) {
+        await recordCorrections([{
+          url: tab?.url || '',
+          title,
+          suggestedFolder: aiSuggestion.category,
+          chosenFolder: chosenFolder.path,
+          source: 'smartSave'
+        }]);
+      }
+      
       // 保存标签
       if (tags.length > 0) {
         try {
@@ -565,6 +587,24 @@ function App() {
           </Alert>
         )}
 
+        {/* 重复收藏提示 */}
+        {existingBookmarks.length > 0 && !saved && (
+          <Alert className="bg-amber-50 border-amber-200">
+            <AlertCircle className="w-4 h-4 text-amber-600" />
+            <AlertDescription className="text-xs text-amber-700">
+              <div>{t('popup.alreadySaved', { count: existingBookmarks.length })}</div>
+              {existingBookmarks.map(b => (
+                <div key={b.id} className="truncate" title={b.url}>
+                  {folders.find(f => f.id === b.parentId)?.path || b.title}
+                </div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* 新建书签的分类建议 */}
+        <PendingSuggestions />
+
         {/* 标题输入 */}
         <div className="space-y-2">
           <label className="text-sm font-medium">{t('popup.title')}</label>
@@ -634,7 +674,7 @@ function App() {
                 <optgroup label={t('popup.myFolders')}>
                   {folders.map((folder) => (
                     <option key={folder.id} value={folder.id}>
-                      📁 {folder.title}
+                      📁 {folder.path}
                     </option>
                   ))}
                 </optgroup>
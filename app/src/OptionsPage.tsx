@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,8 +8,10 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import {
   Key,
   Globe,
@@ -31,26 +33,67 @@ import {
   History,
   Tag,
   Trash2,
-  BookOpen
+  BookOpen,
+  Inbox,
+  Play,
+  Link2
 } from 'lucide-react';
 import { BatchOrganize } from '@/components/BatchOrganize';
 import { HistoryPage } from '@/components/HistoryPage';
 import { CleanMaster } from '@/components/CleanMaster';
 import { TagVisualization } from '@/components/TagVisualization';
+import { UsageStats } from '@/components/UsageStats';
+import { CorrectionsManager } from '@/components/CorrectionsManager';
+import { RulesEditor } from '@/components/RulesEditor';
 import { useSettings, testAIConnection } from '@/hooks/useSettings';
-import { useBookmarkTree, getBookmarkStats, getAllFolders, flattenBookmarks } from '@/hooks/useBookmarks';
+import { useBookmarkTree, getBookmarkStats, getAllFolders, getFolderPaths, flattenBookmarks } from '@/hooks/useBookmarks';
 import { useLanguage } from '@/hooks/useLanguage';
-import { estimateOrganizeTokens } from '@/services/aiService';
+import { estimateOrganizeTokens, getModelPricing } from '@/services/aiService';
+import { AI_PROVIDERS, getProvider, getRateLimit } from '@/services/aiProviders';
+import { getCacheStats, clearCache, countEmbeddings, clearEmbeddings } from '@/services/storageService';
 import { CONFIG } from '@/config';
-import type { AISettings } from '@/types';
+import type { AISettings, AIProviderId, AIRateLimit, AutoOrganizeMode, InboxRunSummary, ModelPricing, UrlNormalizationRules } from '@/types';
+import { useTokenizer } from '@/hooks/useTokenizer';
+
+// 格式化字节数
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// 云端模式可选的接口协议
+const CLOUD_PROVIDER_IDS: AIProviderId[] = ['openai', 'anthropic', 'gemini'];
+
+// 网址规范化规则中的开关项
+const URL_RULE_SWITCHES = [
+  'stripTrackingParams',
+  'foldWww',
+  'foldMobile',
+  'foldAmp',
+  'upgradeHttp',
+  'stripTrailingSlash',
+  'stripDefaultPort',
+  'keepHashRoutes'
+] as const satisfies readonly (keyof UrlNormalizationRules)[];
+
+// 拆分逗号分隔的参数名（去重、去空）
+const splitParams = (text: string): string[] => {
+  return [...new Set(text.split(/[,，\s]+/).map(p => p.trim()).filter(Boolean))];
+};
 
 export default function OptionsPage() {
   const { settings, loading, saving, updateSettings } = useSettings();
   const { tree, refetch: refetchTree } = useBookmarkTree();
   const { language, setLanguage, t } = useLanguage();
+  const countTokens = useTokenizer();
   
   // 本地表单状态
   const [formData, setFormData] = useState<AISettings>(settings);
+  // 修改网址规范化规则中的部分项
+  const updateUrlRules = (patch: Partial<UrlNormalizationRules>) => {
+    setFormData(prev => ({ ...prev, urlRules: { ...prev.urlRules, ...patch } }));
+  };
   const [testing, setTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
@@ -62,15 +105,81 @@ export default function OptionsPage() {
   const [refreshing, setRefreshing] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0); // 用于触发标签可视化刷新
 
+  // AI 结果缓存状态
+  const [cacheStats, setCacheStats] = useState<{ count: number; bytes: number } | null>(null);
+  const [clearingCache, setClearingCache] = useState(false);
+  const [embeddingCount, setEmbeddingCount] = useState<number | null>(null);
+  const [clearingEmbeddings, setClearingEmbeddings] = useState(false);
+
+  // 收件箱立即整理状态
+  const [runningInbox, setRunningInbox] = useState(false);
+  const [inboxMessage, setInboxMessage] = useState<string | null>(null);
+
+  // 收件箱可选文件夹
+  const folderPaths = useMemo(() => getFolderPaths(tree), [tree]);
+
+  // 加载缓存统计
+  const loadCacheStats = async () => {
+    try {
+      setCacheStats(await getCacheStats());
+      setEmbeddingCount(await countEmbeddings());
+    } catch (e) {
+      console.error('加载缓存统计失败:', e);
+    }
+  };
+
+  useEffect(() => {
+    loadCacheStats();
+  }, []);
+
+  // 清空 AI 结果缓存
+  const handleClearCache = async () => {
+    setClearingCache(true);
+    try {
+      await clearCache();
+      await loadCacheStats();
+    } catch (e) {
+      console.error('清空缓存失败:', e);
+    } finally {
+      setClearingCache(false);
+    }
+  };
+
+  // 清空嵌入向量缓存
+  const handleClearEmbeddings = async () => {
+    setClearingEmbeddings(true);
+    try {
+      await clearEmbeddings();
+      await loadCacheStats();
+    } catch (e) {
+      console.error('清空嵌入向量失败:', e);
+    } finally {
+      setClearingEmbeddings(false);
+    }
+  };
+
+  // 立即整理收件箱（使用已保存的设置）
+  const handleRunInbox = () => {
+    setRunningInbox(true);
+    setInboxMessage(null);
+    chrome.runtime.sendMessage({ type: 'PROCESS_INBOX' }, (response) => {
+      setRunningInbox(false);
+      if (!response?.success) {
+        setInboxMessage(response?.error || t('inbox.runFailed'));
+        return;
+      }
+      const summary = response.data as InboxRunSummary | null;
+      setInboxMessage(summary
+        ? t('inbox.notifySummary', { moved: summary.moved, queued: summary.queued, failed: summary.failed })
+        : t('inbox.nothingToDo'));
+    });
+  };
+
   // 同步设置到表单
   useEffect(() => {
     setFormData(settings);
-    // 根据当前配置判断 AI 类型
-    if (settings.baseUrl.includes('localhost') || settings.baseUrl.includes('127.0.0.1')) {
-      setAiType('ollama');
-    } else {
-      setAiType('cloud');
-    }
+    // 根据当前提供商判断 AI 类型
+    setAiType(settings.provider === 'ollama' ? 'ollama' : 'cloud');
   }, [settings]);
 
   // 切换 AI 类型
@@ -79,19 +188,58 @@ export default function OptionsPage() {
     if (value === 'ollama') {
       setFormData({
         ...formData,
-        baseUrl: 'http://localhost:11434',
+        provider: 'ollama',
         modelName: 'llama2'  // Ollama 默认模型
       });
     } else {
       setFormData({
         ...formData,
-        baseUrl: 'https://api.openai.com/v1',
+        provider: 'openai',
+        baseUrl: AI_PROVIDERS.openai.defaultBaseUrl,
         modelName: 'gpt-4o-mini'
       });
     }
     setTestResult(null);
   };
 
+  // 切换云端接口协议
+  const handleProviderChange = (value: AIProviderId) => {
+    setFormData({
+      ...formData,
+      provider: value,
+      baseUrl: AI_PROVIDERS[value].defaultBaseUrl
+    });
+    setTestResult(null);
+  };
+
+  const currentProvider = getProvider(formData.provider);
+  const currentRateLimit = getRateLimit(formData);
+  const currentPricing = getModelPricing(formData);
+
+  // 修改当前模型的价格（按模型名称保存）
+  const handlePricingChange = (field: keyof ModelPricing, value: string) => {
+    const parsed = Math.max(0, Number(value) || 0);
+    setFormData({
+      ...formData,
+      customPricing: {
+        ...formData.customPricing,
+        [formData.modelName]: { input: 0, output: 0, ...currentPricing, [field]: parsed }
+      }
+    });
+  };
+
+  // 修改当前提供商的速率限制
+  const handleRateLimitChange = (field: keyof AIRateLimit, value: string) => {
+    const parsed = Math.max(0, Math.floor(Number(value) || 0));
+    setFormData({
+      ...formData,
+      rateLimits: {
+        ...formData.rateLimits,
+        [formData.provider]: { ...currentRateLimit, [field]: parsed }
+      }
+    });
+  };
+
   // 测试 AI 连接
   const handleTestConnection = async () => {
     setTesting(true);
@@ -118,12 +266,14 @@ export default function OptionsPage() {
   // 计算书签统计
   const bookmarkStats = tree.length > 0 ? getBookmarkStats(tree) : null;
   const allFolders = tree.length > 0 ? getAllFolders(tree) : [];
-  const allBookmarks = tree.length > 0 ? flattenBookmarks(tree) : [];
   
-  // 预估 Token
-  const tokenEstimate = allBookmarks.length > 0 
-    ? estimateOrganizeTokens(allBookmarks.slice(0, 50), allFolders.map(f => f.title))
-    : null;
+  // 预估 Token（按前 50 个书签构建实际 Prompt 计数，BPE 编码器加载完成后重新计数）
+  const tokenEstimate = useMemo(() => {
+    if (tree.length === 0) return null;
+    const bookmarks = flattenBookmarks(tree).slice(0, 50);
+    if (bookmarks.length === 0) return null;
+    return estimateOrganizeTokens(settings, bookmarks, getFolderPaths(tree).map(f => f.path), countTokens);
+  }, [settings, tree, countTokens]);
   
   // 刷新书签统计（同时刷新标签可视化）
   const handleRefreshStats = async () => {
@@ -145,6 +295,7 @@ export default function OptionsPage() {
   const applyPreset = (preset: typeof presetModels[number]) => {
     setFormData({
       ...formData,
+      provider: preset.provider,
       baseUrl: preset.baseUrl,
       modelName: preset.model
     });
@@ -203,8 +354,9 @@ export default function OptionsPage() {
         </div>
 
         <Tabs defaultValue="ai" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6 lg:w-[600px]">
+          <TabsList className="grid w-full grid-cols-7 lg:w-[700px]">
             <TabsTrigger value="ai">AI</TabsTrigger>
+            <TabsTrigger value="rules">{t('rules.tabName')}</TabsTrigger>
             <TabsTrigger value="batch">{t('batch.title')}</TabsTrigger>
             <TabsTrigger value="clean">{t('clean.title')}</TabsTrigger>
             <TabsTrigger value="history">{t('history.title')}</TabsTrigger>
@@ -280,6 +432,41 @@ export default function OptionsPage() {
                     </div>
                   </div>
 
+                  {/* 接口协议 */}
+                  <div className="space-y-2">
+                    <Label>{t('ai.provider')}</Label>
+                    <Select
+                      value={aiType === 'cloud' ? formData.provider : 'openai'}
+                      onValueChange={(v) => handleProviderChange(v as AIProviderId)}
+                      disabled={aiType === 'ollama'}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CLOUD_PROVIDER_IDS.map((id) => (
+                          <SelectItem key={id} value={id}>
+                            {AI_PROVIDERS[id].name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex flex-wrap gap-2">
+                      {currentProvider.capabilities.streaming && (
+                        <Badge variant="outline" className="text-xs">{t('ai.capStreaming')}</Badge>
+                      )}
+                      {currentProvider.capabilities.jsonMode && (
+                        <Badge variant="outline" className="text-xs">{t('ai.capJsonMode')}</Badge>
+                      )}
+                      {currentProvider.capabilities.embeddings && (
+                        <Badge variant="outline" className="text-xs">{t('ai.capEmbeddings')}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t('ai.providerHint')}
+                    </p>
+                  </div>
+
                   {/* Base URL */}
                   <div className="space-y-2">
                     <Label htmlFor="baseUrl" className="flex items-center gap-2">
@@ -290,11 +477,11 @@ export default function OptionsPage() {
                       id="baseUrl"
                       value={formData.baseUrl}
                       onChange={(e) => setFormData({ ...formData, baseUrl: e.target.value })}
-                      placeholder="https://api.openai.com/v1"
+                      placeholder={currentProvider.defaultBaseUrl}
                       disabled={aiType === 'ollama'}
                     />
                     <p className="text-xs text-muted-foreground">
-                      OpenAI {t('ai.baseUrl')}
+                      {currentProvider.name} {t('ai.baseUrl')}
                     </p>
                   </div>
 
@@ -303,7 +490,7 @@ export default function OptionsPage() {
                     <Label htmlFor="apiKey" className="flex items-center gap-2">
                       <Key className="w-4 h-4" />
                       {t('ai.apiKey')}
-                      {aiType === 'cloud' && <span className="text-red-500">*</span>}
+                      {aiType === 'cloud' && currentProvider.requiresApiKey && <span className="text-red-500">*</span>}
                     </Label>
                     <Input
                       id="apiKey"
@@ -329,6 +516,40 @@ export default function OptionsPage() {
                       disabled={aiType === 'ollama'}
                     />
                   </div>
+
+                  {/* 模型价格 */}
+                  <div className="space-y-2">
+                    <Label>{t('ai.pricing')}</Label>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="inputPrice" className="text-xs text-muted-foreground">{t('ai.inputPrice')}</Label>
+                        <Input
+                          id="inputPrice"
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={currentPricing?.input ?? ''}
+                          onChange={(e) => handlePricingChange('input', e.target.value)}
+                          disabled={!formData.modelName}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="outputPrice" className="text-xs text-muted-foreground">{t('ai.outputPrice')}</Label>
+                        <Input
+                          id="outputPrice"
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={currentPricing?.output ?? ''}
+                          onChange={(e) => handlePricingChange('output', e.target.value)}
+                          disabled={!formData.modelName}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t('ai.pricingHint')}
+                    </p>
+                  </div>
                 </div>
 
                 <Separator />
@@ -379,7 +600,7 @@ export default function OptionsPage() {
                   <Button
                     variant="outline"
                     onClick={handleTestConnection}
-                    disabled={testing || (aiType === 'cloud' && !formData.apiKey)}
+                    disabled={testing || (currentProvider.requiresApiKey && !formData.apiKey)}
                   >
                     {testing ? (
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -438,6 +659,126 @@ export default function OptionsPage() {
 
                 <Separator />
 
+                {/* 重试与超时 */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('ai.maxRetries')}</Label>
+                    <Badge variant="secondary">{formData.maxRetries}</Badge>
+                  </div>
+                  <Slider
+                    value={[formData.maxRetries]}
+                    onValueChange={(value) => setFormData({ ...formData, maxRetries: value[0] })}
+                    min={0}
+                    max={6}
+                    step={1}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('ai.retryHint')}
+                  </p>
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('ai.requestTimeout')}</Label>
+                    <Badge variant="secondary">{formData.requestTimeout}</Badge>
+                  </div>
+                  <Slider
+                    value={[formData.requestTimeout]}
+                    onValueChange={(value) => setFormData({ ...formData, requestTimeout: value[0] })}
+                    min={10}
+                    max={300}
+                    step={10}
+                  />
+                </div>
+
+                {/* 速率限制（按提供商保存） */}
+                <div className="space-y-2">
+                  <Label>{t('ai.rateLimit', { provider: currentProvider.name })}</Label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="rpm" className="text-xs text-muted-foreground">{t('ai.requestsPerMinute')}</Label>
+                      <Input
+                        id="rpm"
+                        type="number"
+                        min={0}
+                        value={currentRateLimit.requestsPerMinute}
+                        onChange={(e) => handleRateLimitChange('requestsPerMinute', e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="tpm" className="text-xs text-muted-foreground">{t('ai.tokensPerMinute')}</Label>
+                      <Input
+                        id="tpm"
+                        type="number"
+                        min={0}
+                        step={1000}
+                        value={currentRateLimit.tokensPerMinute}
+                        onChange={(e) => handleRateLimitChange('tokensPerMinute', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t('ai.rateLimitHint')}
+                  </p>
+                </div>
+
+                {/* 每月预算 */}
+                <div className="space-y-2">
+                  <Label htmlFor="monthlyBudget">{t('ai.monthlyBudget')}</Label>
+                  <Input
+                    id="monthlyBudget"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={formData.monthlyBudget}
+                    onChange={(e) => setFormData({ ...formData, monthlyBudget: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('ai.monthlyBudgetHint')}
+                  </p>
+                </div>
+
+                {/* 结果缓存 */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('ai.cache')}</Label>
+                    <Badge variant="secondary">{formData.cacheTTLDays}</Badge>
+                  </div>
+                  <Slider
+                    value={[formData.cacheTTLDays]}
+                    onValueChange={(value) => setFormData({ ...formData, cacheTTLDays: value[0] })}
+                    min={0}
+                    max={90}
+                    step={1}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('ai.cacheHint')}
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">
+                      {cacheStats && t('ai.cacheStats', {
+                        count: cacheStats.count,
+                        size: formatBytes(cacheStats.bytes)
+                      })}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleClearCache}
+                      disabled={clearingCache || !cacheStats?.count}
+                    >
+                      {clearingCache ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4 mr-2" />
+                      )}
+                      {t('ai.clearCache')}
+                    </Button>
+                  </div>
+                </div>
+
+                <Separator />
+
                 {/* 最大整理数量 */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
@@ -456,6 +797,358 @@ export default function OptionsPage() {
                   </p>
                 </div>
 
+                {/* 分批与并发 */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('organize.batchSize')}</Label>
+                    <Badge variant="secondary">{formData.organizeBatchSize}</Badge>
+                  </div>
+                  <Slider
+                    value={[formData.organizeBatchSize]}
+                    onValueChange={(value) => setFormData({ ...formData, organizeBatchSize: value[0] })}
+                    min={5}
+                    max={50}
+                    step={5}
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('organize.concurrency')}</Label>
+                    <Badge variant="secondary">{formData.organizeConcurrency}</Badge>
+                  </div>
+                  <Slider
+                    value={[formData.organizeConcurrency]}
+                    onValueChange={(value) => setFormData({ ...formData, organizeConcurrency: value[0] })}
+                    min={1}
+                    max={8}
+                    step={1}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('organize.concurrencyHint')}
+                  </p>
+                </div>
+
+                {/* 自动接受阈值 */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('organize.autoAccept')}</Label>
+                    <Badge variant="secondary">{Math.round(formData.autoAcceptThreshold * 100)}%</Badge>
+                  </div>
+                  <Slider
+                    value={[Math.round(formData.autoAcceptThreshold * 100)]}
+                    onValueChange={(value) => setFormData({ ...formData, autoAcceptThreshold: value[0] / 100 })}
+                    min={0}
+                    max={100}
+                    step={5}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('organize.autoAcceptHint')}
+                  </p>
+                </div>
+
+                {/* 重构模式的分类体系规模 */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('organize.taxonomyDepth')}</Label>
+                    <Badge variant="secondary">{formData.taxonomyMaxDepth}</Badge>
+                  </div>
+                  <Slider
+                    value={[formData.taxonomyMaxDepth]}
+                    onValueChange={(value) => setFormData({ ...formData, taxonomyMaxDepth: value[0] })}
+                    min={1}
+                    max={5}
+                    step={1}
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label>{t('organize.taxonomyChildren')}</Label>
+                    <Badge variant="secondary">{formData.taxonomyMaxChildren}</Badge>
+                  </div>
+                  <Slider
+                    value={[formData.taxonomyMaxChildren]}
+                    onValueChange={(value) => setFormData({ ...formData, taxonomyMaxChildren: value[0] })}
+                    min={2}
+                    max={20}
+                    step={1}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {t('organize.taxonomyHint')}
+                  </p>
+                </div>
+
+                {/* 页面元信息 */}
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <Label htmlFor="fetchPageMetadata">{t('organize.fetchMetadata')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('organize.fetchMetadataHint')}
+                    </p>
+                  </div>
+                  <Switch
+                    id="fetchPageMetadata"
+                    checked={formData.fetchPageMetadata}
+                    onCheckedChange={(checked) => setFormData({ ...formData, fetchPageMetadata: checked })}
+                  />
+                </div>
+
+                {/* 嵌入向量分类 */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label htmlFor="embeddingsEnabled">{t('organize.embeddings')}</Label>
+                      <p className="text-xs text-muted-foreground">
+                        {getProvider(formData.provider).capabilities.embeddings
+                          ? t('organize.embeddingsHint')
+                          : t('organize.embeddingsUnsupported', { provider: getProvider(formData.provider).name })}
+                      </p>
+                    </div>
+                    <Switch
+                      id="embeddingsEnabled"
+                      checked={formData.embeddingsEnabled}
+                      onCheckedChange={(checked) => setFormData({ ...formData, embeddingsEnabled: checked })}
+                    />
+                  </div>
+                  {formData.embeddingsEnabled && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="embeddingModel">{t('organize.embeddingModel')}</Label>
+                        <Input
+                          id="embeddingModel"
+                          value={formData.embeddingModel}
+                          onChange={(e) => setFormData({ ...formData, embeddingModel: e.target.value })}
+                          placeholder={formData.provider === 'ollama' ? 'nomic-embed-text' : 'text-embedding-3-small'}
+                        />
+                      </div>
+                      <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <Label>{t('organize.embeddingMargin')}</Label>
+                          <Badge variant="secondary">{formData.embeddingMargin.toFixed(2)}</Badge>
+                        </div>
+                        <Slider
+                          value={[Math.round(formData.embeddingMargin * 100)]}
+                          onValueChange={(value) => setFormData({ ...formData, embeddingMargin: value[0] / 100 })}
+                          min={1}
+                          max={20}
+                          step={1}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          {t('organize.embeddingMarginHint')}
+                        </p>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">
+                          {embeddingCount !== null && t('organize.embeddingStats', { count: embeddingCount })}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleClearEmbeddings}
+                          disabled={clearingEmbeddings || !embeddingCount}
+                        >
+                          {clearingEmbeddings ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Trash2 className="w-4 h-4 mr-2" />
+                          )}
+                          {t('organize.clearEmbeddings')}
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                {/* 从用户纠正中学习 */}
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <Label htmlFor="learnFromCorrections">{t('organize.learnFromCorrections')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('organize.learnFromCorrectionsHint')}
+                    </p>
+                  </div>
+                  <Switch
+                    id="learnFromCorrections"
+                    checked={formData.learnFromCorrections}
+                    onCheckedChange={(checked) => setFormData({ ...formData, learnFromCorrections: checked })}
+                  />
+                </div>
+
+                {/* 新建书签自动整理 */}
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label>{t('organize.autoOrganize')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('organize.autoOrganizeHint')}
+                    </p>
+                  </div>
+                  <Select
+                    value={formData.autoOrganizeMode}
+                    onValueChange={(v) => setFormData({ ...formData, autoOrganizeMode: v as AutoOrganizeMode })}
+                  >
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">{t('organize.autoOrganizeOff')}</SelectItem>
+                      <SelectItem value="suggest">{t('organize.autoOrganizeSuggest')}</SelectItem>
+                      <SelectItem value="move">{t('organize.autoOrganizeMove')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Separator />
+
+                {/* 收件箱定时整理 */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label className="flex items-center gap-2">
+                        <Inbox className="w-4 h-4" />
+                        {t('inbox.folder')}
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        {t('inbox.folderHint')}
+                      </p>
+                    </div>
+                    <Select
+                      value={formData.inboxFolderId || 'none'}
+                      onValueChange={(v) => setFormData({ ...formData, inboxFolderId: v === 'none' ? '' : v })}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">{t('inbox.disabled')}</SelectItem>
+                        {folderPaths.map((folder) => (
+                          <SelectItem key={folder.id} value={folder.id}>{folder.path}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {formData.inboxFolderId && (
+                    <>
+                      <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <Label>{t('inbox.interval')}</Label>
+                          <Badge variant="secondary">
+                            {t('inbox.intervalValue', { minutes: formData.inboxIntervalMinutes })}
+                          </Badge>
+                        </div>
+                        <Slider
+                          value={[formData.inboxIntervalMinutes]}
+                          onValueChange={(value) => setFormData({ ...formData, inboxIntervalMinutes: value[0] })}
+                          min={15}
+                          max={1440}
+                          step={15}
+                        />
+                      </div>
+
+                      <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <Label>{t('inbox.maxItems')}</Label>
+                          <Badge variant="secondary">{formData.inboxMaxItems}</Badge>
+                        </div>
+                        <Slider
+                          value={[formData.inboxMaxItems]}
+                          onValueChange={(value) => setFormData({ ...formData, inboxMaxItems: value[0] })}
+                          min={5}
+                          max={100}
+                          step={5}
+                        />
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-1">
+                          <Label htmlFor="inboxAutoApply">{t('inbox.autoApply')}</Label>
+                          <p className="text-xs text-muted-foreground">
+                            {t('inbox.autoApplyHint')}
+                          </p>
+                        </div>
+                        <Switch
+                          id="inboxAutoApply"
+                          checked={formData.inboxAutoApply}
+                          onCheckedChange={(checked) => setFormData({ ...formData, inboxAutoApply: checked })}
+                        />
+                      </div>
+
+                      <div className="flex items-center gap-3">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleRunInbox}
+                          disabled={runningInbox || !settings.inboxFolderId}
+                        >
+                          {runningInbox ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Play className="w-4 h-4 mr-2" />
+                          )}
+                          {t('inbox.runNow')}
+                        </Button>
+                        {inboxMessage && (
+                          <span className="text-xs text-muted-foreground">{inboxMessage}</span>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <Separator />
+
+                {/* 网址规范化 */}
+                <div className="space-y-4">
+                  <div className="space-y-1">
+                    <Label className="flex items-center gap-2">
+                      <Link2 className="w-4 h-4" />
+                      {t('url.rules')}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{t('url.rulesHint')}</p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {URL_RULE_SWITCHES.map((key) => (
+                      <div key={key} className="flex items-center justify-between gap-2">
+                        <Label htmlFor={`urlRules-${key}`} className="text-sm font-normal">
+                          {t(`url.rule.${key}`)}
+                        </Label>
+                        <Switch
+                          id={`urlRules-${key}`}
+                          checked={formData.urlRules[key]}
+                          onCheckedChange={(checked) => updateUrlRules({ [key]: checked })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {formData.urlRules.stripTrackingParams && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="extraTrackingParams" className="text-sm">{t('url.extraTrackingParams')}</Label>
+                        {/* 失焦时再拆分，避免输入逗号时被立即吞掉 */}
+                        <Input
+                          id="extraTrackingParams"
+                          key={formData.urlRules.extraTrackingParams.join(',')}
+                          defaultValue={formData.urlRules.extraTrackingParams.join(', ')}
+                          onBlur={(e) => updateUrlRules({ extraTrackingParams: splitParams(e.target.value) })}
+                          placeholder="ref, source"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="keepParams" className="text-sm">{t('url.keepParams')}</Label>
+                        <Input
+                          id="keepParams"
+                          key={formData.urlRules.keepParams.join(',')}
+                          defaultValue={formData.urlRules.keepParams.join(', ')}
+                          onBlur={(e) => updateUrlRules({ keepParams: splitParams(e.target.value) })}
+                          placeholder="spm"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">{t('url.paramsHint')}</p>
+                </div>
+
                 <Separator />
 
                 {/* Token 预警阈值 */}
@@ -483,6 +1176,9 @@ export default function OptionsPage() {
                 {saveSuccess ? t('btn.saved') : t('btn.save')}
               </Button>
             </div>
+
+            {/* 已学习的纠正示例 */}
+            <CorrectionsManager />
           </TabsContent>
 
           {/* 书签统计 */}
@@ -553,10 +1249,18 @@ export default function OptionsPage() {
                     <div>
                       <div className="text-sm text-muted-foreground">{t('organize.estimatedCost')}</div>
                       <div className="text-2xl font-semibold">
-                        ${tokenEstimate.estimatedCost.toFixed(4)}
+                        {tokenEstimate.estimatedCost !== null
+                          ? `$${tokenEstimate.estimatedCost.toFixed(4)}`
+                          : t('organize.unknownPrice')}
                       </div>
                     </div>
                   </div>
+                  <div className="text-xs text-muted-foreground">
+                    {t('organize.tokenBreakdown', {
+                      input: tokenEstimate.inputTokens.toLocaleString(),
+                      output: tokenEstimate.outputTokens.toLocaleString()
+                    })}
+                  </div>
                   {tokenEstimate.warning && (
                     <Alert variant="destructive">
                       <AlertTriangle className="w-4 h-4" />
@@ -589,6 +1293,9 @@ export default function OptionsPage() {
               </CardContent>
             </Card>
 
+            {/* AI 用量 */}
+            <UsageStats refreshTrigger={refreshTrigger} monthlyBudget={settings.monthlyBudget} />
+
             {/* 标签可视化 */}
             <TagVisualization refreshTrigger={refreshTrigger} />
 
@@ -610,6 +1317,11 @@ export default function OptionsPage() {
             </Card>
           </TabsContent>
 
+          {/* 分类规则 */}
+          <TabsContent value="rules" className="space-y-6">
+            <RulesEditor />
+          </TabsContent>
+
           {/* 批量整理 */}
           <TabsContent value="batch" className="space-y-6">
             <BatchOrganize />
@@ -1,4 +1,31 @@
 // Background Service Worker for AI Smart Bookmark Organizer
+import { getProvider } from '@/services/aiProviders';
+import { getBookmarkMetadata } from '@/services/metadataFetcher';
+import { getSmartSaveSuggestion, requestEmbeddings } from '@/services/aiService';
+import {
+  addPendingSuggestion,
+  isAutoOrganizePaused,
+  moveBookmarkToPath,
+  refreshBadge,
+  removePendingSuggestion,
+  setImportInProgress
+} from '@/services/autoOrganize';
+import { INBOX_ALARM, processInbox, scheduleInboxAlarm } from '@/services/inbox';
+import { DEFAULT_URL_RULES } from '@/services/urlNormalizer';
+import { createWebRequestTracer } from '@/services/linkChecker';
+import {
+  LINK_CHECK_PORT,
+  getLinkScanState,
+  pauseLinkScan,
+  resumeLinkScan,
+  startLinkScan,
+  subscribeLinkScan
+} from '@/services/linkScanner';
+import type { LinkCheckMessage, LinkCheckRequest } from '@/services/linkScanner';
+import { getSettings } from '@/hooks/useSettings';
+import { getStoredLanguage, t } from '@/hooks/useLanguage';
+import { getFolderPaths, findFolderByPath } from '@/hooks/useBookmarks';
+import type { InboxRunSummary } from '@/types';
 
 // 安装时初始化默认设置
 chrome.runtime.onInstalled.addListener((details) => {
@@ -7,6 +34,7 @@ chrome.runtime.onInstalled.addListener((details) => {
     chrome.storage.sync.set({
       settings: {
         // AI 模型配置
+        provider: 'openai',
         baseUrl: 'https://api.openai.com/v1',
         apiKey: '',
         modelName: 'gpt-4o-mini',
@@ -15,7 +43,41 @@ chrome.runtime.onInstalled.addListener((details) => {
         tokenWarningThreshold: 10000,
         languagePreference: 'zh',
         // Ollama 配置
-        ollamaUrl: 'http://localhost:11434'
+        ollamaUrl: 'http://localhost:11434',
+        // 请求重试与超时
+        maxRetries: 3,
+        requestTimeout: 60,
+        // 批量整理的分批、并发与速率限制
+        organizeBatchSize: 20,
+        organizeConcurrency: 2,
+        rateLimits: {},
+        customPricing: {},
+        // 每月预算上限（美元，0 表示不限制）
+        monthlyBudget: 0,
+        // AI 结果缓存有效期（天）
+        cacheTTLDays: 30,
+        // 批量整理前抓取页面元信息
+        fetchPageMetadata: true,
+        // 重构模式的分类体系规模
+        taxonomyMaxDepth: 3,
+        taxonomyMaxChildren: 8,
+        // 批量整理自动接受的置信度阈值
+        autoAcceptThreshold: 0.7,
+        // 从用户的纠正中学习
+        learnFromCorrections: true,
+        // 新建书签自动整理（默认关闭）
+        autoOrganizeMode: 'off',
+        // 收件箱定时整理（默认不启用）
+        inboxFolderId: '',
+        inboxIntervalMinutes: 60,
+        inboxMaxItems: 20,
+        inboxAutoApply: false,
+        // 嵌入向量分类（默认关闭）
+        embeddingsEnabled: false,
+        embeddingModel: 'text-embedding-3-small',
+        embeddingMargin: 0.05,
+        // 网址规范化规则
+        urlRules: DEFAULT_URL_RULES
       }
     });
     
@@ -23,6 +85,158 @@ chrome.runtime.onInstalled.addListener((details) => {
   }
 });
 
+// 进行中的 Ollama 请求，按 requestId 记录以便取消
+const ollamaControllers = new Map<string, AbortController>();
+
+// 带 HTTP 状态码的错误，便于调用方判断是否重试
+const createHttpError = (message: string, status: number): Error => {
+  return Object.assign(new Error(message), { status });
+};
+
+// 新建书签后等待片刻再分类，给用户在浏览器的星标弹窗中选择文件夹的时间
+const AUTO_ORGANIZE_DELAY_MS = 5000;
+
+// 扩展自身创建的书签（智能保存）不参与自动整理
+const extensionCreatedUrls = new Set<string>();
+
+// 读取书签节点（已删除时返回 null）
+const getBookmarkNode = async (id: string): Promise<chrome.bookmarks.BookmarkTreeNode | null> => {
+  try {
+    const [node] = await chrome.bookmarks.get(id);
+    return node ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// 自动整理新书签：先匹配规则再调用 AI，按设置直接移动或加入待确认列表
+// receivedAt 为事件到达的时间，按当时的暂停状态判断
+const handleBookmarkCreated = async (id: string, bookmark: chrome.bookmarks.BookmarkTreeNode, receivedAt: number) => {
+  const url = bookmark.url;
+  if (!url || extensionCreatedUrls.has(url)) return;
+  
+  const settings = await getSettings();
+  if (settings.autoOrganizeMode === 'off' || await isAutoOrganizePaused(receivedAt)) return;
+  
+  await new Promise(resolve => setTimeout(resolve, AUTO_ORGANIZE_DELAY_MS));
+  
+  // 书签已被删除或被用户移动到其他文件夹时不再处理
+  const isUntouched = async () => (await getBookmarkNode(id))?.parentId === bookmark.parentId;
+  if (!await isUntouched()) return;
+  
+  const folders = getFolderPaths(await chrome.bookmarks.getTree());
+  let description: string | undefined;
+  if (settings.fetchPageMetadata) {
+    try {
+      description = (await getBookmarkMetadata([url]))[url]?.description;
+    } catch (e) {
+      console.warn('抓取页面元信息失败:', e);
+    }
+  }
+  
+  const node = await getBookmarkNode(id);
+  const suggestion = await getSmartSaveSuggestion(
+    settings,
+    { title: node?.title ?? bookmark.title, url, description },
+    folders.map(f => f.path)
+  );
+  
+  // 分类期间书签可能已被移动；已在建议的文件夹中时无需处理
+  if (!await isUntouched()) return;
+  const target = findFolderByPath(folders, suggestion.category);
+  if (target?.id === bookmark.parentId) return;
+  
+  // 自动移动模式下，低置信度的建议仍交给用户确认
+  if (settings.autoOrganizeMode === 'move' && suggestion.confidence >= settings.autoAcceptThreshold) {
+    await moveBookmarkToPath(id, suggestion.category, suggestion.tags);
+    return;
+  }
+  
+  await addPendingSuggestion({
+    bookmarkId: id,
+    title: node?.title ?? bookmark.title,
+    url,
+    currentFolder: folders.find(f => f.id === bookmark.parentId)?.path ?? '',
+    suggestedFolder: target?.path ?? suggestion.category,
+    isNewCategory: !target,
+    tags: suggestion.tags,
+    reason: suggestion.reason,
+    confidence: suggestion.confidence,
+    createdAt: Date.now()
+  });
+};
+
+// 监听新建书签（浏览器导入书签期间不处理）
+chrome.bookmarks.onCreated.addListener((id, bookmark) => {
+  handleBookmarkCreated(id, bookmark, Date.now()).catch((e) => {
+    console.warn('自动整理新书签失败:', e);
+  });
+});
+
+chrome.bookmarks.onImportBegan.addListener(() => {
+  setImportInProgress(true);
+});
+
+chrome.bookmarks.onImportEnded.addListener(() => {
+  setImportInProgress(false);
+});
+
+// 书签被删除后移除对应的待确认建议
+chrome.bookmarks.onRemoved.addListener((id) => {
+  removePendingSuggestion(id);
+});
+
+// 按当前设置安排收件箱定时整理
+const syncInboxAlarm = async () => {
+  await scheduleInboxAlarm(await getSettings());
+};
+
+// 整理收件箱并通知结果（导入或回滚书签期间跳过）
+const runInbox = async (): Promise<InboxRunSummary | null> => {
+  if (await isAutoOrganizePaused()) return null;
+  
+  const summary = await processInbox(await getSettings());
+  if (summary) {
+    const lang = await getStoredLanguage();
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon128.png',
+      title: t('inbox.notifyTitle', lang),
+      message: t('inbox.notifySummary', lang, {
+        moved: summary.moved,
+        queued: summary.queued,
+        failed: summary.failed
+      })
+    });
+  }
+  return summary;
+};
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === INBOX_ALARM) {
+    runInbox().catch((e) => {
+      console.warn('收件箱整理失败:', e);
+    });
+  }
+});
+
+// 设置变化时重新安排定时任务
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'sync' && changes.settings) {
+    syncInboxAlarm();
+  }
+});
+
+chrome.runtime.onInstalled.addListener(() => {
+  syncInboxAlarm();
+});
+
+// 浏览器启动后恢复待确认数量的角标与定时任务
+chrome.runtime.onStartup.addListener(() => {
+  refreshBadge();
+  syncInboxAlarm();
+});
+
 // 监听来自 popup 和 content script 的消息
 chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   (async () => {
@@ -39,6 +253,9 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           break;
           
         case 'CREATE_BOOKMARK':
+          // onCreated 可能先于 create 返回触发，提前标记
+          extensionCreatedUrls.add(request.url);
+          setTimeout(() => extensionCreatedUrls.delete(request.url), AUTO_ORGANIZE_DELAY_MS);
           const newBookmark = await chrome.bookmarks.create({
             parentId: request.parentId,
             title: request.title,
@@ -54,8 +271,13 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           
         case 'OLLAMA_GENERATE':
           try {
+            const ollamaController = new AbortController();
+            if (request.requestId) {
+              ollamaControllers.set(request.requestId, ollamaController);
+            }
             const ollamaUrl = request.ollamaUrl || 'http://localhost:11434';
             const modelName = request.modelName || 'llama2';
+            const timeout = request.timeout || 60000;
             
             console.log('正在连接 Ollama:', ollamaUrl, '模型:', modelName);
             
@@ -76,15 +298,17 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
             }
             
             // 通过 background script 调用 Ollama 以绕过 CORS
-            const ollamaResponse = await fetch(`${ollamaUrl}/api/generate`, {
+            const ollamaProvider = getProvider('ollama');
+            const ollamaRequest = ollamaProvider.buildChatRequest(
+              { baseUrl: '', apiKey: '', ollamaUrl, modelName },
+              request.prompt,
+              { stream: false, json: !!request.json }
+            );
+            const ollamaResponse = await fetch(ollamaRequest.url, {
               method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                model: modelName,
-                prompt: request.prompt,
-                stream: false
-              }),
-              signal: AbortSignal.timeout(60000) // 60秒超时
+              headers: ollamaRequest.headers,
+              body: JSON.stringify(ollamaRequest.body),
+              signal: AbortSignal.any([ollamaController.signal, AbortSignal.timeout(timeout)])
             });
             
             if (!ollamaResponse.ok) {
@@ -93,15 +317,15 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
               
               // 403 错误通常是 Ollama CORS 设置问题
               if (ollamaResponse.status === 403) {
-                throw new Error(`403: Ollama 拒绝了请求（CORS 问题）。\n\n请按以下步骤设置 Ollama 环境变量后重启服务：\n\nWindows PowerShell:\n$env:OLLAMA_HOST="0.0.0.0"; $env:OLLAMA_ORIGINS="*"; ollama serve\n\nWindows CMD:\nset OLLAMA_HOST=0.0.0.0 && set OLLAMA_ORIGINS=* && ollama serve\n\nMac/Linux:\nOLLAMA_HOST=0.0.0.0 OLLAMA_ORIGINS=* ollama serve`);
+                throw createHttpError(`403: Ollama 拒绝了请求（CORS 问题）。\n\n请按以下步骤设置 Ollama 环境变量后重启服务：\n\nWindows PowerShell:\n$env:OLLAMA_HOST="0.0.0.0"; $env:OLLAMA_ORIGINS="*"; ollama serve\n\nWindows CMD:\nset OLLAMA_HOST=0.0.0.0 && set OLLAMA_ORIGINS=* && ollama serve\n\nMac/Linux:\nOLLAMA_HOST=0.0.0.0 OLLAMA_ORIGINS=* ollama serve`, 403);
               }
               
               // 404 错误可能是模型不存在
               if (ollamaResponse.status === 404) {
-                throw new Error(`404: 模型 "${modelName}" 不存在。请先运行: ollama pull ${modelName}`);
+                throw createHttpError(`404: 模型 "${modelName}" 不存在。请先运行: ollama pull ${modelName}`, 404);
               }
               
-              throw new Error(`Ollama 错误: HTTP ${ollamaResponse.status} - ${errorText}`);
+              throw createHttpError(`Ollama 错误: HTTP ${ollamaResponse.status} - ${errorText}`, ollamaResponse.status);
             }
             
             // 获取响应文本并尝试解析 JSON
@@ -122,7 +346,11 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
               return;
             }
             
-            sendResponse({ success: true, data: ollamaData.response });
+            sendResponse({
+              success: true,
+              data: ollamaProvider.parseChatResponse(ollamaData),
+              usage: ollamaProvider.parseUsage(ollamaData)
+            });
           } catch (fetchError: any) {
             console.error('Ollama 连接错误:', fetchError);
             
@@ -136,27 +364,106 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
               }
             }
             
+            // 用户取消
+            if (fetchError.name === 'AbortError') {
+              throw new Error('Ollama 请求已取消');
+            }
+            
             // 超时错误
             if (fetchError.name === 'TimeoutError' || fetchError.message?.includes('timeout')) {
-              throw new Error('Ollama 请求超时。请检查模型是否正在加载，或稍后重试。');
+              throw createHttpError('Ollama 请求超时。请检查模型是否正在加载，或稍后重试。', 408);
             }
             
             throw fetchError;
+          } finally {
+            if (request.requestId) {
+              ollamaControllers.delete(request.requestId);
+            }
+          }
+          break;
+          
+        case 'OLLAMA_EMBED':
+          // 通过 background script 调用 Ollama 嵌入接口以绕过 CORS
+          try {
+            const embedController = new AbortController();
+            if (request.requestId) {
+              ollamaControllers.set(request.requestId, embedController);
+            }
+            const data = await requestEmbeddings(request.settings, request.inputs || [], embedController.signal);
+            sendResponse({ success: true, data });
+          } finally {
+            if (request.requestId) {
+              ollamaControllers.delete(request.requestId);
+            }
           }
           break;
           
+        case 'FETCH_METADATA':
+          sendResponse({ success: true, data: await getBookmarkMetadata(request.urls || []) });
+          break;
+          
+        case 'PROCESS_INBOX':
+          sendResponse({ success: true, data: await runInbox() });
+          break;
+          
+        case 'OLLAMA_ABORT':
+          ollamaControllers.get(request.requestId)?.abort();
+          ollamaControllers.delete(request.requestId);
+          sendResponse({ success: true });
+          break;
+          
         default:
           sendResponse({ success: false, error: 'Unknown message type' });
       }
     } catch (error) {
       console.error('Background script error:', error);
-      sendResponse({ success: false, error: String(error) });
+      sendResponse({ success: false, error: String(error), status: (error as { status?: number }).status });
     }
   })();
   
   return true; // 保持消息通道开放以支持异步响应
 });
 
+// 链接检测的网络层记录（fetch 拿不到的重定向与错误原因）
+const linkTracer = createWebRequestTracer();
+
+// 处理设置页的链接扫描请求（扫描在 Service Worker 中进行，关闭页面不会中断）
+const handleLinkCheckRequest = async (request: LinkCheckRequest, post: (message: LinkCheckMessage) => void) => {
+  switch (request.type) {
+    case 'start':
+      await startLinkScan(request.items, request.incremental, linkTracer);
+      break;
+    case 'resume':
+      await resumeLinkScan(linkTracer);
+      break;
+    case 'pause':
+      await pauseLinkScan();
+      break;
+    case 'attach':
+      post({ type: 'job', ...(await getLinkScanState()) });
+      break;
+  }
+};
+
+// 通过长连接推送扫描进度，页面断开连接时只取消订阅
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== LINK_CHECK_PORT) return;
+
+  const post = (message: LinkCheckMessage) => port.postMessage(message);
+  const unsubscribe = subscribeLinkScan(post);
+  port.onDisconnect.addListener(unsubscribe);
+
+  port.onMessage.addListener((request: LinkCheckRequest) => {
+    handleLinkCheckRequest(request, post).catch((error) => {
+      console.error('链接扫描请求失败:', error);
+      post({ type: 'error', error: String(error) });
+    });
+  });
+});
+
+// Service Worker 重启后继续被中断的扫描
+resumeLinkScan(linkTracer, true).catch((error) => console.error('恢复链接扫描失败:', error));
+
 // 监听快捷键命令
 chrome.commands.onCommand.addListener((command) => {
   console.log('快捷键被触发:', command);
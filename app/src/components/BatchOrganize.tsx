@@ -1,15 +1,23 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { BookmarkTreeSelect } from './BookmarkTreeSelect';
-import { useBookmarkTree, getAllFolders, flattenBookmarks } from '@/hooks/useBookmarks';
+import { TaxonomyEditor } from './TaxonomyEditor';
+import { OrganizePreviewList } from './OrganizePreviewList';
+import { useBookmarkTree, getFolderPaths, findFolderByPath, flattenBookmarks, ensureFolderPath, findBookmarkBarId, isSameFolderPath } from '@/hooks/useBookmarks';
 import { useSettings } from '@/hooks/useSettings';
-import { estimateOrganizeTokens, getOrganizeSuggestions } from '@/services/aiService';
-import { createSnapshot } from '@/services/storageService';
+import { estimateOrganizeTokens, getOrganizeSuggestions, proposeTaxonomy, isAbortError } from '@/services/aiService';
+import { taxonomyToPaths, isTaxonomyValid, countTaxonomyNodes } from '@/services/taxonomy';
+import { createSnapshot, addTagsToBookmark } from '@/services/storageService';
+import { recordCorrections } from '@/services/corrections';
+import { getRules, findMatchingRule } from '@/services/rules';
 import { useLanguage } from '@/hooks/useLanguage';
-import type { BookmarkNode } from '@/types';
+import { useTokenizer } from '@/hooks/useTokenizer';
+import type { BookmarkNode, BookmarkRule, OrganizeBatchFailure, OrganizeProgress, OrganizeResult, TaxonomyNode, TaxonomyLimits } from '@/types';
 import {
   FolderTree,
   AlertTriangle,
@@ -20,24 +28,17 @@ import {
   ArrowRight,
   RefreshCw,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Sparkles
 } from 'lucide-react';
 
-type OrganizeStep = 'select' | 'analyze' | 'processing' | 'preview' | 'complete';
-
-interface OrganizeResult {
-  bookmarkId: string;
-  title: string;
-  url: string;
-  originalFolder: string;
-  suggestedFolder: string;
-  isNewCategory: boolean;
-}
+type OrganizeStep = 'select' | 'analyze' | 'taxonomy' | 'processing' | 'preview' | 'complete';
 
 export const BatchOrganize = () => {
   const { tree, loading: treeLoading, refetch } = useBookmarkTree();
   const { settings, isValid: settingsValid } = useSettings();
   const { t } = useLanguage();
+  const countTokens = useTokenizer();
   
   // 步骤状态
   const [currentStep, setCurrentStep] = useState<OrganizeStep>('select');
@@ -50,30 +51,57 @@ export const BatchOrganize = () => {
   const [progress, setProgress] = useState(0);
   const [currentBatch, setCurrentBatch] = useState(0);
   const [totalBatches, setTotalBatches] = useState(0);
+  const [progressPhase, setProgressPhase] = useState<OrganizeProgress['phase']>('classify');
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // 结果状态
   const [organizeResults, setOrganizeResults] = useState<OrganizeResult[]>([]);
+  const [batchFailures, setBatchFailures] = useState<OrganizeBatchFailure[]>([]);
+  const [cachedCount, setCachedCount] = useState(0);
+  const [ruleMatchedCount, setRuleMatchedCount] = useState(0);
+  const [embeddingMatchedCount, setEmbeddingMatchedCount] = useState(0);
+  const [rules, setRules] = useState<BookmarkRule[]>([]);
+  const [bypassCache, setBypassCache] = useState(false);
+  
+  // 重构模式：先由 AI 设计分类体系，用户确认后严格按其分类
+  const [restructure, setRestructure] = useState(false);
+  const [taxonomy, setTaxonomy] = useState<TaxonomyNode[]>([]);
+  const [generatingTaxonomy, setGeneratingTaxonomy] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
+  // 组件卸载时取消进行中的 AI 请求
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+  
+  // 加载分类规则（用于预估时排除规则命中的书签）
+  useEffect(() => {
+    getRules().then(setRules);
+  }, []);
+  
+  // 获取全部书签（重构模式按整棵树采样设计分类体系）
+  const allBookmarks = useMemo(() => flattenBookmarks(tree), [tree]);
+  
   // 获取选中的书签
   const selectedBookmarks = useMemo(() => {
-    const allBookmarks = flattenBookmarks(tree);
     return allBookmarks.filter(b => selectedIds.includes(b.id));
-  }, [tree, selectedIds]);
+  }, [allBookmarks, selectedIds]);
   
-  // 获取现有文件夹
+  // 获取现有文件夹（带完整路径）
   const existingFolders = useMemo(() => {
-    return getAllFolders(tree);
+    return getFolderPaths(tree);
   }, [tree]);
   
-  // Token 预估
+  // Token 预估（规则命中的书签不会发送给 AI）
   const tokenEstimate = useMemo(() => {
     if (selectedBookmarks.length === 0) return null;
     return estimateOrganizeTokens(
-      selectedBookmarks,
-      existingFolders.map(f => f.title)
+      settings,
+      selectedBookmarks.filter(b => !findMatchingRule(rules, { url: b.url || '', title: b.title })),
+      existingFolders.map(f => f.path),
+      countTokens
     );
-  }, [selectedBookmarks, existingFolders]);
+  }, [settings, selectedBookmarks, existingFolders, rules, countTokens]);
   
   // 检查是否超过阈值
   const isOverThreshold = useMemo(() => {
@@ -97,98 +125,172 @@ export const BatchOrganize = () => {
     setError(null);
   };
   
+  // 分类体系的规模限制
+  const taxonomyLimits: TaxonomyLimits = {
+    maxDepth: Math.max(1, settings.taxonomyMaxDepth),
+    maxChildren: Math.max(1, settings.taxonomyMaxChildren)
+  };
+  
+  // 重构模式：生成分类体系
+  const handleProposeTaxonomy = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
+    setCurrentStep('taxonomy');
+    setGeneratingTaxonomy(true);
+    setError(null);
+    
+    try {
+      setTaxonomy(await proposeTaxonomy(settings, allBookmarks, existingFolders, controller.signal));
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e.message : '生成分类体系失败');
+      }
+      // 没有可编辑的分类体系时返回确认步骤
+      if (taxonomy.length === 0) {
+        setCurrentStep('analyze');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setGeneratingTaxonomy(false);
+    }
+  };
+  
   // 开始处理
   const handleStartProcess = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
     setCurrentStep('processing');
     setProcessing(true);
     setProgress(0);
+    setBatchFailures([]);
     setError(null);
     
     try {
       // 1. 创建快照
       await createSnapshot(tree, `批量整理前 - ${selectedBookmarks.length} 个书签`);
       
-      // 2. 分批处理
-      const batchSize = 20;
-      const batches: BookmarkNode[][] = [];
-      for (let i = 0; i < selectedBookmarks.length; i += batchSize) {
-        batches.push(selectedBookmarks.slice(i, i + batchSize));
-      }
-      setTotalBatches(batches.length);
-      
-      const results: OrganizeResult[] = [];
-      const folderNames = existingFolders.map(f => f.title);
+      // 2. 分批并发处理（分批、并发与限速由 aiService 统一调度）
+      // 重构模式下只能归入用户确认的分类体系
+      const {
+        suggestions,
+        failures,
+        unclassifiedIds,
+        cachedCount,
+        ruleMatchedCount,
+        embeddingMatchedCount
+      } = await getOrganizeSuggestions(
+        settings,
+        selectedBookmarks,
+        restructure ? taxonomyToPaths(taxonomy) : existingFolders.map(f => f.path),
+        {
+          signal: controller.signal,
+          bypassCache,
+          strict: restructure,
+          embeddingReference: { folders: existingFolders, bookmarks: allBookmarks },
+          onProgress: ({ phase, completedBatches, totalBatches, processedBookmarks, totalBookmarks }) => {
+            setProgressPhase(phase);
+            setCurrentBatch(completedBatches);
+            setTotalBatches(totalBatches);
+            setProgress(totalBookmarks ? Math.round((processedBookmarks / totalBookmarks) * 100) : 0);
+          }
+        }
+      );
       
-      for (let i = 0; i < batches.length; i++) {
-        setCurrentBatch(i + 1);
-        setProgress(Math.round((i / batches.length) * 100));
+      // 按选中顺序生成结果
+      const unclassifiedSet = new Set(unclassifiedIds);
+      const results: OrganizeResult[] = selectedBookmarks.map((bookmark) => {
+        const suggestion = suggestions.get(bookmark.id);
+        const originalFolder = existingFolders.find(f => f.id === bookmark.parentId)?.path
+          ?? findParentFolderName(tree, bookmark.id);
+        const needsReview = !!suggestion
+          && (suggestion.confidence === undefined || suggestion.confidence < settings.autoAcceptThreshold);
         
-        const batch = batches[i];
-        const suggestions = await getOrganizeSuggestions(
-          settings,
-          batch,
-          folderNames
-        );
-        
-        // 处理结果
-        for (const bookmark of batch) {
-          const suggestion = suggestions.get(bookmark.id);
-          const originalFolder = findParentFolderName(tree, bookmark.id);
-          
-          results.push({
-            bookmarkId: bookmark.id,
-            title: bookmark.title,
-            url: bookmark.url || '',
-            originalFolder,
-            suggestedFolder: suggestion?.category || originalFolder,
-            isNewCategory: suggestion?.isNewCategory || false
-          });
-        }
-      }
+        return {
+          bookmarkId: bookmark.id,
+          title: bookmark.title,
+          url: bookmark.url || '',
+          originalFolder,
+          suggestedFolder: suggestion?.category || originalFolder,
+          aiFolder: suggestion?.category,
+          // 以路径是否存在为准，不依赖模型自报的 isNewCategory
+          isNewCategory: !!suggestion && !findFolderByPath(existingFolders, suggestion.category),
+          confidence: suggestion?.confidence,
+          reason: suggestion?.reason,
+          tags: suggestion?.tags,
+          needsReview,
+          unclassified: !suggestion || unclassifiedSet.has(bookmark.id),
+          // 低置信度的结果默认不应用
+          accepted: !!suggestion && !needsReview
+        };
+      });
       
       setProgress(100);
       setOrganizeResults(results);
+      setBatchFailures(failures);
+      setCachedCount(cachedCount);
+      setRuleMatchedCount(ruleMatchedCount);
+      setEmbeddingMatchedCount(embeddingMatchedCount);
       setCurrentStep('preview');
     } catch (e) {
-      setError(e instanceof Error ? e.message : '处理失败');
-      setCurrentStep('analyze');
+      // 用户取消时静默返回确认步骤
+      if (!isAbortError(e)) {
+        setError(e instanceof Error ? e.message : '处理失败');
+      }
+      setCurrentStep(restructure ? 'taxonomy' : 'analyze');
     } finally {
+      abortControllerRef.current = null;
       setProcessing(false);
     }
   };
   
+  // 取消处理
+  const handleCancelProcess = () => {
+    abortControllerRef.current?.abort();
+  };
+  
   // 应用更改
   const handleApplyChanges = async () => {
     setProcessing(true);
     setError(null);
     
     try {
-      // 创建新文件夹（如果需要）
-      const newFolders = new Map<string, string>();
+      // 按完整路径定位目标文件夹，不存在的各级文件夹依次新建（顶层新建在书签栏下）
+      const folders = [...existingFolders];
+      const bookmarkBarId = findBookmarkBarId(tree);
+      const bookmarkParents = new Map(selectedBookmarks.map(b => [b.id, b.parentId]));
       
-      for (const result of organizeResults) {
-        if (result.isNewCategory && !newFolders.has(result.suggestedFolder)) {
-          // 在书签栏下创建新文件夹
-          const bookmarkBarId = findBookmarkBarId(tree);
-          const newFolder = await chrome.bookmarks.create({
-            parentId: bookmarkBarId,
-            title: result.suggestedFolder
-          });
-          newFolders.set(result.suggestedFolder, newFolder.id);
+      // 只移动用户确认的书签（未分类和被拒绝的书签保持原位置）
+      const accepted = organizeResults.filter(r => !r.unclassified && r.accepted);
+      for (const result of accepted) {
+        const target = await ensureFolderPath(folders, result.suggestedFolder, bookmarkBarId);
+        
+        if (target.id !== bookmarkParents.get(result.bookmarkId)) {
+          await chrome.bookmarks.move(result.bookmarkId, { parentId: target.id });
         }
-      }
-      
-      // 移动书签
-      for (const result of organizeResults) {
-        const targetFolderId = result.isNewCategory
-          ? newFolders.get(result.suggestedFolder)
-          : existingFolders.find(f => f.title === result.suggestedFolder)?.id;
         
-        if (targetFolderId && targetFolderId !== result.bookmarkId) {
-          await chrome.bookmarks.move(result.bookmarkId, { parentId: targetFolderId });
+        // 添加规则附带的标签
+        if (result.tags?.length) {
+          try {
+            await addTagsToBookmark(result.bookmarkId, result.tags);
+          } catch (e) {
+            console.error('保存标签失败:', e);
+          }
         }
       }
       
+      // 记录用户修改过目标文件夹的条目，供之后的建议参考
+      await recordCorrections(accepted
+        .filter(r => r.aiFolder && !isSameFolderPath(r.aiFolder, r.suggestedFolder))
+        .map(r => ({
+          url: r.url,
+          title: r.title,
+          suggestedFolder: r.aiFolder!,
+          chosenFolder: r.suggestedFolder,
+          source: 'batchOrganize' as const
+        })));
+      
       // 刷新书签树
       await refetch();
       
@@ -205,6 +307,8 @@ export const BatchOrganize = () => {
     setCurrentStep('select');
     setSelectedIds([]);
     setOrganizeResults([]);
+    setBatchFailures([]);
+    setTaxonomy([]);
     setError(null);
   };
   
@@ -213,6 +317,7 @@ export const BatchOrganize = () => {
     const steps = [
       { key: 'select', label: t('batch.selectBookmarks') },
       { key: 'analyze', label: t('batch.confirmAnalyze') },
+      ...(restructure ? [{ key: 'taxonomy', label: t('taxonomy.step') }] : []),
       { key: 'processing', label: t('batch.aiProcessing') },
       { key: 'preview', label: t('batch.previewResults') }
     ];
@@ -338,9 +443,19 @@ export const BatchOrganize = () => {
                   </div>
                   <div>
                     <span className="text-muted-foreground">{t('organize.estimatedCost')}: </span>
-                    <span>${tokenEstimate.estimatedCost.toFixed(4)}</span>
+                    <span>
+                      {tokenEstimate.estimatedCost !== null
+                        ? `$${tokenEstimate.estimatedCost.toFixed(4)}`
+                        : t('organize.unknownPrice')}
+                    </span>
                   </div>
                 </div>
+                <div className="text-xs text-muted-foreground">
+                  {t('organize.tokenBreakdown', {
+                    input: tokenEstimate.inputTokens.toLocaleString(),
+                    output: tokenEstimate.outputTokens.toLocaleString()
+                  })}
+                </div>
                 {tokenEstimate.warning && (
                   <Alert className="mt-2 border-amber-300 bg-amber-50">
                     <AlertTriangle className="w-4 h-4 text-amber-600" />
@@ -350,6 +465,26 @@ export const BatchOrganize = () => {
               </div>
             )}
             
+            {/* 重构模式 */}
+            <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+              <div>
+                <Label htmlFor="restructure">{t('taxonomy.restructure')}</Label>
+                <div className="text-xs text-muted-foreground">{t('taxonomy.restructureHint')}</div>
+              </div>
+              <Switch id="restructure" checked={restructure} onCheckedChange={setRestructure} />
+            </div>
+            
+            {/* 缓存 */}
+            {settings.cacheTTLDays > 0 && (
+              <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+                <div>
+                  <Label htmlFor="bypassCache">{t('batch.bypassCache')}</Label>
+                  <div className="text-xs text-muted-foreground">{t('batch.bypassCacheHint')}</div>
+                </div>
+                <Switch id="bypassCache" checked={bypassCache} onCheckedChange={setBypassCache} />
+              </div>
+            )}
+            
             {isOverThreshold && (
               <Alert className="border-amber-300 bg-amber-50">
                 <AlertTriangle className="w-4 h-4 text-amber-600" />
@@ -364,10 +499,90 @@ export const BatchOrganize = () => {
                 <ChevronLeft className="w-4 h-4 mr-2" />
                 {t('btn.back')}
               </Button>
-              <Button onClick={handleStartProcess} disabled={isOverThreshold && !settingsValid}>
-                <Play className="w-4 h-4 mr-2" />
-                {t('batch.startOrganize')}
+              {restructure ? (
+                <Button onClick={handleProposeTaxonomy} disabled={isOverThreshold && !settingsValid}>
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  {t('taxonomy.generate')}
+                </Button>
+              ) : (
+                <Button onClick={handleStartProcess} disabled={isOverThreshold && !settingsValid}>
+                  <Play className="w-4 h-4 mr-2" />
+                  {t('batch.startOrganize')}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+  
+  // 分类体系编辑步骤（重构模式）
+  if (currentStep === 'taxonomy') {
+    const taxonomyValid = taxonomy.length > 0 && isTaxonomyValid(taxonomy);
+    
+    return (
+      <div className="space-y-4">
+        <StepIndicator />
+        
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="w-4 h-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FolderTree className="w-5 h-5" />
+              {t('taxonomy.title')}
+            </CardTitle>
+            <CardDescription>
+              {t('taxonomy.description', {
+                depth: taxonomyLimits.maxDepth,
+                children: taxonomyLimits.maxChildren
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {generatingTaxonomy ? (
+              <div className="flex flex-col items-center justify-center gap-4 py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                <div className="text-sm text-muted-foreground">
+                  {t('taxonomy.generating', { count: allBookmarks.length })}
+                </div>
+                <Button variant="outline" onClick={handleCancelProcess}>
+                  <X className="w-4 h-4 mr-2" />
+                  {t('batch.cancelProcessing')}
+                </Button>
+              </div>
+            ) : (
+              <>
+                <TaxonomyEditor nodes={taxonomy} onChange={setTaxonomy} limits={taxonomyLimits} />
+                <div className="text-xs text-muted-foreground">
+                  {taxonomyValid
+                    ? t('taxonomy.folderCount', { count: countTaxonomyNodes(taxonomy) })
+                    : t('taxonomy.invalid')}
+                </div>
+              </>
+            )}
+            
+            <div className="flex justify-between pt-4">
+              <Button variant="outline" onClick={() => setCurrentStep('analyze')} disabled={generatingTaxonomy}>
+                <ChevronLeft className="w-4 h-4 mr-2" />
+                {t('btn.back')}
               </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleProposeTaxonomy} disabled={generatingTaxonomy}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  {t('taxonomy.regenerate')}
+                </Button>
+                <Button onClick={handleStartProcess} disabled={generatingTaxonomy || !taxonomyValid}>
+                  <Play className="w-4 h-4 mr-2" />
+                  {t('taxonomy.apply')}
+                </Button>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -398,12 +613,23 @@ export const BatchOrganize = () => {
             </div>
             
             <div className="text-center text-sm text-muted-foreground">
-              {t('batch.batchInfo', { current: currentBatch, total: totalBatches })}
+              {progressPhase === 'embed'
+                ? t('batch.embedding')
+                : progressPhase === 'metadata'
+                  ? t('batch.fetchingMetadata')
+                  : t('batch.batchInfo', { current: currentBatch, total: totalBatches })}
             </div>
             
             <div className="text-xs text-muted-foreground text-center">
               {t('batch.snapshotCreated')}
             </div>
+            
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={handleCancelProcess}>
+                <X className="w-4 h-4 mr-2" />
+                {t('batch.cancelProcessing')}
+              </Button>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -412,8 +638,10 @@ export const BatchOrganize = () => {
   
   // 预览步骤
   if (currentStep === 'preview') {
-    const changes = organizeResults.filter(r => r.originalFolder !== r.suggestedFolder);
-    const newCategories = [...new Set(organizeResults.filter(r => r.isNewCategory).map(r => r.suggestedFolder))];
+    const accepted = organizeResults.filter(r => !r.unclassified && r.accepted);
+    const unclassified = organizeResults.filter(r => r.unclassified);
+    const changes = accepted.filter(r => r.originalFolder !== r.suggestedFolder);
+    const newCategories = [...new Set(accepted.filter(r => r.isNewCategory).map(r => r.suggestedFolder))];
     
     return (
       <div className="space-y-4">
@@ -435,7 +663,7 @@ export const BatchOrganize = () => {
           </CardHeader>
           <CardContent className="space-y-4">
             {/* 统计 */}
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-4 gap-4">
               <div className="p-3 bg-muted rounded-lg text-center">
                 <div className="text-2xl font-semibold">{organizeResults.length}</div>
                 <div className="text-xs text-muted-foreground">{t('batch.analyzed')}</div>
@@ -448,8 +676,66 @@ export const BatchOrganize = () => {
                 <div className="text-2xl font-semibold">{newCategories.length}</div>
                 <div className="text-xs text-muted-foreground">{t('batch.newFolders')}</div>
               </div>
+              <div className="p-3 bg-muted rounded-lg text-center">
+                <div className="text-2xl font-semibold">{unclassified.length}</div>
+                <div className="text-xs text-muted-foreground">{t('batch.unclassified')}</div>
+              </div>
             </div>
             
+            {/* 失败批次报告 */}
+            {batchFailures.length > 0 && (
+              <Alert className="border-amber-300 bg-amber-50">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                <AlertDescription className="text-amber-700 space-y-1">
+                  <div className="font-medium">
+                    {t('batch.failedBatches', { count: batchFailures.length })}
+                  </div>
+                  {batchFailures.map((failure) => (
+                    <div key={failure.batchIndex} className="text-xs break-all">
+                      {t('batch.failedBatchItem', {
+                        index: failure.batchIndex + 1,
+                        count: failure.bookmarkIds.length,
+                        error: failure.error
+                      })}
+                    </div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+            
+            {cachedCount > 0 && (
+              <div className="text-xs text-muted-foreground">
+                {t('batch.cachedResults', { count: cachedCount })}
+              </div>
+            )}
+            
+            {ruleMatchedCount > 0 && (
+              <div className="text-xs text-muted-foreground">
+                {t('batch.ruleMatchedResults', { count: ruleMatchedCount })}
+              </div>
+            )}
+            
+            {embeddingMatchedCount > 0 && (
+              <div className="text-xs text-muted-foreground">
+                {t('batch.embeddingMatchedResults', { count: embeddingMatchedCount })}
+              </div>
+            )}
+            
+            {/* 未分类书签 */}
+            {unclassified.length > 0 && (
+              <Alert className="border-amber-300 bg-amber-50">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                <AlertDescription className="text-amber-700 space-y-1">
+                  <div className="font-medium">
+                    {t('batch.unclassifiedHint', { count: unclassified.length })}
+                  </div>
+                  <div className="text-xs max-h-[80px] overflow-auto">
+                    {unclassified.map(r => r.title || r.url).join('、')}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+            
             {/* 新建文件夹提示 */}
             {newCategories.length > 0 && (
               <Alert>
@@ -459,50 +745,20 @@ export const BatchOrganize = () => {
               </Alert>
             )}
             
-            {/* 变更列表 */}
-            <div className="border rounded-lg max-h-[300px] overflow-auto">
-              <table className="w-full text-sm">
-                <thead className="bg-muted sticky top-0">
-                  <tr>
-                    <th className="px-3 py-2 text-left">书签</th>
-                    <th className="px-3 py-2 text-left">原位置</th>
-                    <th className="px-3 py-2 text-left">新位置</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {changes.slice(0, 20).map((result) => (
-                    <tr key={result.bookmarkId} className="border-t">
-                      <td className="px-3 py-2 truncate max-w-[150px]" title={result.title}>
-                        {result.title}
-                      </td>
-                      <td className="px-3 py-2 text-muted-foreground">
-                        {result.originalFolder}
-                      </td>
-                      <td className="px-3 py-2">
-                        <span className={result.isNewCategory ? 'text-amber-600' : 'text-green-600'}>
-                          {result.suggestedFolder}
-                          {result.isNewCategory && ' (新)'}
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
-                  {changes.length > 20 && (
-                    <tr>
-                      <td colSpan={3} className="px-3 py-2 text-center text-muted-foreground">
-                        {t('batch.moreChanges', { count: changes.length - 20 })}
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+            {/* 逐条确认 / 修改目标文件夹 */}
+            <OrganizePreviewList
+              results={organizeResults}
+              onResultsChange={setOrganizeResults}
+              existingFolders={existingFolders}
+              defaultThreshold={settings.autoAcceptThreshold}
+            />
             
             <div className="flex justify-between pt-4">
               <Button variant="outline" onClick={handleCancel}>
                 <X className="w-4 h-4 mr-2" />
                 {t('btn.cancel')}
               </Button>
-              <Button onClick={handleApplyChanges} disabled={processing}>
+              <Button onClick={handleApplyChanges} disabled={processing || changes.length === 0}>
                 {processing ? (
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                 ) : (
@@ -528,7 +784,9 @@ export const BatchOrganize = () => {
             </div>
             <CardTitle>{t('batch.organizeComplete')}</CardTitle>
             <CardDescription>
-              {t('batch.organizeSuccess', { count: organizeResults.length })}
+              {t('batch.organizeSuccess', {
+                count: organizeResults.filter(r => !r.unclassified && r.accepted).length
+              })}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4 text-center">
@@ -588,18 +846,4 @@ const findParentFolderName = (nodes: BookmarkNode[], bookmarkId: string): string
   return '未知';
 };
 
-// 辅助函数：查找书签栏 ID
-const findBookmarkBarId = (nodes: BookmarkNode[]): string => {
-  for (const node of nodes) {
-    if (node.title === '书签栏' || node.title === 'Bookmarks Bar') {
-      return node.id;
-    }
-    if (node.children) {
-      const found = findBookmarkBarId(node.children);
-      if (found) return found;
-    }
-  }
-  return '1';
-};
-
 export default BatchOrganize;
@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,10 +7,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { useBookmarkTree, flattenBookmarks } from '@/hooks/useBookmarks';
-import { addOperationLog } from '@/services/storageService';
+import { useSettings } from '@/hooks/useSettings';
+import { addOperationLog, getLinkHealthRecords } from '@/services/storageService';
+import { findDuplicateClusters } from '@/services/duplicates';
+import { isEmbeddingAvailable } from '@/services/embeddings';
+import { getMovedDestination, isBrokenLink, isCrossDomainRedirect } from '@/services/linkChecker';
+import { LINK_CHECK_PORT, getBrokenLinkCategory } from '@/services/linkScanner';
+import type { LinkCheckMessage, LinkCheckRequest } from '@/services/linkScanner';
 import { useLanguage } from '@/hooks/useLanguage';
-import type { BookmarkNode } from '@/types';
+import { UrlCleaner } from '@/components/UrlCleaner';
+import { MovedLinks } from '@/components/MovedLinks';
+import { ZombieBookmarks } from '@/components/ZombieBookmarks';
+import type { BookmarkNode, BrokenLinkCategory, BrokenLinkResult, DuplicateCluster, LinkHealthRecord, LinkScanJob, MovedLinkResult } from '@/types';
 import {
   Trash2,
   Link2,
@@ -20,140 +32,42 @@ import {
   Check,
   ExternalLink,
   Folder,
+  Ghost,
   RefreshCw,
   Search,
+  Pause,
+  Play,
   X,
   Info
 } from 'lucide-react';
 
-// 失效链接检测结果
-interface BrokenLinkResult {
-  bookmark: BookmarkNode;
-  status: number;
-  statusText: string;
-  reason: string;
-}
-
-// 重复书签组
-interface DuplicateGroup {
-  url: string;
-  bookmarks: BookmarkNode[];
-}
-
-// 检测链接是否可能失效
-const checkLinkStatus = async (url: string): Promise<{ isBroken: boolean; status: number; statusText: string; reason: string }> => {
-  // 跳过特殊协议
-  if (url.startsWith('chrome://') || url.startsWith('javascript:') || url.startsWith('data:')) {
-    return { isBroken: false, status: 200, statusText: 'OK', reason: '特殊协议' };
-  }
-  
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 8000);
-    
-    // 尝试多种方法检测
-    // 方法1: 使用 fetch HEAD 请求
-    try {
-      await fetch(url, {
-        method: 'HEAD',
-        mode: 'no-cors',
-        signal: controller.signal,
-        redirect: 'follow'
-      });
-      clearTimeout(timeoutId);
-      
-      // 如果响应是 2xx 或 3xx，认为是有效的
-      // 注意：no-cors 模式下无法获取真实状态码，这里只是一个粗略判断
-      return { isBroken: false, status: 200, statusText: 'OK', reason: '请求成功' };
-    } catch (fetchError) {
-      // fetch 失败，可能是 CORS 限制，不一定是链接失效
-      // 继续尝试其他检测方法
-    }
-    
-    clearTimeout(timeoutId);
-    
-    // 方法2: 检查 URL 格式
-    try {
-      const urlObj = new URL(url);
-      
-      // 检查域名是否常见失效域名
-      const deadDomains = [
-        'example.com', 'test.com', 'localhost',
-        '127.0.0.1', '0.0.0.0', '192.168.',
-        '10.0.0.', '172.16.'
-      ];
-      
-      for (const deadDomain of deadDomains) {
-        if (urlObj.hostname.includes(deadDomain)) {
-          return { 
-            isBroken: true, 
-            status: 0, 
-            statusText: '可能失效', 
-            reason: '可能是测试/本地地址' 
-          };
-        }
-      }
-      
-      // 检查是否包含明显的失效特征
-      const brokenPatterns = [
-        /404|not.?found|page.?not/i,
-        /error|failed|unavailable/i,
-        /expired|deleted|removed/i
-      ];
-      
-      for (const pattern of brokenPatterns) {
-        if (pattern.test(urlObj.pathname) || pattern.test(urlObj.search)) {
-          return { 
-            isBroken: true, 
-            status: 404, 
-            statusText: '可能失效', 
-            reason: 'URL 包含失效特征' 
-          };
-        }
-      }
-      
-    } catch (urlError) {
-      return { 
-        isBroken: true, 
-        status: 0, 
-        statusText: '无效URL', 
-        reason: 'URL 格式错误' 
-      };
-    }
-    
-    // 无法确定，标记为可疑（让用户自行判断）
-    return { 
-      isBroken: false, 
-      status: 0, 
-      statusText: '未知', 
-      reason: '无法检测（可能受反爬限制）' 
-    };
-    
-  } catch (e) {
-    return { 
-      isBroken: false, 
-      status: 0, 
-      statusText: '检测失败', 
-      reason: '网络错误' 
-    };
-  }
-};
+// 失效链接类别筛选项
+const BROKEN_CATEGORIES: BrokenLinkCategory[] = ['unreachable', 'soft-404', 'parked', 'flaky'];
 
 export const CleanMaster = () => {
   const { tree, loading: treeLoading, refetch } = useBookmarkTree();
+  const { settings } = useSettings();
   const { t } = useLanguage();
   
   // 扫描状态
-  const [scanningBroken, setScanningBroken] = useState(false);
   const [scanningDuplicates, setScanningDuplicates] = useState(false);
-  const [brokenLinks, setBrokenLinks] = useState<BrokenLinkResult[]>([]);
-  const [duplicates, setDuplicates] = useState<DuplicateGroup[]>([]);
+  // 各链接的检测记录（保存在 IndexedDB 中，按 URL 索引）
+  const [healthRecords, setHealthRecords] = useState<Map<string, LinkHealthRecord>>(new Map());
+  // 失效链接扫描任务与进度（检测在 Service Worker 中进行，结果逐条推送）
+  const [scanJob, setScanJob] = useState<LinkScanJob | null>(null);
+  const [checkedCount, setCheckedCount] = useState(0);
+  const linkCheckPort = useRef<chrome.runtime.Port | null>(null);
+  const [brokenFilter, setBrokenFilter] = useState<BrokenLinkCategory | 'all'>('all');
+  const [duplicates, setDuplicates] = useState<DuplicateCluster[]>([]);
+  // 近似重复（标题相近）与语义重复（嵌入向量）的扫描选项
+  const [nearDuplicates, setNearDuplicates] = useState(true);
+  const [semanticDuplicates, setSemanticDuplicates] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   
   // 选中状态
   const [selectedBrokenIds, setSelectedBrokenIds] = useState<string[]>([]);
-  const [selectedDuplicateUrls, setSelectedDuplicateUrls] = useState<string[]>([]);
+  const [selectedDuplicateKeys, setSelectedDuplicateKeys] = useState<string[]>([]);
   const [keepSelections, setKeepSelections] = useState<Map<string, string>>(new Map());
   
   // 删除确认对话框
@@ -161,89 +75,139 @@ export const CleanMaster = () => {
   const [deleting, setDeleting] = useState(false);
   const [deleteType, setDeleteType] = useState<'broken' | 'duplicates' | null>(null);
 
+  const scanningBroken = scanJob?.status === 'running';
+
   // 获取所有书签
   const allBookmarks = useMemo(() => {
     return flattenBookmarks(tree);
   }, [tree]);
 
-  // 扫描失效链接
-  const scanBrokenLinks = useCallback(async () => {
-    setScanningBroken(true);
+  // 连接 Service Worker：扫描在后台进行，页面关闭后仍会继续，重新打开时获取当前进度
+  const connectLinkCheck = useCallback((): chrome.runtime.Port => {
+    if (linkCheckPort.current) return linkCheckPort.current;
+
+    const port = chrome.runtime.connect({ name: LINK_CHECK_PORT });
+    linkCheckPort.current = port;
+
+    port.onMessage.addListener((message: LinkCheckMessage) => {
+      switch (message.type) {
+        case 'job':
+          setScanJob(message.job);
+          setCheckedCount(message.checked);
+          break;
+        case 'result':
+          setHealthRecords(prev => new Map(prev).set(message.record.url, message.record));
+          setCheckedCount(count => count + 1);
+          break;
+        case 'done':
+          setScanJob(message.job);
+          setSuccess(t('clean.scanFinished'));
+          setTimeout(() => setSuccess(null), 3000);
+          break;
+        case 'error':
+          setScanJob(prev => prev && { ...prev, status: 'paused' });
+          setError(message.error);
+          break;
+      }
+    });
+    // Service Worker 被终止时连接会断开，下次发送请求时重新连接
+    port.onDisconnect.addListener(() => {
+      if (linkCheckPort.current === port) linkCheckPort.current = null;
+    });
+
+    const request: LinkCheckRequest = { type: 'attach' };
+    port.postMessage(request);
+    return port;
+  }, [t]);
+
+  const sendLinkCheckRequest = useCallback((request: LinkCheckRequest) => {
     setError(null);
-    setBrokenLinks([]);
-    setSelectedBrokenIds([]);
-    
-    const results: BrokenLinkResult[] = [];
-    
+    connectLinkCheck().postMessage(request);
+  }, [connectLinkCheck]);
+
+  // 打开页面时获取任务进度，离开页面时断开连接（扫描不会停止）
+  useEffect(() => {
+    connectLinkCheck();
+    return () => {
+      linkCheckPort.current?.disconnect();
+      linkCheckPort.current = null;
+    };
+  }, [connectLinkCheck]);
+
+  // 读取书签的检测记录
+  useEffect(() => {
+    const urls = allBookmarks.filter(b => b.url).map(b => b.url!);
+    getLinkHealthRecords(urls)
+      .then(setHealthRecords)
+      .catch(e => console.error('读取链接检测记录失败:', e));
+  }, [allBookmarks]);
+
+  // 由检测记录得出失效链接与已迁移的链接
+  const { brokenLinks, movedLinks } = useMemo(() => {
+    const broken: BrokenLinkResult[] = [];
+    const moved: MovedLinkResult[] = [];
     for (const bookmark of allBookmarks) {
-      if (!bookmark.url) continue;
-      
-      const status = await checkLinkStatus(bookmark.url);
-      
-      // 只记录明确失效的链接
-      if (status.isBroken) {
-        results.push({
+      const record = bookmark.url ? healthRecords.get(bookmark.url) : undefined;
+      if (!record) continue;
+      const check = { ...record.lastResult, bookmarkId: bookmark.id };
+      if (isBrokenLink(check) || record.flaky) {
+        broken.push({
           bookmark,
-          status: status.status,
-          statusText: status.statusText,
-          reason: status.reason
+          check,
+          category: getBrokenLinkCategory(record),
+          consecutiveFailures: record.consecutiveFailures
         });
+        continue;
+      }
+      const newUrl = getMovedDestination(check);
+      if (newUrl) {
+        moved.push({ bookmark, check, newUrl, crossDomain: isCrossDomainRedirect(check.url, newUrl) });
       }
     }
-    
-    setBrokenLinks(results);
-    setScanningBroken(false);
-  }, [allBookmarks]);
+    return { brokenLinks: broken, movedLinks: moved };
+  }, [allBookmarks, healthRecords]);
 
-  // 扫描重复书签
-  const scanDuplicates = useCallback(() => {
+  // 开始扫描：增量扫描跳过近期已检测过的链接
+  const scanBrokenLinks = useCallback((incremental: boolean) => {
+    setSelectedBrokenIds([]);
+    setBrokenFilter('all');
+    setCheckedCount(0);
+    const items = allBookmarks.filter(b => b.url).map(b => ({ id: b.id, url: b.url! }));
+    sendLinkCheckRequest({ type: 'start', items, incremental });
+  }, [allBookmarks, sendLinkCheckRequest]);
+
+  // 扫描重复与近似重复的书签
+  const scanDuplicates = useCallback(async () => {
     setScanningDuplicates(true);
     setError(null);
     setDuplicates([]);
-    setSelectedDuplicateUrls([]);
+    setSelectedDuplicateKeys([]);
     setKeepSelections(new Map());
     
-    // 按 URL 分组
-    const urlMap = new Map<string, BookmarkNode[]>();
-    
-    for (const bookmark of allBookmarks) {
-      if (!bookmark.url) continue;
+    try {
+      const clusters = await findDuplicateClusters(allBookmarks, {
+        nearDuplicates,
+        urlRules: settings.urlRules,
+        semanticSettings: semanticDuplicates ? settings : undefined
+      });
+      setDuplicates(clusters);
       
-      const normalizedUrl = normalizeUrl(bookmark.url);
-      if (!urlMap.has(normalizedUrl)) {
-        urlMap.set(normalizedUrl, []);
+      // 如果没有重复书签，显示提示
+      if (clusters.length === 0) {
+        setSuccess(t('clean.noDuplicates'));
+        setTimeout(() => setSuccess(null), 3000);
       }
-      urlMap.get(normalizedUrl)!.push(bookmark);
-    }
-    
-    // 找出重复的（数量 > 1 的）
-    const duplicateGroups: DuplicateGroup[] = [];
-    urlMap.forEach((bookmarks, url) => {
-      if (bookmarks.length > 1) {
-        duplicateGroups.push({ url, bookmarks });
-      }
-    });
-    
-    setDuplicates(duplicateGroups);
-    setScanningDuplicates(false);
-    
-    // 如果没有重复书签，显示提示
-    if (duplicateGroups.length === 0) {
-      setSuccess(t('clean.noDuplicates'));
-      setTimeout(() => setSuccess(null), 3000);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '扫描失败');
+    } finally {
+      setScanningDuplicates(false);
     }
-  }, [allBookmarks, t]);
+  }, [allBookmarks, nearDuplicates, semanticDuplicates, settings, t]);
 
-  // 标准化 URL（用于比较）
-  const normalizeUrl = (url: string): string => {
-    try {
-      const urlObj = new URL(url);
-      // 移除末尾的斜杠和 hash
-      return `${urlObj.origin}${urlObj.pathname}`.replace(/\/$/, '').toLowerCase();
-    } catch {
-      return url.toLowerCase();
-    }
-  };
+  // 按类别筛选后的失效链接
+  const visibleBrokenLinks = brokenFilter === 'all'
+    ? brokenLinks
+    : brokenLinks.filter(r => r.category === brokenFilter);
 
   // 获取书签所在文件夹名称
   const getFolderName = (bookmarkId: string): string => {
@@ -282,7 +246,6 @@ export const CleanMaster = () => {
       });
       
       setSuccess(`成功删除 ${selectedBrokenIds.length} 个失效链接`);
-      setBrokenLinks(prev => prev.filter(b => !selectedBrokenIds.includes(b.bookmark.id)));
       setSelectedBrokenIds([]);
       await refetch();
       
@@ -303,11 +266,11 @@ export const CleanMaster = () => {
     try {
       let deletedCount = 0;
       
-      for (const url of selectedDuplicateUrls) {
-        const group = duplicates.find(d => d.url === url);
+      for (const key of selectedDuplicateKeys) {
+        const group = duplicates.find(d => d.key === key);
         if (!group) continue;
         
-        const keepId = keepSelections.get(url);
+        const keepId = keepSelections.get(key);
         
         for (const bookmark of group.bookmarks) {
           // 跳过要保留的书签
@@ -326,8 +289,8 @@ export const CleanMaster = () => {
       });
       
       setSuccess(`成功删除 ${deletedCount} 个重复书签`);
-      setDuplicates(prev => prev.filter(d => !selectedDuplicateUrls.includes(d.url)));
-      setSelectedDuplicateUrls([]);
+      setDuplicates(prev => prev.filter(d => !selectedDuplicateKeys.includes(d.key)));
+      setSelectedDuplicateKeys([]);
       setKeepSelections(new Map());
       await refetch();
       
@@ -371,7 +334,7 @@ export const CleanMaster = () => {
       )}
 
       <Tabs defaultValue="broken" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="broken" className="flex items-center gap-2">
             <Link2 className="w-4 h-4" />
             {t('clean.brokenLinks')}
@@ -380,6 +343,10 @@ export const CleanMaster = () => {
             <Copy className="w-4 h-4" />
             {t('clean.duplicates')}
           </TabsTrigger>
+          <TabsTrigger value="zombies" className="flex items-center gap-2">
+            <Ghost className="w-4 h-4" />
+            {t('zombie.title')}
+          </TabsTrigger>
         </TabsList>
 
         {/* 失效链接 */}
@@ -396,19 +363,53 @@ export const CleanMaster = () => {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {brokenLinks.length === 0 ? (
+              {!scanJob && brokenLinks.length === 0 ? (
                 <div className="text-center py-8">
-                  <Button onClick={scanBrokenLinks} disabled={scanningBroken}>
-                    {scanningBroken ? (
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    ) : (
-                      <Search className="w-4 h-4 mr-2" />
-                    )}
-                    {scanningBroken ? '扫描中...' : t('clean.scan')}
+                  <Button onClick={() => scanBrokenLinks(false)}>
+                    <Search className="w-4 h-4 mr-2" />
+                    {t('clean.scan')}
                   </Button>
                 </div>
               ) : (
                 <div className="space-y-4">
+                  {/* 未完成的任务：页面或 Service Worker 重启后可继续 */}
+                  {scanJob && scanJob.status !== 'completed' && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm text-muted-foreground">
+                        <span className="flex items-center gap-2">
+                          {scanningBroken ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Pause className="w-4 h-4" />
+                          )}
+                          {t('clean.checkingLinks', { checked: checkedCount, total: scanJob.items.length })}
+                        </span>
+                        {scanningBroken ? (
+                          <Button variant="outline" size="sm" onClick={() => sendLinkCheckRequest({ type: 'pause' })}>
+                            <Pause className="w-4 h-4 mr-1" />
+                            {t('clean.pauseScan')}
+                          </Button>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => sendLinkCheckRequest({ type: 'resume' })}>
+                            <Play className="w-4 h-4 mr-1" />
+                            {t('clean.resumeScan')}
+                          </Button>
+                        )}
+                      </div>
+                      <Progress value={scanJob.items.length ? (checkedCount / scanJob.items.length) * 100 : 0} />
+                    </div>
+                  )}
+
+                  {scanJob?.status === 'completed' && (
+                    <div className="text-xs text-muted-foreground">
+                      {t('clean.lastScan', {
+                        time: new Date(scanJob.updatedAt).toLocaleString(),
+                        checked: scanJob.items.length,
+                        skipped: scanJob.skipped
+                      })}
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between">
                     <div className="text-sm">
                       发现 <span className="font-semibold">{brokenLinks.length}</span> 个失效链接
@@ -417,11 +418,21 @@ export const CleanMaster = () => {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={scanBrokenLinks}
+                        onClick={() => scanBrokenLinks(true)}
                         disabled={scanningBroken}
+                        title={t('clean.scanIncrementalHint')}
                       >
                         <RefreshCw className="w-4 h-4 mr-1" />
-                        {t('clean.rescan')}
+                        {t('clean.scanIncremental')}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => scanBrokenLinks(false)}
+                        disabled={scanningBroken}
+                      >
+                        <Search className="w-4 h-4 mr-1" />
+                        {t('clean.scanFull')}
                       </Button>
                       <Button
                         variant="destructive"
@@ -434,9 +445,31 @@ export const CleanMaster = () => {
                       </Button>
                     </div>
                   </div>
+
+                  {brokenLinks.length === 0 && scanJob?.status === 'completed' && (
+                    <div className="text-sm text-muted-foreground text-center py-4">{t('clean.noBrokenLinks')}</div>
+                  )}
                   
-                  <div className="border rounded-lg divide-y">
-                    {brokenLinks.map((result) => (
+                  {/* 类别筛选：无法访问 / 软 404 / 停放域名 */}
+                  {brokenLinks.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {(['all', ...BROKEN_CATEGORIES] as const).map((category) => (
+                        <Button
+                          key={category}
+                          variant={brokenFilter === category ? 'secondary' : 'ghost'}
+                          size="sm"
+                          className="h-7"
+                          onClick={() => setBrokenFilter(category)}
+                        >
+                          {t(`clean.category.${category}`)} (
+                          {category === 'all' ? brokenLinks.length : brokenLinks.filter(r => r.category === category).length})
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className={`border rounded-lg divide-y ${visibleBrokenLinks.length === 0 ? 'hidden' : ''}`}>
+                    {visibleBrokenLinks.map((result) => (
                       <div
                         key={result.bookmark.id}
                         className="flex items-center gap-3 p-3 hover:bg-muted/50"
@@ -459,16 +492,47 @@ export const CleanMaster = () => {
                             {result.bookmark.url}
                           </div>
                           <div className="flex items-center gap-2 mt-1">
-                            <Badge variant="destructive" className="text-xs">
-                              {result.statusText}
+                            <Badge
+                              variant={result.category === 'unreachable' ? 'destructive' : 'secondary'}
+                              className="text-xs"
+                            >
+                              {t(`clean.link.${result.check.kind}`)}
+                              {result.check.status > 0 && ` · ${result.check.status}`}
                             </Badge>
-                            <span className="text-xs text-muted-foreground">
-                              {result.reason}
-                            </span>
+                            {result.category === 'flaky' && (
+                              <Badge variant="outline" className="text-xs text-amber-600 border-amber-300">
+                                {t('clean.category.flaky')}
+                              </Badge>
+                            )}
+                            {result.consecutiveFailures > 1 && (
+                              <span className="text-xs text-muted-foreground flex-shrink-0">
+                                {t('clean.consecutiveFailures', { count: result.consecutiveFailures })}
+                              </span>
+                            )}
+                            {result.check.error && (
+                              <span className="text-xs text-muted-foreground truncate" title={result.check.error}>
+                                {result.check.error}
+                              </span>
+                            )}
+                            {result.check.finalUrl && (
+                              <span className="text-xs text-muted-foreground truncate" title={result.check.redirects.map(r => r.url).join(' → ')}>
+                                → {result.check.finalUrl}
+                              </span>
+                            )}
                             <span className="text-xs text-muted-foreground">
                               位于: {getFolderName(result.bookmark.id)}
                             </span>
                           </div>
+                          {/* 软 404 与停放域名的判断依据 */}
+                          {result.check.evidence && result.check.evidence.length > 0 && (
+                            <ul className="mt-1 space-y-0.5">
+                              {result.check.evidence.map((evidence, i) => (
+                                <li key={i} className="text-xs text-muted-foreground truncate" title={evidence.detail}>
+                                  {t(`clean.evidence.${evidence.kind}`)}: {evidence.detail}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
                         <a
                           href={result.bookmark.url}
@@ -485,6 +549,11 @@ export const CleanMaster = () => {
               )}
             </CardContent>
           </Card>
+
+          <MovedLinks
+            links={movedLinks}
+            onUpdated={refetch}
+          />
         </TabsContent>
 
         {/* 重复书签 */}
@@ -500,6 +569,38 @@ export const CleanMaster = () => {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {/* 扫描选项 */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="nearDuplicates">{t('clean.nearDuplicates')}</Label>
+                    <p className="text-xs text-muted-foreground">{t('clean.nearDuplicatesHint')}</p>
+                  </div>
+                  <Switch
+                    id="nearDuplicates"
+                    checked={nearDuplicates}
+                    onCheckedChange={setNearDuplicates}
+                    disabled={scanningDuplicates}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="semanticDuplicates">{t('clean.semanticDuplicates')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {isEmbeddingAvailable(settings)
+                        ? t('clean.semanticDuplicatesHint')
+                        : t('clean.semanticUnavailable')}
+                    </p>
+                  </div>
+                  <Switch
+                    id="semanticDuplicates"
+                    checked={semanticDuplicates && isEmbeddingAvailable(settings)}
+                    onCheckedChange={setSemanticDuplicates}
+                    disabled={scanningDuplicates || !isEmbeddingAvailable(settings)}
+                  />
+                </div>
+              </div>
+              
               {duplicates.length === 0 ? (
                 <div className="text-center py-8">
                   <Button onClick={scanDuplicates} disabled={scanningDuplicates}>
@@ -530,11 +631,11 @@ export const CleanMaster = () => {
                       <Button
                         variant="destructive"
                         size="sm"
-                        disabled={selectedDuplicateUrls.length === 0}
+                        disabled={selectedDuplicateKeys.length === 0}
                         onClick={() => openDeleteDialog('duplicates')}
                       >
                         <Trash2 className="w-4 h-4 mr-1" />
-                        {t('clean.deleteSelected')} ({selectedDuplicateUrls.length})
+                        {t('clean.deleteSelected')} ({selectedDuplicateKeys.length})
                       </Button>
                     </div>
                   </div>
@@ -542,24 +643,24 @@ export const CleanMaster = () => {
                   <div className="space-y-3">
                     {duplicates.map((group) => (
                       <div
-                        key={group.url}
+                        key={group.key}
                         className="border rounded-lg p-4"
                       >
                         <div className="flex items-center gap-3 mb-3">
                           <Checkbox
-                            checked={selectedDuplicateUrls.includes(group.url)}
+                            checked={selectedDuplicateKeys.includes(group.key)}
                             onCheckedChange={(checked) => {
                               if (checked) {
-                                setSelectedDuplicateUrls(prev => [...prev, group.url]);
+                                setSelectedDuplicateKeys(prev => [...prev, group.key]);
                                 // 默认保留第一个
-                                if (!keepSelections.has(group.url)) {
-                                  setKeepSelections(prev => new Map(prev).set(group.url, group.bookmarks[0].id));
+                                if (!keepSelections.has(group.key)) {
+                                  setKeepSelections(prev => new Map(prev).set(group.key, group.bookmarks[0].id));
                                 }
                               } else {
-                                setSelectedDuplicateUrls(prev => prev.filter(url => url !== group.url));
+                                setSelectedDuplicateKeys(prev => prev.filter(key => key !== group.key));
                                 setKeepSelections(prev => {
                                   const next = new Map(prev);
-                                  next.delete(group.url);
+                                  next.delete(group.key);
                                   return next;
                                 });
                               }
@@ -570,31 +671,42 @@ export const CleanMaster = () => {
                               {group.bookmarks[0].title}
                             </div>
                             <div className="text-xs text-muted-foreground truncate">
-                              {group.url}
+                              {group.bookmarks[0].url}
                             </div>
                           </div>
+                          {group.kind !== 'url' && (
+                            <Badge variant="outline" className="text-xs">
+                              {t(`clean.match.${group.kind}`)} · {t('clean.similarity', { percent: Math.round(group.similarity * 100) })}
+                            </Badge>
+                          )}
                           <Badge className="text-xs">
                             {group.bookmarks.length} 个重复
                           </Badge>
                         </div>
                         
-                        {selectedDuplicateUrls.includes(group.url) && (
+                        {selectedDuplicateKeys.includes(group.key) && (
                           <div className="pl-7 space-y-2">
                             <div className="text-sm text-muted-foreground mb-2">
                               {t('clean.selectKeep')}：
                             </div>
                             <RadioGroup
-                              value={keepSelections.get(group.url) || ''}
+                              value={keepSelections.get(group.key) || ''}
                               onValueChange={(value) => {
-                                setKeepSelections(prev => new Map(prev).set(group.url, value));
+                                setKeepSelections(prev => new Map(prev).set(group.key, value));
                               }}
                             >
                               {group.bookmarks.map((bookmark) => (
-                                <div key={bookmark.id} className="flex items-center gap-2">
+                                <div key={bookmark.id} className="flex items-center gap-2 min-w-0">
                                   <RadioGroupItem value={bookmark.id} id={bookmark.id} />
-                                  <label htmlFor={bookmark.id} className="text-sm flex items-center gap-2">
-                                    <Folder className="w-3 h-3 text-muted-foreground" />
-                                    {getFolderName(bookmark.id)}
+                                  <label htmlFor={bookmark.id} className="text-sm flex items-center gap-2 min-w-0">
+                                    <Folder className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                                    <span className="flex-shrink-0">{getFolderName(bookmark.id)}</span>
+                                    {/* 近似重复的书签标题和地址可能不同 */}
+                                    {group.kind !== 'url' || bookmark.url !== group.bookmarks[0].url ? (
+                                      <span className="text-xs text-muted-foreground truncate" title={bookmark.url}>
+                                        {bookmark.title} · {bookmark.url}
+                                      </span>
+                                    ) : null}
                                   </label>
                                 </div>
                               ))}
@@ -608,6 +720,13 @@ export const CleanMaster = () => {
               )}
             </CardContent>
           </Card>
+
+          <UrlCleaner bookmarks={allBookmarks} onCleaned={refetch} />
+        </TabsContent>
+
+        {/* 僵尸书签 */}
+        <TabsContent value="zombies" className="space-y-4">
+          <ZombieBookmarks tree={tree} onChanged={refetch} />
         </TabsContent>
       </Tabs>
 
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { getAllCorrections, deleteCorrection, clearCorrections } from '@/services/storageService';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { CorrectionRecord } from '@/types';
+import { GraduationCap, Loader2, Trash2, ArrowRight } from 'lucide-react';
+
+// 已学习的纠正示例：查看、逐条删除、全部清空
+export const CorrectionsManager = () => {
+  const [corrections, setCorrections] = useState<CorrectionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [clearing, setClearing] = useState(false);
+  const { t } = useLanguage();
+
+  // 加载纠正记录
+  const loadCorrections = async () => {
+    setLoading(true);
+    try {
+      setCorrections(await getAllCorrections());
+    } catch (e) {
+      console.error('加载纠正记录失败:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCorrections();
+  }, []);
+
+  const handleDelete = async (url: string) => {
+    try {
+      await deleteCorrection(url);
+      setCorrections(prev => prev.filter(c => c.url !== url));
+    } catch (e) {
+      console.error('删除纠正记录失败:', e);
+    }
+  };
+
+  const handleClear = async () => {
+    setClearing(true);
+    try {
+      await clearCorrections();
+      setCorrections([]);
+    } catch (e) {
+      console.error('清空纠正记录失败:', e);
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <GraduationCap className="w-5 h-5" />
+              {t('corrections.title')}
+            </CardTitle>
+            <CardDescription>
+              {t('corrections.description')}
+            </CardDescription>
+          </div>
+          {corrections.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={clearing}>
+              {clearing ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4 mr-2" />
+              )}
+              {t('corrections.clearAll')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : corrections.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            {t('corrections.empty')}
+          </div>
+        ) : (
+          <div className="border rounded-lg max-h-[320px] overflow-auto divide-y">
+            {corrections.map((correction) => (
+              <div key={correction.url} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="truncate" title={correction.url}>
+                    {correction.title || correction.url}
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground min-w-0">
+                    <span className="truncate line-through">{correction.suggestedFolder}</span>
+                    <ArrowRight className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate text-foreground">{correction.chosenFolder}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {correction.domain} · {new Date(correction.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0 text-destructive"
+                  onClick={() => handleDelete(correction.url)}
+                  title={t('corrections.delete')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CorrectionsManager;
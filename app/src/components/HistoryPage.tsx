@@ -5,6 +5,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { getAllSnapshots, deleteSnapshot, restoreSnapshot, addOperationLog } from '@/services/storageService';
+import { suspendAutoOrganize, resumeAutoOrganize } from '@/services/autoOrganize';
 import { getAllLogs } from '@/services/storageService';
 import { useLanguage } from '@/hooks/useLanguage';
 import type { BookmarkSnapshot, OperationLog } from '@/types';
@@ -115,8 +116,13 @@ export const HistoryPage = () => {
     setSuccess(null);
     
     try {
-      // 执行真正的回滚
-      await restoreSnapshot(selectedSnapshot.id);
+      // 执行真正的回滚（回滚会重新创建书签，期间暂停新书签自动整理）
+      await suspendAutoOrganize();
+      try {
+        await restoreSnapshot(selectedSnapshot.id);
+      } finally {
+        await resumeAutoOrganize();
+      }
       
       // 记录回滚操作
       await addOperationLog({
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useLanguage } from '@/hooks/useLanguage';
+import { addOperationLog, createSnapshot } from '@/services/storageService';
+import type { MovedLinkResult } from '@/types';
+import { AlertTriangle, ArrowRight, ExternalLink, Loader2, MoveRight } from 'lucide-react';
+
+interface MovedLinksProps {
+  links: MovedLinkResult[];
+  // 更新完成后回调已更新的书签 ID
+  onUpdated: (bookmarkIds: string[]) => Promise<void> | void;
+}
+
+// 已永久迁移的书签：把书签地址改为重定向后的新地址（修改前创建快照，可在历史记录中回滚）
+export const MovedLinks = ({ links, onUpdated }: MovedLinksProps) => {
+  const { t } = useLanguage();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [updating, setUpdating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 新出现的同域名迁移默认选中，跨域名的需要人工确认
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const known = new Set(prev);
+      const added = links.filter(l => !l.crossDomain && !known.has(l.bookmark.id)).map(l => l.bookmark.id);
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, [links]);
+
+  const selected = links.filter(l => selectedIds.includes(l.bookmark.id));
+
+  const handleUpdate = async () => {
+    if (selected.length === 0) return;
+    setUpdating(true);
+    setMessage(null);
+
+    try {
+      const tree = await chrome.bookmarks.getTree();
+      const snapshot = await createSnapshot(tree, `更新已迁移书签前 - ${selected.length} 个书签`);
+
+      const updatedIds: string[] = [];
+      for (const link of selected) {
+        try {
+          await chrome.bookmarks.update(link.bookmark.id, { url: link.newUrl });
+          updatedIds.push(link.bookmark.id);
+        } catch (e) {
+          console.error('更新书签网址失败:', e);
+        }
+      }
+
+      await addOperationLog({
+        type: 'clean',
+        affectedCount: updatedIds.length,
+        description: `清理大师 - 更新了 ${updatedIds.length} 个已迁移书签的网址`,
+        snapshotId: snapshot.id
+      });
+
+      setMessage(t('moved.updated', { count: updatedIds.length }));
+      setSelectedIds(prev => prev.filter(id => !updatedIds.includes(id)));
+      await onUpdated(updatedIds);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '更新失败');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (links.length === 0 && !message) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MoveRight className="w-5 h-5" />
+          {t('moved.title')}
+        </CardTitle>
+        <CardDescription>{t('moved.desc')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && <div className="text-sm text-muted-foreground">{message}</div>}
+
+        {links.length > 0 && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="text-sm">{t('moved.count', { count: links.length })}</div>
+              <Button size="sm" onClick={handleUpdate} disabled={updating || selected.length === 0}>
+                {updating ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <MoveRight className="w-4 h-4 mr-1" />
+                )}
+                {t('moved.updateSelected')} ({selected.length})
+              </Button>
+            </div>
+
+            <div className="border rounded-lg divide-y max-h-[360px] overflow-auto">
+              {links.map((link) => (
+                <div key={link.bookmark.id} className="flex items-start gap-3 p-3 hover:bg-muted/50">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selectedIds.includes(link.bookmark.id)}
+                    onCheckedChange={(checked) => {
+                      setSelectedIds(prev => checked
+                        ? [...prev, link.bookmark.id]
+                        : prev.filter(id => id !== link.bookmark.id));
+                    }}
+                  />
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-sm font-medium truncate">{link.bookmark.title}</span>
+                      {link.crossDomain && (
+                        <Badge variant="outline" className="text-xs flex-shrink-0 text-amber-600 border-amber-300">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {t('moved.crossDomain')}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate" title={link.bookmark.url}>
+                      {link.bookmark.url}
+                    </div>
+                    <div
+                      className="flex items-center gap-1 text-xs min-w-0"
+                      title={link.check.redirects.map(r => `${r.status || '?'} ${r.url}`).join('\n')}
+                    >
+                      <ArrowRight className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                      <span className="truncate">{link.newUrl}</span>
+                    </div>
+                  </div>
+                  <a
+                    href={link.newUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MovedLinks;
@@ -0,0 +1,313 @@
+import { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { findFolderByPath } from '@/hooks/useBookmarks';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { FolderPath, OrganizeResult } from '@/types';
+import { AlertTriangle, ChevronDown, ChevronRight, Folder, FolderPlus, Pencil } from 'lucide-react';
+
+interface OrganizePreviewListProps {
+  results: OrganizeResult[];
+  onResultsChange: (results: OrganizeResult[]) => void;
+  existingFolders: FolderPath[];
+  // 批量接受的默认置信度阈值（0-1）
+  defaultThreshold: number;
+}
+
+// 按目标文件夹分组后的结果（低置信度的结果单独放在待复核分组）
+interface PreviewGroup {
+  key: string;
+  folder: string;
+  isNewCategory: boolean;
+  review: boolean;
+  items: OrganizeResult[];
+}
+
+const REVIEW_GROUP_KEY = '__review__';
+
+// 结果是否属于指定分组
+const isInGroup = (result: OrganizeResult, group: PreviewGroup): boolean => {
+  if (group.review) return result.needsReview;
+  return !result.needsReview && result.suggestedFolder === group.folder;
+};
+
+interface GroupHeaderProps {
+  group: PreviewGroup;
+  expanded: boolean;
+  onToggleExpand: () => void;
+  onToggleAccept: (accepted: boolean) => void;
+  onRename: (name: string) => void;
+}
+
+const GroupHeader = ({ group, expanded, onToggleExpand, onToggleAccept, onRename }: GroupHeaderProps) => {
+  const { t } = useLanguage();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(group.folder);
+
+  const acceptedCount = group.items.filter(r => r.accepted).length;
+  const allAccepted = acceptedCount === group.items.length;
+
+  // 提交重命名（未修改或为空时取消）
+  const commitRename = () => {
+    setEditing(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== group.folder) {
+      onRename(trimmed);
+    } else {
+      setName(group.folder);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 bg-muted">
+      <button
+        onClick={onToggleExpand}
+        className="w-4 h-4 flex items-center justify-center text-muted-foreground hover:text-foreground"
+      >
+        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+      <Checkbox
+        checked={allAccepted ? true : acceptedCount > 0 ? 'indeterminate' : false}
+        onCheckedChange={() => onToggleAccept(!allAccepted)}
+      />
+      {group.review ? (
+        <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+      ) : group.isNewCategory ? (
+        <FolderPlus className="w-4 h-4 text-amber-500 flex-shrink-0" />
+      ) : (
+        <Folder className="w-4 h-4 text-green-500 flex-shrink-0" />
+      )}
+
+      {editing ? (
+        <Input
+          value={name}
+          autoFocus
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') {
+              setName(group.folder);
+              setEditing(false);
+            }
+          }}
+          className="h-7 text-sm"
+        />
+      ) : (
+        <span className="text-sm font-medium truncate" title={group.folder}>
+          {group.review ? t('batch.needsReview') : group.folder}
+        </span>
+      )}
+
+      {group.review && (
+        <span className="text-xs text-muted-foreground truncate">{t('batch.needsReviewHint')}</span>
+      )}
+
+      {group.isNewCategory && !group.review && !editing && (
+        <>
+          <Badge variant="outline" className="text-xs text-amber-600 border-amber-300">
+            {t('popup.newFolder')}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setEditing(true)}
+            title={t('batch.renameFolder')}
+          >
+            <Pencil className="w-3 h-3" />
+          </Button>
+        </>
+      )}
+
+      <span className="text-xs text-muted-foreground ml-auto whitespace-nowrap">
+        {acceptedCount} / {group.items.length}
+      </span>
+    </div>
+  );
+};
+
+// 批量整理预览：按目标文件夹分组，支持逐条确认、修改目标文件夹、批量操作和重命名新文件夹
+export const OrganizePreviewList = ({
+  results,
+  onResultsChange,
+  existingFolders,
+  defaultThreshold
+}: OrganizePreviewListProps) => {
+  const { t } = useLanguage();
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+  // 批量接受的置信度阈值（百分比）
+  const [threshold, setThreshold] = useState(Math.round(defaultThreshold * 100));
+
+  const classified = useMemo(() => results.filter(r => !r.unclassified), [results]);
+
+  // 待复核分组在最前，其余按目标文件夹分组，新文件夹排在前面
+  const groups = useMemo(() => {
+    const map = new Map<string, PreviewGroup>();
+    for (const result of classified) {
+      const key = result.needsReview ? REVIEW_GROUP_KEY : result.suggestedFolder;
+      const group = map.get(key) ?? {
+        key,
+        folder: result.needsReview ? '' : result.suggestedFolder,
+        isNewCategory: !result.needsReview && result.isNewCategory,
+        review: result.needsReview,
+        items: []
+      };
+      group.items.push(result);
+      map.set(key, group);
+    }
+    return [...map.values()].sort((a, b) =>
+      Number(b.review) - Number(a.review)
+      || Number(b.isNewCategory) - Number(a.isNewCategory)
+      || a.folder.localeCompare(b.folder)
+    );
+  }, [classified]);
+
+  // 目标文件夹可选项：现有文件夹 + 本次建议的新文件夹
+  const folderOptions = useMemo(() => {
+    const paths = existingFolders.map(f => f.path);
+    const newPaths = classified.filter(r => r.isNewCategory).map(r => r.suggestedFolder);
+    return [...new Set([...newPaths, ...paths])];
+  }, [existingFolders, classified]);
+
+  // 按条件更新结果（未分类的结果不受影响）
+  const updateResults = (match: (r: OrganizeResult) => boolean, update: (r: OrganizeResult) => OrganizeResult) => {
+    onResultsChange(results.map(r => (!r.unclassified && match(r) ? update(r) : r)));
+  };
+
+  // 修改目标文件夹：是否为新文件夹以路径是否存在为准
+  const withFolder = (r: OrganizeResult, folder: string): OrganizeResult => {
+    const existing = findFolderByPath(existingFolders, folder);
+    return {
+      ...r,
+      suggestedFolder: existing?.path ?? folder,
+      isNewCategory: !existing
+    };
+  };
+
+  const handleToggleCollapse = (key: string) => {
+    setCollapsedFolders(prev =>
+      prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]
+    );
+  };
+
+  const acceptedCount = classified.filter(r => r.accepted).length;
+
+  if (classified.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {/* 批量操作 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => updateResults(() => true, r => ({ ...r, accepted: true }))}>
+          {t('batch.acceptAll')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => updateResults(() => true, r => ({ ...r, accepted: false }))}>
+          {t('batch.rejectAll')}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateResults(r => r.isNewCategory, r => ({ ...r, accepted: false }))}
+        >
+          {t('batch.rejectNewFolders')}
+        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateResults(() => true, r => ({
+              ...r,
+              accepted: r.confidence !== undefined && r.confidence * 100 >= threshold
+            }))}
+          >
+            {t('batch.acceptAbove')}
+          </Button>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+            className="h-8 w-16 text-sm"
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+        </div>
+        <span className="text-sm text-muted-foreground ml-auto">
+          {t('batch.acceptedCount', { accepted: acceptedCount, total: classified.length })}
+        </span>
+      </div>
+
+      {/* 分组列表 */}
+      <div className="border rounded-lg max-h-[420px] overflow-auto divide-y">
+        {groups.map((group) => (
+          <div key={group.key}>
+            <GroupHeader
+              group={group}
+              expanded={!collapsedFolders.includes(group.key)}
+              onToggleExpand={() => handleToggleCollapse(group.key)}
+              onToggleAccept={(accepted) => updateResults(
+                r => isInGroup(r, group),
+                r => ({ ...r, accepted })
+              )}
+              onRename={(name) => updateResults(
+                r => isInGroup(r, group),
+                r => withFolder(r, name)
+              )}
+            />
+            {!collapsedFolders.includes(group.key) && group.items.map((result) => {
+              const unchanged = result.originalFolder === result.suggestedFolder;
+              return (
+                <div
+                  key={result.bookmarkId}
+                  className={`flex items-center gap-2 px-3 py-1.5 pl-9 text-sm ${result.accepted ? '' : 'opacity-50'}`}
+                >
+                  <Checkbox
+                    checked={result.accepted}
+                    onCheckedChange={() => updateResults(
+                      r => r.bookmarkId === result.bookmarkId,
+                      r => ({ ...r, accepted: !r.accepted })
+                    )}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate" title={result.url}>{result.title || result.url}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {unchanged ? t('batch.unchanged') : `${t('batch.from')} ${result.originalFolder}`}
+                      {result.confidence !== undefined && ` · ${Math.round(result.confidence * 100)}%`}
+                    </div>
+                    {result.reason && (
+                      <div className="text-xs text-muted-foreground truncate" title={result.reason}>
+                        {result.reason}
+                      </div>
+                    )}
+                  </div>
+                  <Select
+                    value={result.suggestedFolder}
+                    onValueChange={(folder) => updateResults(
+                      r => r.bookmarkId === result.bookmarkId,
+                      r => ({ ...withFolder(r, folder), accepted: true })
+                    )}
+                  >
+                    <SelectTrigger size="sm" className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {folderOptions.map((folder) => (
+                        <SelectItem key={folder} value={folder}>{folder}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OrganizePreviewList;
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  getPendingSuggestions,
+  removePendingSuggestion,
+  clearPendingSuggestions,
+  onPendingSuggestionsChanged,
+  moveBookmarkToPath
+} from '@/services/autoOrganize';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { PendingSuggestion } from '@/types';
+import { ArrowRight, Check, FolderPlus, Inbox, Loader2, X } from 'lucide-react';
+
+// 弹窗中的新书签分类建议：逐条或全部接受、忽略
+export const PendingSuggestions = () => {
+  const [suggestions, setSuggestions] = useState<PendingSuggestion[]>([]);
+  const [applyingIds, setApplyingIds] = useState<string[]>([]);
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    getPendingSuggestions().then(setSuggestions);
+    return onPendingSuggestionsChanged(setSuggestions);
+  }, []);
+
+  // 接受建议：移动书签并添加标签（书签已被删除时直接移除建议）
+  const handleAccept = async (suggestion: PendingSuggestion) => {
+    setApplyingIds(prev => [...prev, suggestion.bookmarkId]);
+    try {
+      await moveBookmarkToPath(suggestion.bookmarkId, suggestion.suggestedFolder, suggestion.tags);
+    } catch (e) {
+      console.error('应用分类建议失败:', e);
+    } finally {
+      await removePendingSuggestion(suggestion.bookmarkId);
+      setApplyingIds(prev => prev.filter(id => id !== suggestion.bookmarkId));
+    }
+  };
+
+  const handleAcceptAll = async () => {
+    for (const suggestion of suggestions) {
+      await handleAccept(suggestion);
+    }
+  };
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center gap-2 px-3 py-2 bg-muted">
+        <Inbox className="w-4 h-4 text-primary" />
+        <span className="text-sm font-medium">
+          {t('pending.title', { count: suggestions.length })}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 ml-auto"
+          onClick={handleAcceptAll}
+          disabled={applyingIds.length > 0}
+        >
+          {t('pending.acceptAll')}
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7" onClick={() => clearPendingSuggestions()}>
+          {t('pending.dismissAll')}
+        </Button>
+      </div>
+      <div className="max-h-[200px] overflow-auto divide-y">
+        {suggestions.map((suggestion) => {
+          const applying = applyingIds.includes(suggestion.bookmarkId);
+          return (
+            <div key={suggestion.bookmarkId} className="flex items-center gap-2 px-3 py-2 text-sm">
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <div className="truncate" title={suggestion.url}>{suggestion.title || suggestion.url}</div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground min-w-0">
+                  <span className="truncate">{suggestion.currentFolder}</span>
+                  <ArrowRight className="w-3 h-3 flex-shrink-0" />
+                  {suggestion.isNewCategory && <FolderPlus className="w-3 h-3 flex-shrink-0 text-amber-500" />}
+                  <span className="truncate text-foreground" title={suggestion.reason}>
+                    {suggestion.suggestedFolder}
+                  </span>
+                </div>
+                {suggestion.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {suggestion.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 flex-shrink-0 text-green-600"
+                onClick={() => handleAccept(suggestion)}
+                disabled={applying}
+                title={t('pending.accept')}
+              >
+                {applying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 flex-shrink-0"
+                onClick={() => removePendingSuggestion(suggestion.bookmarkId)}
+                disabled={applying}
+                title={t('pending.dismiss')}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PendingSuggestions;
@@ -0,0 +1,381 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBookmarkTree, getFolderPaths, flattenBookmarks } from '@/hooks/useBookmarks';
+import { useLanguage } from '@/hooks/useLanguage';
+import {
+  RULE_MATCH_TYPES,
+  createRule,
+  getRules,
+  saveRules,
+  matchesRule,
+  findMatchingRule,
+  isRulePatternValid,
+  exportRules,
+  parseRulesImport
+} from '@/services/rules';
+import type { BookmarkNode, BookmarkRule } from '@/types';
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  Download,
+  FlaskConical,
+  ListFilter,
+  Loader2,
+  Plus,
+  Trash2,
+  Upload
+} from 'lucide-react';
+
+// 测试预览最多显示的书签数
+const TEST_PREVIEW_LIMIT = 10;
+
+// 规则测试结果
+interface RuleTestResult {
+  ruleId: string;
+  matches: BookmarkNode[];
+  // 其中被排在前面的规则先匹配的书签数
+  shadowed: number;
+}
+
+interface RuleRowProps {
+  rule: BookmarkRule;
+  index: number;
+  total: number;
+  folderListId: string;
+  testResult: RuleTestResult | null;
+  onChange: (rule: BookmarkRule) => void;
+  onMove: (offset: number) => void;
+  onDelete: () => void;
+  onTest: () => void;
+}
+
+const RuleRow = ({
+  rule,
+  index,
+  total,
+  folderListId,
+  testResult,
+  onChange,
+  onMove,
+  onDelete,
+  onTest
+}: RuleRowProps) => {
+  const { t } = useLanguage();
+  // 标签输入框失焦时再拆分，避免输入逗号时被立即吞掉
+  const [tagsText, setTagsText] = useState(rule.tags.join(', '));
+  const patternInvalid = rule.pattern.trim() !== '' && !isRulePatternValid(rule);
+
+  const commitTags = () => {
+    const tags = [...new Set(tagsText.split(/[,，]/).map(tag => tag.trim()).filter(Boolean))];
+    onChange({ ...rule, tags });
+    setTagsText(tags.join(', '));
+  };
+
+  return (
+    <div className={`border rounded-lg p-3 space-y-2 ${rule.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground w-6 text-center">{index + 1}</span>
+        <Switch
+          checked={rule.enabled}
+          onCheckedChange={(enabled) => onChange({ ...rule, enabled })}
+        />
+        <Input
+          value={rule.name}
+          onChange={(e) => onChange({ ...rule, name: e.target.value })}
+          placeholder={t('rules.name')}
+          className="h-8 text-sm"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0"
+          onClick={() => onMove(-1)}
+          disabled={index === 0}
+          title={t('rules.moveUp')}
+        >
+          <ArrowUp className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0"
+          onClick={() => onMove(1)}
+          disabled={index === total - 1}
+          title={t('rules.moveDown')}
+        >
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0"
+          onClick={onTest}
+          disabled={!isRulePatternValid(rule)}
+          title={t('rules.test')}
+        >
+          <FlaskConical className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0 text-destructive"
+          onClick={onDelete}
+          title={t('rules.delete')}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[160px_1fr] gap-2 pl-8">
+        <Select
+          value={rule.matchType}
+          onValueChange={(matchType) => onChange({ ...rule, matchType: matchType as BookmarkRule['matchType'] })}
+        >
+          <SelectTrigger size="sm" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_MATCH_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{t(`rules.match.${type}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={rule.pattern}
+          onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+          placeholder={t(`rules.placeholder.${rule.matchType}`)}
+          aria-invalid={patternInvalid}
+          className={`h-8 text-sm font-mono ${patternInvalid ? 'border-destructive' : ''}`}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 pl-8">
+        <Input
+          value={rule.targetFolder}
+          onChange={(e) => onChange({ ...rule, targetFolder: e.target.value })}
+          placeholder={t('rules.targetFolder')}
+          list={folderListId}
+          aria-invalid={!rule.targetFolder.trim()}
+          className="h-8 text-sm"
+        />
+        <Input
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+          onBlur={commitTags}
+          placeholder={t('rules.tags')}
+          className="h-8 text-sm"
+        />
+      </div>
+
+      {/* 测试结果 */}
+      {testResult && (
+        <div className="pl-8 space-y-1 text-xs text-muted-foreground">
+          <div>
+            {t('rules.testResult', { count: testResult.matches.length })}
+            {testResult.shadowed > 0 && ` ${t('rules.testShadowed', { count: testResult.shadowed })}`}
+          </div>
+          {testResult.matches.slice(0, TEST_PREVIEW_LIMIT).map((bookmark) => (
+            <div key={bookmark.id} className="truncate" title={bookmark.url}>
+              · {bookmark.title || bookmark.url}
+            </div>
+          ))}
+          {testResult.matches.length > TEST_PREVIEW_LIMIT && (
+            <div>{t('rules.testMore', { count: testResult.matches.length - TEST_PREVIEW_LIMIT })}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 分类规则编辑器：规则按顺序匹配，命中的书签不再调用 AI
+export const RulesEditor = () => {
+  const { tree } = useBookmarkTree();
+  const { t } = useLanguage();
+  const [rules, setRules] = useState<BookmarkRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const folderPaths = useMemo(() => getFolderPaths(tree).map(f => f.path), [tree]);
+  const allBookmarks = useMemo(() => flattenBookmarks(tree), [tree]);
+
+  useEffect(() => {
+    getRules()
+      .then(setRules)
+      .finally(() => setLoading(false));
+  }, []);
+
+  // 修改规则后清除过期的测试结果
+  const updateRules = (next: BookmarkRule[]) => {
+    setRules(next);
+    setTestResult(null);
+    setSaveSuccess(false);
+  };
+
+  const handleChange = (index: number, rule: BookmarkRule) => {
+    updateRules(rules.map((r, i) => (i === index ? rule : r)));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateRules(next);
+  };
+
+  const handleDelete = (index: number) => {
+    updateRules(rules.filter((_, i) => i !== index));
+  };
+
+  // 用当前（未保存的）规则列表测试，统计被前面规则抢先匹配的书签
+  const handleTest = (rule: BookmarkRule) => {
+    const matches = allBookmarks.filter(b => matchesRule(rule, { url: b.url || '', title: b.title }));
+    const shadowed = matches.filter(b => {
+      const first = findMatchingRule(rules, { url: b.url || '', title: b.title });
+      return first !== null && first.id !== rule.id;
+    }).length;
+    setTestResult({ ruleId: rule.id, matches, shadowed });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await saveRules(rules);
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 2000);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '保存规则失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 导出为 JSON 文件
+  const handleExport = () => {
+    const blob = new Blob([exportRules(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'bookmark-rules.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // 导入的规则追加到列表末尾，保存后生效
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseRulesImport(await file.text());
+      updateRules([...rules, ...imported]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '导入规则失败');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListFilter className="w-5 h-5" />
+          {t('rules.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('rules.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => updateRules([...rules, createRule()])}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t('rules.add')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            {t('rules.import')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={rules.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            {t('rules.export')}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button size="sm" className="ml-auto" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {saveSuccess ? <Check className="w-4 h-4 mr-2" /> : null}
+            {saveSuccess ? t('btn.saved') : t('btn.save')}
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <datalist id="rule-folder-paths">
+          {folderPaths.map((path) => (
+            <option key={path} value={path} />
+          ))}
+        </datalist>
+
+        {rules.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            {t('rules.empty')}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+                index={index}
+                total={rules.length}
+                folderListId="rule-folder-paths"
+                testResult={testResult?.ruleId === rule.id ? testResult : null}
+                onChange={(next) => handleChange(index, next)}
+                onMove={(offset) => handleMove(index, offset)}
+                onDelete={() => handleDelete(index)}
+                onTest={() => handleTest(rule)}
+              />
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {t('rules.orderHint')}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RulesEditor;
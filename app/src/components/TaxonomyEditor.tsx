@@ -0,0 +1,198 @@
+import { useState, useCallback } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ChevronRight, ChevronDown, Folder, FolderPlus, Trash2, Plus } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import { createTaxonomyNode, updateTaxonomyNode } from '@/services/taxonomy';
+import type { TaxonomyNode, TaxonomyLimits } from '@/types';
+
+interface TaxonomyEditorProps {
+  nodes: TaxonomyNode[];
+  onChange: (nodes: TaxonomyNode[]) => void;
+  limits: TaxonomyLimits;
+}
+
+interface EditorNodeProps {
+  node: TaxonomyNode;
+  level: number;
+  siblingNames: string[];
+  limits: TaxonomyLimits;
+  collapsedIds: string[];
+  onToggleCollapse: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onAddChild: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const EditorNode = ({
+  node,
+  level,
+  siblingNames,
+  limits,
+  collapsedIds,
+  onToggleCollapse,
+  onRename,
+  onAddChild,
+  onDelete
+}: EditorNodeProps) => {
+  const { t } = useLanguage();
+  const isCollapsed = collapsedIds.includes(node.id);
+  const hasChildren = node.children.length > 0;
+
+  // 名称为空或与同级重名时标红
+  const name = node.name.trim().toLowerCase();
+  const isInvalid = !name || siblingNames.filter(n => n === name).length > 1;
+
+  // 达到层级或子文件夹数量上限时不能继续添加
+  const canAddChild = level + 1 < limits.maxDepth && node.children.length < limits.maxChildren;
+  const childNames = node.children.map(c => c.name.trim().toLowerCase());
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-2 py-1 hover:bg-muted/50 rounded px-1"
+        style={{ paddingLeft: `${level * 16 + 4}px` }}
+      >
+        {/* 展开/折叠按钮 */}
+        {hasChildren ? (
+          <button
+            onClick={() => onToggleCollapse(node.id)}
+            className="w-4 h-4 flex items-center justify-center text-muted-foreground hover:text-foreground"
+          >
+            {isCollapsed ? (
+              <ChevronRight className="w-4 h-4" />
+            ) : (
+              <ChevronDown className="w-4 h-4" />
+            )}
+          </button>
+        ) : (
+          <span className="w-4" />
+        )}
+
+        <Folder className="w-4 h-4 text-amber-500 flex-shrink-0" />
+
+        <Input
+          value={node.name}
+          onChange={(e) => onRename(node.id, e.target.value)}
+          placeholder={t('taxonomy.folderName')}
+          aria-invalid={isInvalid}
+          className={`h-8 text-sm ${isInvalid ? 'border-destructive' : ''}`}
+        />
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0"
+          onClick={() => onAddChild(node.id)}
+          disabled={!canAddChild}
+          title={t('taxonomy.addChild')}
+        >
+          <FolderPlus className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0 text-destructive"
+          onClick={() => onDelete(node.id)}
+          title={t('taxonomy.delete')}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* 子文件夹 */}
+      {hasChildren && !isCollapsed && (
+        <div>
+          {node.children.map((child) => (
+            <EditorNode
+              key={child.id}
+              node={child}
+              level={level + 1}
+              siblingNames={childNames}
+              limits={limits}
+              collapsedIds={collapsedIds}
+              onToggleCollapse={onToggleCollapse}
+              onRename={onRename}
+              onAddChild={onAddChild}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 分类体系编辑器：重命名、增加子文件夹、删除
+export const TaxonomyEditor = ({ nodes, onChange, limits }: TaxonomyEditorProps) => {
+  const [collapsedIds, setCollapsedIds] = useState<string[]>([]);
+  const { t } = useLanguage();
+
+  const handleToggleCollapse = useCallback((id: string) => {
+    setCollapsedIds(prev =>
+      prev.includes(id)
+        ? prev.filter(i => i !== id)
+        : [...prev, id]
+    );
+  }, []);
+
+  const handleRename = useCallback((id: string, name: string) => {
+    onChange(updateTaxonomyNode(nodes, id, node => ({ ...node, name })));
+  }, [nodes, onChange]);
+
+  const handleAddChild = useCallback((id: string) => {
+    onChange(updateTaxonomyNode(nodes, id, node => ({
+      ...node,
+      children: [...node.children, createTaxonomyNode('')]
+    })));
+    setCollapsedIds(prev => prev.filter(i => i !== id));
+  }, [nodes, onChange]);
+
+  const handleDelete = useCallback((id: string) => {
+    onChange(updateTaxonomyNode(nodes, id, () => null));
+  }, [nodes, onChange]);
+
+  const handleAddRoot = () => {
+    onChange([...nodes, createTaxonomyNode('')]);
+  };
+
+  const rootNames = nodes.map(n => n.name.trim().toLowerCase());
+
+  return (
+    <div className="space-y-2">
+      <div className="border rounded-lg p-2 max-h-[400px] overflow-auto">
+        {nodes.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            {t('taxonomy.empty')}
+          </div>
+        ) : (
+          nodes.map((node) => (
+            <EditorNode
+              key={node.id}
+              node={node}
+              level={0}
+              siblingNames={rootNames}
+              limits={limits}
+              collapsedIds={collapsedIds}
+              onToggleCollapse={handleToggleCollapse}
+              onRename={handleRename}
+              onAddChild={handleAddChild}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleAddRoot}
+        disabled={nodes.length >= limits.maxChildren}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        {t('taxonomy.addRoot')}
+      </Button>
+    </div>
+  );
+};
+
+export default TaxonomyEditor;
@@ -0,0 +1,131 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useSettings } from '@/hooks/useSettings';
+import { useLanguage } from '@/hooks/useLanguage';
+import { addOperationLog, createSnapshot } from '@/services/storageService';
+import { cleanUrl } from '@/services/urlNormalizer';
+import type { BookmarkNode } from '@/types';
+import { ArrowRight, Eraser, Loader2 } from 'lucide-react';
+
+interface UrlCleanerProps {
+  bookmarks: BookmarkNode[];
+  onCleaned: () => Promise<void> | void;
+}
+
+// 原地清理书签网址中的跟踪参数（修改前创建快照，可在历史记录中回滚）
+export const UrlCleaner = ({ bookmarks, onCleaned }: UrlCleanerProps) => {
+  const { settings } = useSettings();
+  const { t } = useLanguage();
+  const [deselectedIds, setDeselectedIds] = useState<string[]>([]);
+  const [cleaning, setCleaning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // 需要清理的书签：清理后的网址与原网址不同
+  const changes = useMemo(() => {
+    return bookmarks
+      .filter(b => b.url)
+      .map(b => ({ bookmark: b, cleaned: cleanUrl(b.url!, settings.urlRules) }))
+      .filter(({ bookmark, cleaned }) => cleaned !== bookmark.url);
+  }, [bookmarks, settings.urlRules]);
+
+  const selected = changes.filter(c => !deselectedIds.includes(c.bookmark.id));
+
+  const handleClean = async () => {
+    if (selected.length === 0) return;
+    setCleaning(true);
+    setMessage(null);
+
+    try {
+      const tree = await chrome.bookmarks.getTree();
+      const snapshot = await createSnapshot(tree, `清理网址前 - ${selected.length} 个书签`);
+
+      let updated = 0;
+      for (const { bookmark, cleaned } of selected) {
+        try {
+          await chrome.bookmarks.update(bookmark.id, { url: cleaned });
+          updated++;
+        } catch (e) {
+          console.error('更新书签网址失败:', e);
+        }
+      }
+
+      await addOperationLog({
+        type: 'clean',
+        affectedCount: updated,
+        description: `清理大师 - 清理了 ${updated} 个书签的网址`,
+        snapshotId: snapshot.id
+      });
+
+      setMessage(t('url.cleaned', { count: updated }));
+      setDeselectedIds([]);
+      await onCleaned();
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '清理失败');
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eraser className="w-5 h-5" />
+          {t('url.cleanTitle')}
+        </CardTitle>
+        <CardDescription>{t('url.cleanDesc')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && <div className="text-sm text-muted-foreground">{message}</div>}
+
+        {changes.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-4">{t('url.nothingToClean')}</div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="text-sm">{t('url.cleanCount', { count: changes.length })}</div>
+              <Button size="sm" onClick={handleClean} disabled={cleaning || selected.length === 0}>
+                {cleaning ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <Eraser className="w-4 h-4 mr-1" />
+                )}
+                {t('url.cleanSelected')} ({selected.length})
+              </Button>
+            </div>
+
+            <div className="border rounded-lg divide-y max-h-[320px] overflow-auto">
+              {changes.map(({ bookmark, cleaned }) => (
+                <div key={bookmark.id} className="flex items-start gap-3 p-3 hover:bg-muted/50">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={!deselectedIds.includes(bookmark.id)}
+                    onCheckedChange={(checked) => {
+                      setDeselectedIds(prev => checked
+                        ? prev.filter(id => id !== bookmark.id)
+                        : [...prev, bookmark.id]);
+                    }}
+                  />
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <div className="text-sm font-medium truncate">{bookmark.title}</div>
+                    <div className="text-xs text-muted-foreground truncate line-through" title={bookmark.url}>
+                      {bookmark.url}
+                    </div>
+                    <div className="flex items-center gap-1 text-xs min-w-0">
+                      <ArrowRight className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                      <span className="truncate" title={cleaned}>{cleaned}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UrlCleaner;
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { getUsageRecords, sumUsage, getMonthStart } from '@/services/storageService';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { UsageRecord, UsageTotals } from '@/types';
+import { Coins, Loader2 } from 'lucide-react';
+
+interface UsageStatsProps {
+  refreshTrigger?: number;
+  // 每月预算上限（美元，0 表示不限制）
+  monthlyBudget: number;
+}
+
+// 显示最近多少天 / 多少个月
+const DAYS_SHOWN = 14;
+const MONTHS_SHOWN = 6;
+
+// 本地时区的日期键
+const toDateKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const toMonthKey = (timestamp: number): string => toDateKey(timestamp).slice(0, 7);
+
+// 按键分组汇总，按键倒序排列
+const groupUsage = (records: UsageRecord[], keyOf: (timestamp: number) => string): [string, UsageTotals][] => {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record.timestamp);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return [...groups.entries()]
+    .map(([key, items]): [string, UsageTotals] => [key, sumUsage(items)])
+    .sort(([a], [b]) => b.localeCompare(a));
+};
+
+const formatCost = (cost: number): string => `$${cost.toFixed(4)}`;
+
+export const UsageStats = ({ refreshTrigger = 0, monthlyBudget }: UsageStatsProps) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { t } = useLanguage();
+
+  // 加载用量记录
+  const loadUsage = async () => {
+    setLoading(true);
+    try {
+      const now = new Date();
+      const since = getMonthStart(new Date(now.getFullYear(), now.getMonth() - (MONTHS_SHOWN - 1), 1));
+      setRecords(await getUsageRecords(since));
+    } catch (e) {
+      console.error('加载用量记录失败:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, [refreshTrigger]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const todayKey = toDateKey(Date.now());
+  const monthStart = getMonthStart();
+  const today = sumUsage(records.filter(r => toDateKey(r.timestamp) === todayKey));
+  const month = sumUsage(records.filter(r => r.timestamp >= monthStart));
+  const daily = groupUsage(records, toDateKey).slice(0, DAYS_SHOWN);
+  const monthly = groupUsage(records, toMonthKey);
+  const hasEstimated = records.some(r => r.estimated);
+  const hasUnknownCost = records.some(r => r.cost === null);
+
+  const renderTotals = (label: string, totals: UsageTotals) => (
+    <div className="p-4 bg-muted rounded-lg space-y-1">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-semibold">{formatCost(totals.cost)}</div>
+      <div className="text-xs text-muted-foreground">
+        {t('usage.summary', {
+          requests: totals.requests,
+          tokens: (totals.promptTokens + totals.completionTokens).toLocaleString()
+        })}
+      </div>
+    </div>
+  );
+
+  const renderTable = (title: string, rows: [string, UsageTotals][]) => (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">{title}</div>
+      <div className="border rounded-lg max-h-[240px] overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left">{t('usage.period')}</th>
+              <th className="px-3 py-2 text-right">{t('usage.requests')}</th>
+              <th className="px-3 py-2 text-right">{t('usage.inputTokens')}</th>
+              <th className="px-3 py-2 text-right">{t('usage.outputTokens')}</th>
+              <th className="px-3 py-2 text-right">{t('usage.cost')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([key, totals]) => (
+              <tr key={key} className="border-t">
+                <td className="px-3 py-2">{key}</td>
+                <td className="px-3 py-2 text-right">{totals.requests}</td>
+                <td className="px-3 py-2 text-right">{totals.promptTokens.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{totals.completionTokens.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{formatCost(totals.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          {t('usage.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('usage.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          {renderTotals(t('usage.today'), today)}
+          {renderTotals(t('usage.thisMonth'), month)}
+        </div>
+
+        {/* 预算进度 */}
+        {monthlyBudget > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{t('usage.budget')}</span>
+              <span>{formatCost(month.cost)} / ${monthlyBudget.toFixed(2)}</span>
+            </div>
+            <Progress value={Math.min(100, (month.cost / monthlyBudget) * 100)} />
+          </div>
+        )}
+
+        {records.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            {t('usage.noRecords')}
+          </div>
+        ) : (
+          <>
+            {renderTable(t('usage.daily'), daily)}
+            {renderTable(t('usage.monthly'), monthly)}
+          </>
+        )}
+
+        {(hasEstimated || hasUnknownCost) && (
+          <p className="text-xs text-muted-foreground">
+            {hasEstimated && t('usage.estimatedHint')}
+            {hasEstimated && hasUnknownCost && ' '}
+            {hasUnknownCost && t('usage.unknownCostHint')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
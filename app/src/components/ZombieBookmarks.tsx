@@ -0,0 +1,353 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useLanguage } from '@/hooks/useLanguage';
+import { ensureFolderPath, findBookmarkBarId, findFolderByPath, getFolderPaths } from '@/hooks/useBookmarks';
+import { addOperationLog, createSnapshot } from '@/services/storageService';
+import { DEFAULT_ZOMBIE_OPTIONS, MAX_UNVISITED_MONTHS, findZombieBookmarks, hasHistoryPermission, requestHistoryPermission } from '@/services/zombies';
+import type { BookmarkNode, CleanResult, ZombieBookmark } from '@/types';
+import { Archive, ExternalLink, Ghost, History, Loader2, Search, Trash2, X } from 'lucide-react';
+
+interface ZombieBookmarksProps {
+  tree: BookmarkNode[];
+  onChanged: () => Promise<void> | void;
+}
+
+// 排序方式：按添加时间 / 按最后访问时间（都是最久的在前）
+type ZombieSort = 'added' | 'visited';
+
+// 僵尸书签：长期不用的书签，可批量归档或删除（操作前创建快照，可在历史记录中回滚）
+export const ZombieBookmarks = ({ tree, onChanged }: ZombieBookmarksProps) => {
+  const { t } = useLanguage();
+  const [historyGranted, setHistoryGranted] = useState(false);
+  const [unvisitedMonths, setUnvisitedMonths] = useState(DEFAULT_ZOMBIE_OPTIONS.unvisitedMonths);
+  const [maxAgeYears, setMaxAgeYears] = useState(DEFAULT_ZOMBIE_OPTIONS.maxAgeYears);
+  const [zombies, setZombies] = useState<CleanResult['zombieBookmarks'] | null>(null);
+  const [sortBy, setSortBy] = useState<ZombieSort>('added');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    hasHistoryPermission().then(setHistoryGranted).catch(() => setHistoryGranted(false));
+  }, []);
+
+  const handleGrantHistory = async () => {
+    try {
+      setHistoryGranted(await requestHistoryPermission());
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '申请权限失败');
+    }
+  };
+
+  const handleScan = async () => {
+    setScanning(true);
+    setMessage(null);
+    setSelectedIds([]);
+
+    try {
+      // 已归档的书签不再列出
+      const archiveFolder = findFolderByPath(getFolderPaths(tree), t('zombie.archiveFolder'));
+      const { zombieBookmarks } = await findZombieBookmarks(tree, {
+        unvisitedMonths,
+        maxAgeYears,
+        useHistory: historyGranted,
+        excludeFolderId: archiveFolder?.id
+      });
+      setZombies(zombieBookmarks);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '扫描失败');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  // 最久未用的在前：没有访问记录的按添加时间排在最前
+  const sorted = useMemo(() => {
+    if (!zombies) return [];
+    const addedAt = (z: ZombieBookmark) => z.bookmark.dateAdded ?? 0;
+    return [...zombies].sort((a, b) => sortBy === 'added'
+      ? addedAt(a) - addedAt(b)
+      : (a.lastVisitTime ?? 0) - (b.lastVisitTime ?? 0) || addedAt(a) - addedAt(b));
+  }, [zombies, sortBy]);
+
+  const selected = sorted.filter(z => selectedIds.includes(z.bookmark.id));
+
+  // 归档或删除后从列表中移除
+  const finish = async (doneIds: string[], text: string) => {
+    setZombies(prev => prev && prev.filter(z => !doneIds.includes(z.bookmark.id)));
+    setSelectedIds([]);
+    setMessage(text);
+    await onChanged();
+  };
+
+  // 移动到归档文件夹
+  const handleArchive = async () => {
+    if (selected.length === 0) return;
+    setWorking(true);
+    setMessage(null);
+
+    try {
+      const currentTree = await chrome.bookmarks.getTree();
+      const snapshot = await createSnapshot(currentTree, `归档僵尸书签前 - ${selected.length} 个书签`);
+      const folder = await ensureFolderPath(getFolderPaths(tree), t('zombie.archiveFolder'), findBookmarkBarId(tree));
+
+      const movedIds: string[] = [];
+      for (const { bookmark } of selected) {
+        try {
+          await chrome.bookmarks.move(bookmark.id, { parentId: folder.id });
+          movedIds.push(bookmark.id);
+        } catch (e) {
+          console.error('归档书签失败:', e);
+        }
+      }
+
+      await addOperationLog({
+        type: 'clean',
+        affectedCount: movedIds.length,
+        description: `清理大师 - 归档了 ${movedIds.length} 个僵尸书签到「${folder.path}」`,
+        snapshotId: snapshot.id
+      });
+      await finish(movedIds, t('zombie.archived', { count: movedIds.length, folder: folder.path }));
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '归档失败');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (selected.length === 0) return;
+    setWorking(true);
+    setMessage(null);
+
+    try {
+      const currentTree = await chrome.bookmarks.getTree();
+      const snapshot = await createSnapshot(currentTree, `删除僵尸书签前 - ${selected.length} 个书签`);
+
+      const deletedIds: string[] = [];
+      for (const { bookmark } of selected) {
+        try {
+          await chrome.bookmarks.remove(bookmark.id);
+          deletedIds.push(bookmark.id);
+        } catch (e) {
+          console.error('删除书签失败:', e);
+        }
+      }
+
+      await addOperationLog({
+        type: 'clean',
+        affectedCount: deletedIds.length,
+        description: `清理大师 - 删除了 ${deletedIds.length} 个僵尸书签`,
+        snapshotId: snapshot.id
+      });
+      await finish(deletedIds, t('zombie.deleted', { count: deletedIds.length }));
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '删除失败');
+    } finally {
+      setWorking(false);
+      setDeleteDialogOpen(false);
+    }
+  };
+
+  const formatDate = (time?: number) => time ? new Date(time).toLocaleDateString() : '-';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ghost className="w-5 h-5" />
+          {t('zombie.title')}
+        </CardTitle>
+        <CardDescription>{t('zombie.desc')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 浏览历史权限：未授权时只能按添加时间判断 */}
+        {!historyGranted && (
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-dashed p-3">
+            <p className="text-xs text-muted-foreground">{t('zombie.historyHint')}</p>
+            <Button variant="outline" size="sm" className="flex-shrink-0" onClick={handleGrantHistory}>
+              <History className="w-4 h-4 mr-1" />
+              {t('zombie.grantHistory')}
+            </Button>
+          </div>
+        )}
+
+        {/* 扫描选项 */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="unvisitedMonths" className="text-xs text-muted-foreground">{t('zombie.unvisitedMonths')}</Label>
+            <Input
+              id="unvisitedMonths"
+              type="number"
+              min={1}
+              max={MAX_UNVISITED_MONTHS}
+              value={unvisitedMonths}
+              disabled={!historyGranted}
+              onChange={(e) => setUnvisitedMonths(Math.min(MAX_UNVISITED_MONTHS, Math.max(1, Number(e.target.value) || 1)))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="maxAgeYears" className="text-xs text-muted-foreground">{t('zombie.maxAgeYears')}</Label>
+            <Input
+              id="maxAgeYears"
+              type="number"
+              min={0}
+              value={maxAgeYears}
+              onChange={(e) => setMaxAgeYears(Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+        {historyGranted && (
+          <p className="text-xs text-muted-foreground">{t('zombie.historyRetention')}</p>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <Button onClick={handleScan} disabled={scanning}>
+            {scanning ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Search className="w-4 h-4 mr-2" />
+            )}
+            {zombies ? t('clean.rescan') : t('clean.scan')}
+          </Button>
+          {sorted.length > 0 && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleArchive} disabled={working || selected.length === 0}>
+                {working ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <Archive className="w-4 h-4 mr-1" />
+                )}
+                {t('zombie.archiveSelected')} ({selected.length})
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => setDeleteDialogOpen(true)}
+                disabled={working || selected.length === 0}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                {t('clean.deleteSelected')} ({selected.length})
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {message && <div className="text-sm text-muted-foreground">{message}</div>}
+
+        {zombies && sorted.length === 0 && (
+          <div className="text-sm text-muted-foreground text-center py-4">{t('zombie.none')}</div>
+        )}
+
+        {sorted.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.length === sorted.length}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? sorted.map(z => z.bookmark.id) : [])}
+                />
+                {t('zombie.count', { count: sorted.length })}
+              </label>
+              <div className="flex gap-2">
+                {(['added', 'visited'] as const).map((sort) => (
+                  <Button
+                    key={sort}
+                    variant={sortBy === sort ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setSortBy(sort)}
+                  >
+                    {t(`zombie.sort.${sort}`)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="border rounded-lg divide-y max-h-[480px] overflow-auto">
+              {sorted.map((zombie) => (
+                <div key={zombie.bookmark.id} className="flex items-start gap-3 p-3 hover:bg-muted/50">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selectedIds.includes(zombie.bookmark.id)}
+                    onCheckedChange={(checked) => {
+                      setSelectedIds(prev => checked
+                        ? [...prev, zombie.bookmark.id]
+                        : prev.filter(id => id !== zombie.bookmark.id));
+                    }}
+                  />
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <div className="text-sm font-medium truncate">{zombie.bookmark.title}</div>
+                    <div className="text-xs text-muted-foreground truncate">{zombie.bookmark.url}</div>
+                    <div className="flex flex-wrap items-center gap-2 mt-1">
+                      {zombie.reasons.map(reason => (
+                        <Badge key={reason} variant="secondary" className="text-xs">
+                          {t(`zombie.reason.${reason}`)}
+                        </Badge>
+                      ))}
+                      <span className="text-xs text-muted-foreground">
+                        {t('zombie.addedAt', { date: formatDate(zombie.bookmark.dateAdded) })}
+                      </span>
+                      {zombie.lastVisitTime && (
+                        <span className="text-xs text-muted-foreground">
+                          {t('zombie.lastVisit', { date: formatDate(zombie.lastVisitTime), count: zombie.visitCount })}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <a
+                    href={zombie.bookmark.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {/* 删除确认对话框 */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-destructive">
+              <Trash2 className="w-5 h-5" />
+              {t('btn.confirm')} {t('btn.delete')}
+            </DialogTitle>
+            <DialogDescription>
+              {t('zombie.confirmDelete', { count: selected.length })}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+              <X className="w-4 h-4 mr-1" />
+              {t('btn.cancel')}
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={working}>
+              {working ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4 mr-1" />
+              )}
+              {working ? '删除中...' : t('btn.confirm') + t('btn.delete')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ZombieBookmarks;
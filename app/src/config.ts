@@ -5,16 +5,25 @@ export const CONFIG = {
   // 用户手册地址
   USER_MANUAL_URL: 'https://github.com/SeonPan/ai-smart-bookmark-organizer',
   
-  // 预设模型配置
+  // 预设模型配置（provider 决定使用哪种接口协议，pricing 为美元 / 百万 Token 的输入 / 输出价格）
   PRESET_MODELS: [
-    { name: 'Kimi', baseUrl: 'https://api.moonshot.cn/v1', model: 'kimi-k2' },
-    { name: 'DeepSeek', baseUrl: 'https://api.deepseek.com/v1', model: 'deepseek-chat' },
-    { name: 'GLM', baseUrl: 'https://open.bigmodel.cn/api/paas/v4', model: 'GLM-4.6' },
-    { name: 'MiniMax', baseUrl: 'https://api.minimax.chat/v1', model: 'MiniMax-M2.1' },
-    { name: 'Gemini', baseUrl: 'https://generativelanguage.googleapis.com/v1beta', model: 'gemini-2.5-flash' },
-    { name: 'GPT', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+    { name: 'Kimi', provider: 'openai', baseUrl: 'https://api.moonshot.cn/v1', model: 'kimi-k2', pricing: { input: 0.6, output: 2.5 } },
+    { name: 'DeepSeek', provider: 'openai', baseUrl: 'https://api.deepseek.com/v1', model: 'deepseek-chat', pricing: { input: 0.28, output: 0.42 } },
+    { name: 'GLM', provider: 'openai', baseUrl: 'https://open.bigmodel.cn/api/paas/v4', model: 'GLM-4.6', pricing: { input: 0.6, output: 2.2 } },
+    { name: 'MiniMax', provider: 'openai', baseUrl: 'https://api.minimax.chat/v1', model: 'MiniMax-M2.1', pricing: { input: 0.3, output: 1.2 } },
+    { name: 'Gemini', provider: 'gemini', baseUrl: 'https://generativelanguage.googleapis.com/v1beta', model: 'gemini-2.5-flash', pricing: { input: 0.3, output: 2.5 } },
+    { name: 'Claude', provider: 'anthropic', baseUrl: 'https://api.anthropic.com/v1', model: 'claude-3-5-haiku-latest', pricing: { input: 0.8, output: 4 } },
+    { name: 'GPT', provider: 'openai', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', pricing: { input: 0.15, output: 0.6 } },
   ] as const,
   
+  // 常见嵌入模型的输入价格（美元 / 百万 Token）
+  EMBEDDING_PRICING: {
+    'text-embedding-3-small': 0.02,
+    'text-embedding-3-large': 0.13,
+    'text-embedding-ada-002': 0.1,
+    'gemini-embedding-001': 0.15
+  } as Record<string, number>,
+  
   // 语言配置
   LANGUAGES: {
     zh: '中文',
@@ -39,8 +48,13 @@ export const TRANSLATIONS = {
     'ai.description': '选择使用云端 AI 服务或本地 Ollama 模型',
     'ai.cloudApi': '云端 API',
     'ai.localOllama': '本地 Ollama',
-    'ai.cloudApiDesc': 'OpenAI / DeepSeek / Moonshot',
+    'ai.cloudApiDesc': 'OpenAI 兼容 / Anthropic / Gemini',
     'ai.localOllamaDesc': '无需 API Key，完全本地运行',
+    'ai.provider': '接口协议',
+    'ai.providerHint': 'LM Studio、vLLM 等本地服务请选择 OpenAI 兼容接口并填写其地址，API Key 可填任意值',
+    'ai.capStreaming': '流式输出',
+    'ai.capJsonMode': 'JSON 模式',
+    'ai.capEmbeddings': '向量嵌入',
     'ai.baseUrl': 'Base URL',
     'ai.apiKey': 'API Key',
     'ai.modelName': 'Model Name',
@@ -55,16 +69,60 @@ export const TRANSLATIONS = {
     'ai.ollamaHint': '请确保 Ollama 服务已在本地启动',
     'ai.testSuccess': '连接成功',
     'ai.testFailed': '连接失败',
+    'ai.maxRetries': '失败重试次数',
+    'ai.retryHint': '遇到限流（429）或服务暂时不可用（5xx）时按指数退避自动重试，并遵循服务端的 Retry-After',
+    'ai.requestTimeout': '单次请求超时（秒）',
     'ai.goSettings': '去设置',
+    'ai.pricing': '模型价格（美元 / 百万 Token）',
+    'ai.inputPrice': '输入价格',
+    'ai.outputPrice': '输出价格',
+    'ai.pricingHint': '预置模型已内置参考价格，自定义模型请在此填写，用于成本预估',
     
     // 整理设置
     'organize.maxCount': '最大整理数量',
+    'organize.batchSize': '每批书签数',
+    'organize.concurrency': '并发请求数',
+    'organize.concurrencyHint': '同时发送的批次请求数，过高可能触发服务商限流',
+    'organize.fetchMetadata': '抓取页面元信息',
+    'organize.fetchMetadataHint': '整理前在后台读取书签页面的描述和站点名，帮助 AI 更准确地分类',
+    'organize.learnFromCorrections': '从我的修改中学习',
+    'organize.learnFromCorrectionsHint': '记录你对 AI 建议文件夹的修改，并在之后的请求中作为示例参考',
+    'organize.embeddings': '嵌入向量分类',
+    'organize.embeddingsHint': '先按书签与各文件夹内容的语义相似度分类，只把难以区分的书签交给对话模型，大幅减少耗时和费用',
+    'organize.embeddingsUnsupported': '{provider} 不提供嵌入接口，开启后将直接使用对话模型',
+    'organize.embeddingModel': '嵌入模型',
+    'organize.embeddingMargin': '相似度差值',
+    'organize.embeddingMarginHint': '最相近的文件夹比第二相近的文件夹高出该值时直接采用，否则交给对话模型判断',
+    'organize.embeddingStats': '已缓存 {count} 个向量',
+    'organize.clearEmbeddings': '清空向量',
+    'organize.autoOrganize': '自动整理新书签',
+    'organize.autoOrganizeHint': '通过浏览器星标等方式新建书签时，先匹配规则再由 AI 分类。低于自动接受阈值的建议仍需确认',
+    'organize.autoOrganizeOff': '关闭',
+    'organize.autoOrganizeSuggest': '提示我确认',
+    'organize.autoOrganizeMove': '自动移动',
+    'organize.taxonomyDepth': '分类体系最大层级',
+    'organize.taxonomyChildren': '每个文件夹最多子文件夹数',
+    'organize.taxonomyHint': '重构模式下 AI 设计分类体系时的规模限制',
+    'organize.autoAccept': '自动接受的置信度',
+    'organize.autoAcceptHint': '批量整理中置信度低于此值的结果会放入“待复核”，默认不应用',
+    'ai.rateLimit': '速率限制（{provider}）',
+    'ai.requestsPerMinute': '每分钟请求数',
+    'ai.tokensPerMinute': '每分钟 Token 数',
+    'ai.rateLimitHint': '按提供商分别保存，0 表示不限制；超过限制的请求会排队等待',
+    'ai.monthlyBudget': '每月预算上限（美元）',
+    'ai.monthlyBudgetHint': '本月花费达到上限后将停止发送 AI 请求，0 表示不限制',
+    'ai.cache': '结果缓存有效期（天）',
+    'ai.cacheHint': '相同书签、文件夹列表和模型的分类结果会复用缓存，不重复计费；0 表示不使用缓存',
+    'ai.cacheStats': '已缓存 {count} 条结果，约 {size}',
+    'ai.clearCache': '清空缓存',
     'organize.tokenThreshold': 'Token 预警阈值',
     'organize.tokenDescription': '超过此数量将提示分批处理，避免消耗过多 Token',
     'organize.tokenEstimate': '批处理时消耗的Token预估',
     'organize.basedOn': '基于前 50 个书签的估算',
     'organize.estimatedTokens': '预计 Tokens',
     'organize.estimatedCost': '预计成本',
+    'organize.tokenBreakdown': '输入 {input} / 输出 {output} Tokens',
+    'organize.unknownPrice': '未知（请在设置中填写模型价格）',
     
     // 批量整理
     'batch.title': '批量整理',
@@ -82,23 +140,122 @@ export const TRANSLATIONS = {
     'batch.selectAtLeastOne': '请至少选择一个书签',
     'batch.pleaseConfigAI': '请先配置 AI 设置（云端 API 或本地 Ollama）',
     'batch.processingProgress': '处理进度',
-    'batch.batchInfo': '正在处理第 {current} / {total} 批书签',
+    'batch.batchInfo': '已完成 {current} / {total} 批书签',
+    'batch.fetchingMetadata': '正在读取页面元信息...',
+    'batch.embedding': '正在计算嵌入向量...',
     'batch.snapshotCreated': '已自动创建快照，可随时回滚',
     'batch.analyzed': '已分析',
     'batch.willMove': '将被移动',
     'batch.newFolders': '新建文件夹',
     'batch.willCreateFolders': '将创建以下新文件夹',
-    'batch.moreChanges': '还有 {count} 个变更...',
+    'batch.acceptAll': '全部接受',
+    'batch.rejectAll': '全部拒绝',
+    'batch.rejectNewFolders': '拒绝所有新文件夹',
+    'batch.acceptAbove': '仅接受置信度 ≥',
+    'batch.acceptedCount': '已接受 {accepted} / {total}',
+    'batch.renameFolder': '重命名新文件夹',
+    'batch.unchanged': '位置不变',
+    'batch.from': '原位置：',
+    'batch.needsReview': '待复核',
+    'batch.needsReviewHint': '置信度较低，默认不应用',
     'batch.organizeComplete': '整理完成！',
     'batch.organizeSuccess': '已成功整理 {count} 个书签',
     'batch.canRollback': '如需撤销，可在「历史记录」中回滚到此快照',
     'batch.continueOrganize': '继续整理',
+    'batch.cancelProcessing': '取消处理',
+    'batch.failedBatches': '{count} 批书签处理失败，这些书签将保持原位置',
+    'batch.failedBatchItem': '第 {index} 批（{count} 个书签）：{error}',
+    'batch.unclassified': '未分类',
+    'batch.bypassCache': '忽略缓存',
+    'batch.bypassCacheHint': '重新向 AI 请求所有书签的分类（新结果仍会写入缓存）',
+    'batch.cachedResults': '其中 {count} 个书签使用了缓存结果，未重复计费',
+    'batch.ruleMatchedResults': '其中 {count} 个书签由分类规则直接归类，未调用 AI',
+    'batch.embeddingMatchedResults': '其中 {count} 个书签按嵌入向量相似度归类，未调用对话模型',
+    'batch.unclassifiedHint': '{count} 个书签未得到有效分类，将保持原位置',
+    
+    // 重构模式（AI 设计分类体系）
+    'taxonomy.restructure': '重构模式',
+    'taxonomy.restructureHint': '先由 AI 为整个书签库设计统一的分类体系，确认后所有书签严格按其归类',
+    'taxonomy.generate': '生成分类体系',
+    'taxonomy.step': '确认分类体系',
+    'taxonomy.title': '分类体系',
+    'taxonomy.description': '最多 {depth} 层，每个文件夹最多 {children} 个子文件夹。可重命名、添加或删除文件夹',
+    'taxonomy.generating': '正在根据 {count} 个书签设计分类体系...',
+    'taxonomy.regenerate': '重新生成',
+    'taxonomy.apply': '按此分类体系整理',
+    'taxonomy.folderName': '文件夹名称',
+    'taxonomy.addChild': '添加子文件夹',
+    'taxonomy.addRoot': '添加顶层文件夹',
+    'taxonomy.delete': '删除',
+    'taxonomy.empty': '暂无文件夹',
+    'taxonomy.folderCount': '共 {count} 个文件夹',
+    'taxonomy.invalid': '文件夹名称不能为空，同级文件夹不能重名',
     
     // 清理大师
     'clean.title': '清理大师',
     'clean.brokenLinks': '失效链接',
     'clean.duplicates': '重复书签',
-    'clean.brokenDesc': '扫描并删除无法访问的链接（可能因部分网站的反爬机制导致失效检测有误）',
+    'clean.brokenDesc': '逐个请求书签地址，按真实状态码和网络错误找出无法访问的链接，并识别内容为“页面不存在”的软 404 和域名停放页（返回 401/403/429 的网站多为反爬限制，不计为失效）',
+    'clean.checkingLinks': '正在检测 {checked}/{total}',
+    'clean.pauseScan': '暂停',
+    'clean.resumeScan': '继续',
+    'clean.scanIncremental': '增量扫描',
+    'clean.scanIncrementalHint': '跳过最近 7 天内检测过的链接',
+    'clean.scanFull': '全部重新扫描',
+    'clean.scanFinished': '链接扫描完成',
+    'clean.lastScan': '上次扫描：{time}，检测 {checked} 个，跳过 {skipped} 个近期已检测的链接',
+    'clean.consecutiveFailures': '连续 {count} 次失效',
+    'clean.noBrokenLinks': '没有发现失效链接',
+    'clean.link.ok': '正常',
+    'clean.link.redirected': '已重定向',
+    'clean.link.blocked': '访问受限',
+    'clean.link.not-found': '页面不存在',
+    'clean.link.soft-404': '软 404',
+    'clean.link.parked': '域名已停放',
+    'clean.link.http-error': 'HTTP 错误',
+    'clean.link.dns': '域名无法解析',
+    'clean.link.tls': '证书错误',
+    'clean.link.timeout': '超时',
+    'clean.link.network': '无法连接',
+    'clean.link.skipped': '已跳过',
+    'clean.category.all': '全部',
+    'clean.category.unreachable': '无法访问',
+    'clean.category.soft-404': '软 404',
+    'clean.category.parked': '停放域名',
+    'clean.category.flaky': '时好时坏',
+    'clean.evidence.title': '标题',
+    'clean.evidence.body': '正文',
+    'clean.evidence.probe': '与不存在的页面相同',
+    'clean.evidence.home-redirect': '跳转到首页',
+    'clean.evidence.parking-marker': '停放特征',
+    'clean.evidence.parking-host': '跳转到停放服务',
+    'moved.title': '已迁移的链接',
+    'moved.desc': '这些书签被永久重定向（301/308）到了新地址，可以直接改为新地址。修改前会自动创建快照',
+    'moved.count': '{count} 个书签已迁移',
+    'moved.updateSelected': '更新选中',
+    'moved.updated': '已更新 {count} 个书签的网址',
+    'moved.crossDomain': '跨域名，请确认',
+    'zombie.title': '僵尸书签',
+    'zombie.desc': '找出没有访问记录、长期未访问或添加已久的书签，可批量归档或删除。操作前会自动创建快照',
+    'zombie.historyHint': '授权读取浏览历史后才能按访问记录判断，否则只按添加时间判断',
+    'zombie.grantHistory': '授权浏览历史',
+    'zombie.historyRetention': '浏览器只保留有限时间的历史记录（Chrome 约 90 天），因此最多按 3 个月判断；更早的访问无法查到',
+    'zombie.unvisitedMonths': '超过几个月未访问（最多 3）',
+    'zombie.maxAgeYears': '添加超过几年（0 表示不限）',
+    'zombie.count': '{count} 个僵尸书签',
+    'zombie.none': '没有发现僵尸书签',
+    'zombie.sort.added': '按添加时间',
+    'zombie.sort.visited': '按最后访问',
+    'zombie.reason.no-visits': '历史记录中无访问',
+    'zombie.reason.not-visited': '长期未访问',
+    'zombie.reason.old': '添加已久',
+    'zombie.addedAt': '添加于 {date}',
+    'zombie.lastVisit': '最后访问 {date}（{count} 次）',
+    'zombie.archiveSelected': '归档选中',
+    'zombie.archiveFolder': '归档',
+    'zombie.archived': '已将 {count} 个书签移动到「{folder}」',
+    'zombie.deleted': '已删除 {count} 个书签',
+    'zombie.confirmDelete': '确定要删除选中的 {count} 个僵尸书签吗？可在历史记录中回滚',
     'clean.duplicateDesc': '发现并合并重复的书签',
     'clean.noBroken': '未发现失效链接',
     'clean.noDuplicates': '当前无重复书签',
@@ -109,6 +266,36 @@ export const TRANSLATIONS = {
     'clean.foundBroken': '发现 {count} 个失效链接',
     'clean.foundDuplicates': '发现 {count} 组重复书签',
     'clean.deleteSuccess': '成功删除 {count} 个',
+    'clean.nearDuplicates': '查找近似重复',
+    'clean.nearDuplicatesHint': '除规范化后相同的地址外，还按标题相似度查找镜像站、移动版等重复',
+    'clean.semanticDuplicates': '按内容语义查找',
+    'clean.semanticDuplicatesHint': '使用嵌入向量比较书签内容，会产生少量 API 费用',
+    'clean.semanticUnavailable': '需先在 AI 设置中开启嵌入向量分类',
+    'clean.match.url': '地址相同',
+    'clean.match.title': '标题相近',
+    'clean.match.semantic': '内容相近',
+    'clean.similarity': '相似度 {percent}%',
+
+    // 网址规范化
+    'url.rules': '网址规范化',
+    'url.rulesHint': '判断两个书签是否指向同一页面时采用的规则，用于重复扫描、保存时的重复提示和结果缓存',
+    'url.rule.stripTrackingParams': '去除跟踪参数',
+    'url.rule.foldWww': '忽略 www.',
+    'url.rule.foldMobile': '忽略移动版子域名 (m.)',
+    'url.rule.foldAmp': '忽略 AMP 版本',
+    'url.rule.upgradeHttp': '视 http 与 https 相同',
+    'url.rule.stripTrailingSlash': '忽略末尾斜杠',
+    'url.rule.stripDefaultPort': '忽略默认端口',
+    'url.rule.keepHashRoutes': '保留 #/ 路由',
+    'url.extraTrackingParams': '额外的跟踪参数',
+    'url.keepParams': '始终保留的参数',
+    'url.paramsHint': '多个参数名用逗号分隔，以 * 结尾表示前缀匹配（如 utm_*）',
+    'url.cleanTitle': '清理网址',
+    'url.cleanDesc': '从书签网址中移除跟踪参数和多余的默认端口，修改前会自动创建快照',
+    'url.nothingToClean': '没有需要清理的网址',
+    'url.cleanCount': '{count} 个书签的网址可以清理',
+    'url.cleanSelected': '清理选中',
+    'url.cleaned': '已清理 {count} 个书签的网址',
     
     // 历史记录
     'history.title': '历史记录',
@@ -150,6 +337,81 @@ export const TRANSLATIONS = {
     'stats.debugInfo': '调试信息',
     'stats.viewRawTree': '查看原始书签树结构',
     
+    // 收件箱
+    'inbox.folder': '收件箱文件夹',
+    'inbox.folderHint': '定时用 AI 整理此文件夹中的书签，运行前会自动创建快照；已忽略建议的书签不会再次整理',
+    'inbox.disabled': '不启用',
+    'inbox.interval': '整理间隔',
+    'inbox.intervalValue': '{minutes} 分钟',
+    'inbox.maxItems': '每次最多处理',
+    'inbox.autoApply': '自动应用',
+    'inbox.autoApplyHint': '直接移动高于自动接受阈值的书签；关闭时所有建议都放入弹窗中等待确认',
+    'inbox.runNow': '立即整理',
+    'inbox.runFailed': '收件箱整理失败',
+    'inbox.nothingToDo': '收件箱中没有需要整理的书签',
+    'inbox.notifyTitle': '收件箱已整理',
+    'inbox.notifySummary': '移动 {moved} 个，待确认 {queued} 个，未能分类 {failed} 个',
+    
+    // 新书签分类建议
+    'pending.title': '{count} 个新书签待整理',
+    'pending.accept': '移动到建议的文件夹',
+    'pending.dismiss': '忽略',
+    'pending.acceptAll': '全部接受',
+    'pending.dismissAll': '全部忽略',
+    
+    // 分类规则
+    'rules.tabName': '规则',
+    'rules.title': '分类规则',
+    'rules.description': '按域名、URL 或标题关键词直接指定文件夹和标签，匹配的书签不再调用 AI',
+    'rules.add': '添加规则',
+    'rules.import': '导入',
+    'rules.export': '导出',
+    'rules.empty': '暂无规则',
+    'rules.name': '规则名称（可选）',
+    'rules.targetFolder': '目标文件夹，如 工作/代码仓库',
+    'rules.tags': '标签，用逗号分隔（可选）',
+    'rules.moveUp': '上移',
+    'rules.moveDown': '下移',
+    'rules.test': '用我的书签测试',
+    'rules.delete': '删除',
+    'rules.match.domain': '域名',
+    'rules.match.urlGlob': 'URL 通配符',
+    'rules.match.urlRegex': 'URL 正则',
+    'rules.match.titleKeyword': '标题关键词',
+    'rules.placeholder.domain': 'arxiv.org',
+    'rules.placeholder.urlGlob': 'github.com/my-org/*',
+    'rules.placeholder.urlRegex': '^https://docs\\.',
+    'rules.placeholder.titleKeyword': '周报, 会议纪要',
+    'rules.testResult': '匹配 {count} 个书签',
+    'rules.testShadowed': '（其中 {count} 个会先被前面的规则匹配）',
+    'rules.testMore': '…还有 {count} 个',
+    'rules.orderHint': '规则按从上到下的顺序匹配，书签只会使用第一条匹配的规则。修改后需保存才会生效。',
+    
+    // 纠正示例
+    'corrections.title': '已学习的纠正',
+    'corrections.description': '你修改过的 AI 建议，会作为示例帮助 AI 按你的习惯分类',
+    'corrections.empty': '暂无纠正记录',
+    'corrections.clearAll': '全部清空',
+    'corrections.delete': '删除',
+    
+    // AI 用量
+    'usage.title': 'AI 用量',
+    'usage.description': '每次 AI 调用的 Token 与费用记录',
+    'usage.today': '今日',
+    'usage.thisMonth': '本月',
+    'usage.summary': '{requests} 次请求 · {tokens} Tokens',
+    'usage.budget': '本月预算',
+    'usage.daily': '每日用量',
+    'usage.monthly': '每月用量',
+    'usage.period': '日期',
+    'usage.requests': '请求数',
+    'usage.inputTokens': '输入 Tokens',
+    'usage.outputTokens': '输出 Tokens',
+    'usage.cost': '费用',
+    'usage.noRecords': '暂无 AI 调用记录',
+    'usage.estimatedHint': '部分接口未返回用量，对应记录的 Token 数为本地估算。',
+    'usage.unknownCostHint': '部分模型价格未知，未计入费用。',
+    
     // 标签可视化
     'tags.title': '标签可视化',
     'tags.description': '按标签下的书签数量展示，气泡越大表示该标签下的书签越多',
@@ -207,6 +469,7 @@ export const TRANSLATIONS = {
     'popup.existingFolder': '现有文件夹',
     'popup.createFolder': '创建文件夹',
     'popup.quickMode': '快速',
+    'popup.alreadySaved': '该页面已收藏 {count} 次：',
     
     // 按钮
     'btn.save': '保存设置',
@@ -231,8 +494,13 @@ export const TRANSLATIONS = {
     'ai.description': 'Choose between cloud AI service or local Ollama model',
     'ai.cloudApi': 'Cloud API',
     'ai.localOllama': 'Local Ollama',
-    'ai.cloudApiDesc': 'OpenAI / DeepSeek / Moonshot',
+    'ai.cloudApiDesc': 'OpenAI Compatible / Anthropic / Gemini',
     'ai.localOllamaDesc': 'No API Key needed, fully local',
+    'ai.provider': 'API Protocol',
+    'ai.providerHint': 'For LM Studio, vLLM and other local servers, choose OpenAI Compatible and enter their address; any API Key works',
+    'ai.capStreaming': 'Streaming',
+    'ai.capJsonMode': 'JSON Mode',
+    'ai.capEmbeddings': 'Embeddings',
     'ai.baseUrl': 'Base URL',
     'ai.apiKey': 'API Key',
     'ai.modelName': 'Model Name',
@@ -247,16 +515,60 @@ export const TRANSLATIONS = {
     'ai.ollamaHint': 'Please ensure Ollama service is running locally',
     'ai.testSuccess': 'Connection successful',
     'ai.testFailed': 'Connection failed',
+    'ai.maxRetries': 'Retries on Failure',
+    'ai.retryHint': 'Rate-limited (429) or temporarily unavailable (5xx) requests are retried with exponential backoff, honoring the server\'s Retry-After',
+    'ai.requestTimeout': 'Request Timeout (seconds)',
     'ai.goSettings': 'Go to Settings',
+    'ai.pricing': 'Model Price (USD / 1M tokens)',
+    'ai.inputPrice': 'Input Price',
+    'ai.outputPrice': 'Output Price',
+    'ai.pricingHint': 'Preset models include reference prices; enter prices for custom models here for cost estimates',
     
     // Organize Settings
     'organize.maxCount': 'Max Organize Count',
+    'organize.batchSize': 'Bookmarks per Batch',
+    'organize.concurrency': 'Concurrent Requests',
+    'organize.concurrencyHint': 'Number of batch requests sent at the same time; higher values may hit provider rate limits',
+    'organize.fetchMetadata': 'Fetch Page Metadata',
+    'organize.fetchMetadataHint': 'Read page descriptions and site names in the background before organizing to help the AI classify more accurately',
+    'organize.learnFromCorrections': 'Learn from my corrections',
+    'organize.learnFromCorrectionsHint': 'Remember when you change the folder the AI suggested and use those choices as examples in later requests',
+    'organize.embeddings': 'Embedding Classification',
+    'organize.embeddingsHint': 'Classify by semantic similarity to the contents of each folder first and send only ambiguous bookmarks to the chat model, saving time and cost',
+    'organize.embeddingsUnsupported': '{provider} has no embeddings endpoint; the chat model will be used instead',
+    'organize.embeddingModel': 'Embedding Model',
+    'organize.embeddingMargin': 'Similarity Margin',
+    'organize.embeddingMarginHint': 'Use the closest folder directly when it beats the runner-up by at least this much; otherwise ask the chat model',
+    'organize.embeddingStats': '{count} vectors cached',
+    'organize.clearEmbeddings': 'Clear Vectors',
+    'organize.autoOrganize': 'Auto-organize new bookmarks',
+    'organize.autoOrganizeHint': 'Classify bookmarks created with the browser star button using your rules first, then the AI. Suggestions below the auto-accept threshold still need confirmation',
+    'organize.autoOrganizeOff': 'Off',
+    'organize.autoOrganizeSuggest': 'Ask me first',
+    'organize.autoOrganizeMove': 'Move automatically',
+    'organize.taxonomyDepth': 'Max Taxonomy Depth',
+    'organize.taxonomyChildren': 'Max Subfolders per Folder',
+    'organize.taxonomyHint': 'Size limits for the taxonomy the AI designs in restructure mode',
+    'organize.autoAccept': 'Auto-accept Confidence',
+    'organize.autoAcceptHint': 'Batch results below this confidence go to "Needs Review" and are not applied by default',
+    'ai.rateLimit': 'Rate Limit ({provider})',
+    'ai.requestsPerMinute': 'Requests per Minute',
+    'ai.tokensPerMinute': 'Tokens per Minute',
+    'ai.rateLimitHint': 'Saved per provider; 0 means unlimited. Requests over the limit wait in a queue',
+    'ai.monthlyBudget': 'Monthly Budget (USD)',
+    'ai.monthlyBudgetHint': 'AI requests stop once this month\'s spending reaches the cap; 0 means unlimited',
+    'ai.cache': 'Result Cache Lifetime (days)',
+    'ai.cacheHint': 'Classification results for the same bookmark, folder list and model are reused without billing again; 0 disables the cache',
+    'ai.cacheStats': '{count} cached results, about {size}',
+    'ai.clearCache': 'Clear Cache',
     'organize.tokenThreshold': 'Token Warning Threshold',
     'organize.tokenDescription': 'Will prompt for batch processing if exceeded to avoid excessive Token consumption',
     'organize.tokenEstimate': 'Token Estimate for Batch Processing',
     'organize.basedOn': 'Based on first 50 bookmarks estimate',
     'organize.estimatedTokens': 'Estimated Tokens',
     'organize.estimatedCost': 'Estimated Cost',
+    'organize.tokenBreakdown': 'Input {input} / Output {output} tokens',
+    'organize.unknownPrice': 'Unknown (set the model price in settings)',
     
     // Batch Organize
     'batch.title': 'Batch Organize',
@@ -274,23 +586,122 @@ export const TRANSLATIONS = {
     'batch.selectAtLeastOne': 'Please select at least one bookmark',
     'batch.pleaseConfigAI': 'Please configure AI settings (Cloud API or Local Ollama)',
     'batch.processingProgress': 'Processing Progress',
-    'batch.batchInfo': 'Processing batch {current} / {total}',
+    'batch.batchInfo': 'Completed {current} / {total} batches',
+    'batch.fetchingMetadata': 'Reading page metadata...',
+    'batch.embedding': 'Computing embeddings...',
     'batch.snapshotCreated': 'Snapshot auto-created, can rollback anytime',
     'batch.analyzed': 'Analyzed',
     'batch.willMove': 'Will be moved',
     'batch.newFolders': 'New folders',
     'batch.willCreateFolders': 'Will create the following new folders',
-    'batch.moreChanges': '{count} more changes...',
+    'batch.acceptAll': 'Accept All',
+    'batch.rejectAll': 'Reject All',
+    'batch.rejectNewFolders': 'Reject New Folders',
+    'batch.acceptAbove': 'Accept Only Confidence ≥',
+    'batch.acceptedCount': '{accepted} / {total} accepted',
+    'batch.renameFolder': 'Rename new folder',
+    'batch.unchanged': 'Unchanged',
+    'batch.from': 'From:',
+    'batch.needsReview': 'Needs Review',
+    'batch.needsReviewHint': 'Low confidence, not applied by default',
     'batch.organizeComplete': 'Organize Complete!',
     'batch.organizeSuccess': 'Successfully organized {count} bookmarks',
     'batch.canRollback': 'To undo, rollback to this snapshot in "History"',
     'batch.continueOrganize': 'Continue Organizing',
+    'batch.cancelProcessing': 'Cancel Processing',
+    'batch.failedBatches': '{count} batches failed; those bookmarks will stay where they are',
+    'batch.failedBatchItem': 'Batch {index} ({count} bookmarks): {error}',
+    'batch.unclassified': 'Unclassified',
+    'batch.bypassCache': 'Bypass Cache',
+    'batch.bypassCacheHint': 'Ask the AI again for every bookmark (new results are still cached)',
+    'batch.cachedResults': '{count} bookmarks used cached results and were not billed again',
+    'batch.ruleMatchedResults': '{count} bookmarks were classified by your rules without calling the AI',
+    'batch.embeddingMatchedResults': '{count} bookmarks were classified by embedding similarity without calling the chat model',
+    'batch.unclassifiedHint': '{count} bookmarks got no valid category and will stay where they are',
+    
+    // Restructure Mode (AI-designed taxonomy)
+    'taxonomy.restructure': 'Restructure Mode',
+    'taxonomy.restructureHint': 'Let the AI design one consistent folder taxonomy for your whole library first, then classify every bookmark strictly into it',
+    'taxonomy.generate': 'Generate Taxonomy',
+    'taxonomy.step': 'Review Taxonomy',
+    'taxonomy.title': 'Folder Taxonomy',
+    'taxonomy.description': 'Up to {depth} levels and {children} subfolders per folder. Rename, add or delete folders as needed',
+    'taxonomy.generating': 'Designing a taxonomy from {count} bookmarks...',
+    'taxonomy.regenerate': 'Regenerate',
+    'taxonomy.apply': 'Organize with This Taxonomy',
+    'taxonomy.folderName': 'Folder name',
+    'taxonomy.addChild': 'Add subfolder',
+    'taxonomy.addRoot': 'Add Top-level Folder',
+    'taxonomy.delete': 'Delete',
+    'taxonomy.empty': 'No folders yet',
+    'taxonomy.folderCount': '{count} folders in total',
+    'taxonomy.invalid': 'Folder names cannot be empty or duplicated among siblings',
     
     // Clean Master
     'clean.title': 'Clean Master',
     'clean.brokenLinks': 'Broken Links',
     'clean.duplicates': 'Duplicate Bookmarks',
-    'clean.brokenDesc': 'Scan and delete inaccessible links (may be affected by anti-crawling mechanisms)',
+    'clean.brokenDesc': 'Requests each bookmark and finds unreachable links by real status codes and network errors, plus soft 404s and parked domains that return "page not found" or domain-sale content (401/403/429 usually mean bot blocking and are not counted as broken)',
+    'clean.checkingLinks': 'Checking {checked}/{total}',
+    'clean.pauseScan': 'Pause',
+    'clean.resumeScan': 'Resume',
+    'clean.scanIncremental': 'Incremental Scan',
+    'clean.scanIncrementalHint': 'Skip links checked in the last 7 days',
+    'clean.scanFull': 'Full Rescan',
+    'clean.scanFinished': 'Link scan finished',
+    'clean.lastScan': 'Last scan: {time}, checked {checked}, skipped {skipped} recently checked links',
+    'clean.consecutiveFailures': 'Failed {count} times in a row',
+    'clean.noBrokenLinks': 'No broken links found',
+    'clean.link.ok': 'OK',
+    'clean.link.redirected': 'Redirected',
+    'clean.link.blocked': 'Access restricted',
+    'clean.link.not-found': 'Not found',
+    'clean.link.soft-404': 'Soft 404',
+    'clean.link.parked': 'Parked domain',
+    'clean.link.http-error': 'HTTP error',
+    'clean.link.dns': 'DNS failure',
+    'clean.link.tls': 'Certificate error',
+    'clean.link.timeout': 'Timed out',
+    'clean.link.network': 'Connection failed',
+    'clean.link.skipped': 'Skipped',
+    'clean.category.all': 'All',
+    'clean.category.unreachable': 'Unreachable',
+    'clean.category.soft-404': 'Soft 404',
+    'clean.category.parked': 'Parked',
+    'clean.category.flaky': 'Flaky',
+    'clean.evidence.title': 'Title',
+    'clean.evidence.body': 'Content',
+    'clean.evidence.probe': 'Same as a nonexistent page',
+    'clean.evidence.home-redirect': 'Redirects to home page',
+    'clean.evidence.parking-marker': 'Parking marker',
+    'clean.evidence.parking-host': 'Redirects to parking service',
+    'moved.title': 'Moved Links',
+    'moved.desc': 'These bookmarks permanently redirect (301/308) to a new location and can be updated to it. A snapshot is created first',
+    'moved.count': '{count} bookmarks have moved',
+    'moved.updateSelected': 'Update Selected',
+    'moved.updated': 'Updated {count} bookmark URLs',
+    'moved.crossDomain': 'Different domain, please review',
+    'zombie.title': 'Zombie Bookmarks',
+    'zombie.desc': 'Find bookmarks with no recorded visits, not visited for a long time, or added long ago, and archive or delete them in bulk. A snapshot is created first',
+    'zombie.historyHint': 'Grant access to browsing history to check visits; otherwise only the date added is used',
+    'zombie.grantHistory': 'Allow History Access',
+    'zombie.historyRetention': 'Browsers only keep history for a limited time (about 90 days in Chrome), so at most 3 months can be checked; older visits cannot be found',
+    'zombie.unvisitedMonths': 'Not visited for (months, max 3)',
+    'zombie.maxAgeYears': 'Added more than (years, 0 = off)',
+    'zombie.count': '{count} zombie bookmarks',
+    'zombie.none': 'No zombie bookmarks found',
+    'zombie.sort.added': 'By Date Added',
+    'zombie.sort.visited': 'By Last Visit',
+    'zombie.reason.no-visits': 'No visits in retained history',
+    'zombie.reason.not-visited': 'Not visited recently',
+    'zombie.reason.old': 'Added long ago',
+    'zombie.addedAt': 'Added {date}',
+    'zombie.lastVisit': 'Last visited {date} ({count} visits)',
+    'zombie.archiveSelected': 'Archive Selected',
+    'zombie.archiveFolder': 'Archive',
+    'zombie.archived': 'Moved {count} bookmarks to "{folder}"',
+    'zombie.deleted': 'Deleted {count} bookmarks',
+    'zombie.confirmDelete': 'Delete the {count} selected zombie bookmarks? This can be rolled back from History',
     'clean.duplicateDesc': 'Find and merge duplicate bookmarks',
     'clean.noBroken': 'No broken links found',
     'clean.noDuplicates': 'No duplicate bookmarks currently',
@@ -301,6 +712,36 @@ export const TRANSLATIONS = {
     'clean.foundBroken': 'Found {count} broken links',
     'clean.foundDuplicates': 'Found {count} duplicate groups',
     'clean.deleteSuccess': 'Successfully deleted {count}',
+    'clean.nearDuplicates': 'Find Near-Duplicates',
+    'clean.nearDuplicatesHint': 'Besides identical normalized URLs, match mirrors and mobile versions by title similarity',
+    'clean.semanticDuplicates': 'Match by Content',
+    'clean.semanticDuplicatesHint': 'Compare bookmarks with embeddings; incurs a small API cost',
+    'clean.semanticUnavailable': 'Enable embedding classification in AI settings first',
+    'clean.match.url': 'Same URL',
+    'clean.match.title': 'Similar title',
+    'clean.match.semantic': 'Similar content',
+    'clean.similarity': '{percent}% similar',
+
+    // URL normalization
+    'url.rules': 'URL Normalization',
+    'url.rulesHint': 'Rules for deciding whether two bookmarks point to the same page; used by the duplicate scan, the duplicate warning when saving and the result cache',
+    'url.rule.stripTrackingParams': 'Strip tracking parameters',
+    'url.rule.foldWww': 'Ignore www.',
+    'url.rule.foldMobile': 'Ignore mobile subdomains (m.)',
+    'url.rule.foldAmp': 'Ignore AMP versions',
+    'url.rule.upgradeHttp': 'Treat http as https',
+    'url.rule.stripTrailingSlash': 'Ignore trailing slash',
+    'url.rule.stripDefaultPort': 'Ignore default ports',
+    'url.rule.keepHashRoutes': 'Keep #/ routes',
+    'url.extraTrackingParams': 'Extra tracking parameters',
+    'url.keepParams': 'Always keep parameters',
+    'url.paramsHint': 'Separate parameter names with commas; a trailing * matches a prefix (e.g. utm_*)',
+    'url.cleanTitle': 'Clean URLs',
+    'url.cleanDesc': 'Remove tracking parameters and redundant default ports from bookmark URLs. A snapshot is created first',
+    'url.nothingToClean': 'No URLs need cleaning',
+    'url.cleanCount': '{count} bookmark URLs can be cleaned',
+    'url.cleanSelected': 'Clean Selected',
+    'url.cleaned': 'Cleaned {count} bookmark URLs',
     
     // History
     'history.title': 'History',
@@ -342,6 +783,81 @@ export const TRANSLATIONS = {
     'stats.debugInfo': 'Debug Info',
     'stats.viewRawTree': 'View raw bookmark tree structure',
     
+    // Inbox
+    'inbox.folder': 'Inbox folder',
+    'inbox.folderHint': 'Periodically organize the bookmarks in this folder with AI. A snapshot is created before each run, and bookmarks whose suggestion was dismissed are not organized again',
+    'inbox.disabled': 'Disabled',
+    'inbox.interval': 'Interval',
+    'inbox.intervalValue': '{minutes} min',
+    'inbox.maxItems': 'Max bookmarks per run',
+    'inbox.autoApply': 'Apply automatically',
+    'inbox.autoApplyHint': 'Move bookmarks above the auto-accept threshold right away; when off, every suggestion waits for review in the popup',
+    'inbox.runNow': 'Run Now',
+    'inbox.runFailed': 'Failed to organize the inbox',
+    'inbox.nothingToDo': 'Nothing to organize in the inbox',
+    'inbox.notifyTitle': 'Inbox organized',
+    'inbox.notifySummary': '{moved} moved, {queued} waiting for review, {failed} not classified',
+    
+    // Pending suggestions
+    'pending.title': '{count} new bookmarks to organize',
+    'pending.accept': 'Move to suggested folder',
+    'pending.dismiss': 'Dismiss',
+    'pending.acceptAll': 'Accept All',
+    'pending.dismissAll': 'Dismiss All',
+    
+    // Rules
+    'rules.tabName': 'Rules',
+    'rules.title': 'Classification Rules',
+    'rules.description': 'Send bookmarks to a folder with tags by domain, URL or title keyword; matched bookmarks skip the AI',
+    'rules.add': 'Add Rule',
+    'rules.import': 'Import',
+    'rules.export': 'Export',
+    'rules.empty': 'No rules yet',
+    'rules.name': 'Rule name (optional)',
+    'rules.targetFolder': 'Target folder, e.g. Work/Repos',
+    'rules.tags': 'Tags, comma separated (optional)',
+    'rules.moveUp': 'Move up',
+    'rules.moveDown': 'Move down',
+    'rules.test': 'Test against my bookmarks',
+    'rules.delete': 'Delete',
+    'rules.match.domain': 'Domain',
+    'rules.match.urlGlob': 'URL glob',
+    'rules.match.urlRegex': 'URL regex',
+    'rules.match.titleKeyword': 'Title keyword',
+    'rules.placeholder.domain': 'arxiv.org',
+    'rules.placeholder.urlGlob': 'github.com/my-org/*',
+    'rules.placeholder.urlRegex': '^https://docs\\.',
+    'rules.placeholder.titleKeyword': 'weekly report, meeting notes',
+    'rules.testResult': 'Matches {count} bookmarks',
+    'rules.testShadowed': '({count} of them are matched by an earlier rule first)',
+    'rules.testMore': '…and {count} more',
+    'rules.orderHint': 'Rules are checked from top to bottom and a bookmark uses the first rule it matches. Save to apply your changes.',
+    
+    // Corrections
+    'corrections.title': 'Learned Corrections',
+    'corrections.description': 'Folder suggestions you changed, used as examples so the AI follows your preferences',
+    'corrections.empty': 'No corrections yet',
+    'corrections.clearAll': 'Clear All',
+    'corrections.delete': 'Delete',
+    
+    // AI Usage
+    'usage.title': 'AI Usage',
+    'usage.description': 'Tokens and cost recorded for every AI call',
+    'usage.today': 'Today',
+    'usage.thisMonth': 'This Month',
+    'usage.summary': '{requests} requests · {tokens} tokens',
+    'usage.budget': 'Monthly Budget',
+    'usage.daily': 'Daily Usage',
+    'usage.monthly': 'Monthly Usage',
+    'usage.period': 'Date',
+    'usage.requests': 'Requests',
+    'usage.inputTokens': 'Input Tokens',
+    'usage.outputTokens': 'Output Tokens',
+    'usage.cost': 'Cost',
+    'usage.noRecords': 'No AI calls recorded yet',
+    'usage.estimatedHint': 'Some APIs did not return usage; token counts for those records are local estimates.',
+    'usage.unknownCostHint': 'Some model prices are unknown and are not included in the cost.',
+    
     // Tags
     'tags.title': 'Tag Visualization',
     'tags.description': 'Display by bookmark count per tag, larger bubbles indicate more bookmarks',
@@ -399,6 +915,7 @@ export const TRANSLATIONS = {
     'popup.existingFolder': 'Existing Folder',
     'popup.createFolder': 'Create Folder',
     'popup.quickMode': 'Quick',
+    'popup.alreadySaved': 'This page is already bookmarked ({count}):',
     
     // Buttons
     'btn.save': 'Save Settings',
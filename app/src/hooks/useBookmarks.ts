@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { BookmarkNode } from '@/types';
+import type { BookmarkNode, FolderPath, PageMeta } from '@/types';
 
 // 获取书签树
 export const getBookmarkTree = async (): Promise<BookmarkNode[]> => {
@@ -114,17 +114,78 @@ export const getCurrentTab = async (): Promise<chrome.tabs.Tab> => {
   });
 };
 
-// 获取页面元信息
-export const getPageMeta = async (tabId: number): Promise<{ title: string; description?: string }> => {
+// 获取页面元信息（OpenGraph / Twitter 标签、标题、canonical、语言、关键词和正文摘录）
+export const getPageMeta = async (tabId: number): Promise<PageMeta> => {
   return new Promise((resolve, reject) => {
     chrome.scripting.executeScript(
       {
         target: { tabId },
-        func: () => {
-          const metaDescription = document.querySelector('meta[name="description"]');
+        // 在页面中执行，不能引用外部变量
+        func: (): PageMeta => {
+          const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+          const meta = (selector: string) => clean(document.querySelector(selector)?.getAttribute('content')) || undefined;
+          
+          // 正文摘录：优先语义化容器，否则取段落文字最多的元素
+          const pickMainElement = (): Element => {
+            const semantic = document.querySelector('article, main, [role="main"]');
+            if (semantic) return semantic;
+            
+            const scores = new Map<Element, number>();
+            document.querySelectorAll('p').forEach((p) => {
+              const parent = p.parentElement;
+              if (parent) scores.set(parent, (scores.get(parent) || 0) + clean(p.textContent).length);
+            });
+            let best: Element = document.body;
+            let bestScore = 0;
+            scores.forEach((score, el) => {
+              if (score > bestScore) {
+                best = el;
+                bestScore = score;
+              }
+            });
+            return best;
+          };
+          
+          const paragraphs: string[] = [];
+          let length = 0;
+          for (const p of pickMainElement().querySelectorAll('p, li, pre, blockquote')) {
+            if (p.closest('nav, header, footer, aside, form')) continue;
+            const text = clean(p.textContent);
+            if (text.length < 40) continue;
+            paragraphs.push(text);
+            length += text.length;
+            if (length > 8000) break;
+          }
+          const excerpt = paragraphs.join('\n') || undefined;
+          
+          const headings = Array.from(document.querySelectorAll('h1'))
+            .map(h => clean(h.textContent))
+            .filter(Boolean)
+            .slice(0, 5);
+          
+          const keywords = (meta('meta[name="keywords"]') || '')
+            .split(/[,，]/)
+            .map(k => k.trim())
+            .filter(Boolean)
+            .slice(0, 20);
+          
+          const description = meta('meta[name="description"]')
+            || meta('meta[property="og:description"]')
+            || meta('meta[name="twitter:description"]')
+            || excerpt?.slice(0, 200);
+          
           return {
-            title: document.title,
-            description: metaDescription?.getAttribute('content') || undefined
+            title: clean(document.title) || meta('meta[property="og:title"]') || meta('meta[name="twitter:title"]') || '',
+            description,
+            // 使用 href 属性以得到解析后的绝对地址
+            canonicalUrl: document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href
+              || meta('meta[property="og:url"]'),
+            lang: clean(document.documentElement.lang) || undefined,
+            siteName: meta('meta[property="og:site_name"]'),
+            ogType: meta('meta[property="og:type"]'),
+            keywords,
+            headings,
+            excerpt
           };
         }
       },
@@ -132,7 +193,7 @@ export const getPageMeta = async (tabId: number): Promise<{ title: string; descr
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message));
         } else if (results && results[0]) {
-          resolve(results[0].result as { title: string; description?: string });
+          resolve(results[0].result as PageMeta);
         } else {
           reject(new Error('Failed to get page meta'));
         }
@@ -207,6 +268,142 @@ export const getAllFolders = (nodes: BookmarkNode[]): BookmarkNode[] => {
   return result;
 };
 
+// 文件夹路径分隔符（文件夹标题中的 "/" 转义为 "\/"）
+export const FOLDER_PATH_SEPARATOR = '/';
+
+// 拼接路径
+export const joinFolderPath = (segments: string[]): string => {
+  return segments
+    .map(s => s.replace(/\\/g, '\\\\').replace(/\//g, '\\/'))
+    .join(FOLDER_PATH_SEPARATOR);
+};
+
+// 拆分路径（忽略空段和首尾空白）
+export const splitFolderPath = (path: string): string[] => {
+  const segments: string[] = [];
+  let current = '';
+  
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (char === '\\' && i + 1 < path.length) {
+      current += path[++i];
+    } else if (char === FOLDER_PATH_SEPARATOR) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+  
+  return segments.map(s => s.trim()).filter(Boolean);
+};
+
+// 路径比较时忽略大小写和分隔符两侧的空格
+const normalizeFolderPath = (path: string): string => {
+  return joinFolderPath(splitFolderPath(path)).toLowerCase();
+};
+
+// 获取所有文件夹及其完整路径（排除系统文件夹）
+export const getFolderPaths = (nodes: BookmarkNode[]): FolderPath[] => {
+  const entries: { node: BookmarkNode; segments: string[]; rootTitle: string }[] = [];
+  
+  const traverse = (node: BookmarkNode, segments: string[], rootTitle: string) => {
+    if (node.url) return;
+    
+    // 系统文件夹不计入路径，其子文件夹从头开始
+    if (isSystemFolder(node)) {
+      node.children?.forEach(child => traverse(child, [], node.title));
+      return;
+    }
+    
+    const current = [...segments, node.title];
+    entries.push({ node, segments: current, rootTitle });
+    node.children?.forEach(child => traverse(child, current, rootTitle));
+  };
+  
+  nodes.forEach(node => traverse(node, [], ''));
+  
+  // 不同系统文件夹下存在相同路径时，带上系统文件夹名以示区分
+  const pathCounts = new Map<string, number>();
+  for (const { segments } of entries) {
+    const key = normalizeFolderPath(joinFolderPath(segments));
+    pathCounts.set(key, (pathCounts.get(key) ?? 0) + 1);
+  }
+  
+  return entries.map(({ node, segments, rootTitle }) => {
+    const isDuplicate = (pathCounts.get(normalizeFolderPath(joinFolderPath(segments))) ?? 0) > 1;
+    return {
+      id: node.id,
+      parentId: node.parentId,
+      title: node.title,
+      path: joinFolderPath(isDuplicate && rootTitle ? [rootTitle, ...segments] : segments)
+    };
+  });
+};
+
+// 两个文件夹路径是否指向同一文件夹（与 findFolderByPath 的匹配规则一致）
+export const isSameFolderPath = (a: string, b: string): boolean => {
+  return normalizeFolderPath(a) === normalizeFolderPath(b);
+};
+
+// 按路径查找文件夹（同名兄弟文件夹取第一个）
+export const findFolderByPath = (folders: FolderPath[], path: string): FolderPath | undefined => {
+  const target = normalizeFolderPath(path);
+  return folders.find(f => normalizeFolderPath(f.path) === target);
+};
+
+// 确保路径对应的文件夹存在：沿用已存在的最长前缀，其余各级依次新建
+// 顶层文件夹不存在时在 defaultParentId 下创建；新建的文件夹会追加到 folders 中
+export const ensureFolderPath = async (
+  folders: FolderPath[],
+  path: string,
+  defaultParentId: string
+): Promise<FolderPath> => {
+  const segments = splitFolderPath(path);
+  if (segments.length === 0) {
+    throw new Error(`无效的文件夹路径: ${path}`);
+  }
+  
+  // 查找已存在的最长前缀
+  let parent: FolderPath | undefined;
+  let depth = segments.length;
+  for (; depth > 0; depth--) {
+    parent = findFolderByPath(folders, joinFolderPath(segments.slice(0, depth)));
+    if (parent) break;
+  }
+  if (parent && depth === segments.length) return parent;
+  
+  for (let i = depth; i < segments.length; i++) {
+    const parentId = parent?.id ?? defaultParentId;
+    const node = await createFolder(parentId, segments[i]);
+    const created: FolderPath = {
+      id: node.id,
+      parentId,
+      title: node.title,
+      path: joinFolderPath(parent ? [...splitFolderPath(parent.path), segments[i]] : [segments[i]])
+    };
+    folders.push(created);
+    parent = created;
+  }
+  
+  return parent as FolderPath;
+};
+
+// 查找书签栏 ID（找不到时使用 Chrome 默认的 '1'）
+export const findBookmarkBarId = (nodes: BookmarkNode[]): string => {
+  for (const node of nodes) {
+    if (node.title === '书签栏' || node.title === 'Bookmarks Bar') {
+      return node.id;
+    }
+    if (node.children) {
+      const found = findBookmarkBarId(node.children);
+      if (found !== '1') return found;
+    }
+  }
+  return '1';
+};
+
 // 统计书签信息（排除系统文件夹）
 export const getBookmarkStats = (nodes: BookmarkNode[]) => {
   let bookmarkCount = 0;
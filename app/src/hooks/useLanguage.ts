@@ -4,7 +4,7 @@ import { TRANSLATIONS, type TranslationKey, type Language } from '@/config';
 const STORAGE_KEY = 'asbo_language';
 
 // 获取存储的语言设置
-const getStoredLanguage = async (): Promise<Language> => {
+export const getStoredLanguage = async (): Promise<Language> => {
   return new Promise((resolve) => {
     chrome.storage.sync.get([STORAGE_KEY], (result) => {
       resolve((result[STORAGE_KEY] as Language) || 'zh');
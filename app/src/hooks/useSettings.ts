@@ -1,15 +1,40 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { AISettings } from '@/types';
 import { testAIConnection as testAI } from '@/services/aiService';
+import { getProvider, inferProviderFromUrl } from '@/services/aiProviders';
+import { DEFAULT_URL_RULES } from '@/services/urlNormalizer';
 
 const DEFAULT_SETTINGS: AISettings = {
+  provider: 'openai',
   baseUrl: 'https://api.openai.com/v1',
   apiKey: '',
   modelName: 'gpt-4o-mini',
   maxOrganizeCount: 50,
   tokenWarningThreshold: 10000,
   languagePreference: 'zh',
-  ollamaUrl: 'http://localhost:11434'
+  ollamaUrl: 'http://localhost:11434',
+  maxRetries: 3,
+  requestTimeout: 60,
+  organizeBatchSize: 20,
+  organizeConcurrency: 2,
+  rateLimits: {},
+  customPricing: {},
+  monthlyBudget: 0,
+  cacheTTLDays: 30,
+  fetchPageMetadata: true,
+  taxonomyMaxDepth: 3,
+  taxonomyMaxChildren: 8,
+  autoAcceptThreshold: 0.7,
+  learnFromCorrections: true,
+  autoOrganizeMode: 'off',
+  inboxFolderId: '',
+  inboxIntervalMinutes: 60,
+  inboxMaxItems: 20,
+  inboxAutoApply: false,
+  embeddingsEnabled: false,
+  embeddingModel: 'text-embedding-3-small',
+  embeddingMargin: 0.05,
+  urlRules: DEFAULT_URL_RULES
 };
 
 // 获取设置
@@ -17,7 +42,15 @@ export const getSettings = async (): Promise<AISettings> => {
   return new Promise((resolve) => {
     chrome.storage.sync.get(['settings'], (result) => {
       if (result.settings) {
-        resolve({ ...DEFAULT_SETTINGS, ...result.settings });
+        const stored = result.settings as Partial<AISettings>;
+        resolve({
+          ...DEFAULT_SETTINGS,
+          ...stored,
+          // 旧版设置没有 provider 字段，根据 Base URL 推断
+          provider: stored.provider ?? inferProviderFromUrl(stored.baseUrl || ''),
+          // 新增的规则项使用默认值
+          urlRules: { ...DEFAULT_URL_RULES, ...stored.urlRules }
+        });
       } else {
         resolve(DEFAULT_SETTINGS);
       }
@@ -42,13 +75,9 @@ export const saveSettings = async (settings: AISettings): Promise<void> => {
 export const validateSettings = (settings: AISettings): { valid: boolean; missing: string[] } => {
   const missing: string[] = [];
   
-  // 判断是否为 Ollama 模式
-  const isOllama = settings.baseUrl.includes('localhost') || 
-                   settings.baseUrl.includes('127.0.0.1') ||
-                   settings.ollamaUrl !== 'http://localhost:11434' ||
-                   (settings.baseUrl.includes('192.168.') || settings.baseUrl.includes('10.0.0.'));
+  const provider = getProvider(settings.provider);
   
-  if (isOllama) {
+  if (provider.id === 'ollama') {
     // Ollama 模式：只需要 ollamaUrl 和 modelName
     if (!settings.ollamaUrl) {
       missing.push('Ollama 服务地址');
@@ -57,8 +86,8 @@ export const validateSettings = (settings: AISettings): { valid: boolean; missin
       missing.push('模型名称');
     }
   } else {
-    // 云端 API 模式：需要 apiKey、baseUrl 和 modelName
-    if (!settings.apiKey) {
+    // 云端 API 模式：需要 baseUrl 和 modelName，部分提供商还需要 apiKey
+    if (provider.requiresApiKey && !settings.apiKey) {
       missing.push('API Key');
     }
     if (!settings.baseUrl) {
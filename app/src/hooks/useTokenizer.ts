@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { loadTokenizer, getTokenCounter, isTokenizerReady } from '@/services/tokenizer';
+import type { CountTokensFn } from '@/services/tokenizer';
+
+// 加载 BPE 编码器，返回当前的 Token 计数函数（加载完成后切换为 BPE 计数，以触发重新计算 Token 预估）
+export const useTokenizer = (): CountTokensFn => {
+  const [counter, setCounter] = useState<CountTokensFn>(() => getTokenCounter());
+
+  useEffect(() => {
+    if (isTokenizerReady()) return;
+    let cancelled = false;
+    loadTokenizer().then(() => {
+      if (!cancelled) setCounter(() => getTokenCounter());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return counter;
+};
@@ -0,0 +1,98 @@
+import type { AISettings, AICacheEntry } from '@/types';
+import { getCacheEntries, putCacheEntries } from '@/services/storageService';
+import { normalizeUrl } from '@/services/urlNormalizer';
+
+// 缓存的结果类型（与 Prompt 一一对应）
+export type AICacheKind = 'organize' | 'organizeStrict' | 'smartSave';
+
+// 计算缓存键所需的书签信息
+export interface AICacheInput {
+  url: string;
+  title: string;
+  // 影响结果的其他 Prompt 内容（如纠正示例的指纹）
+  context?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 缓存键格式版本：键的组成或 URL 规范化方式变化时递增，使旧的缓存条目不再命中
+// 2：改用可配置的网址规范化规则
+const CACHE_KEY_VERSION = 2;
+
+// 计算 SHA-256 摘要（十六进制）
+export const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 缓存是否启用（有效期为 0 表示关闭缓存）
+export const isCacheEnabled = (settings: Pick<AISettings, 'cacheTTLDays'>): boolean => {
+  return settings.cacheTTLDays > 0;
+};
+
+// 计算文件夹列表摘要（与顺序无关）
+export const hashFolderList = (folders: string[]): Promise<string> => {
+  return sha256([...folders].sort().join('\n'));
+};
+
+// 构建缓存键：键版本 + 结果类型 + Prompt 版本 + 模型 + 输出语言 + 文件夹列表 + 规范化 URL + 标题 + 附加内容
+// URL 按用户配置的规范化规则处理，与重复书签检测判断为同一网址的书签共用缓存
+export const buildCacheKey = (
+  kind: AICacheKind,
+  promptVersion: number,
+  settings: Pick<AISettings, 'provider' | 'modelName' | 'languagePreference' | 'urlRules'>,
+  foldersHash: string,
+  input: AICacheInput
+): Promise<string> => {
+  return sha256([
+    `v${CACHE_KEY_VERSION}`,
+    kind,
+    promptVersion,
+    `${settings.provider}:${settings.modelName}`,
+    settings.languagePreference,
+    foldersHash,
+    normalizeUrl(input.url, settings.urlRules),
+    input.title.trim(),
+    input.context ?? ''
+  ].join('\u0000'));
+};
+
+// 读取未过期的缓存结果
+export const readCache = async <T>(
+  settings: Pick<AISettings, 'cacheTTLDays'>,
+  keys: string[]
+): Promise<Map<string, T>> => {
+  const result = new Map<string, T>();
+  if (!isCacheEnabled(settings) || keys.length === 0) return result;
+
+  try {
+    const entries = await getCacheEntries(keys, settings.cacheTTLDays * DAY_MS);
+    entries.forEach((entry, key) => result.set(key, entry.value as T));
+  } catch (e) {
+    // 缓存不可用时按未命中处理
+    console.warn('读取 AI 结果缓存失败:', e);
+  }
+  return result;
+};
+
+// 写入缓存结果
+export const writeCache = async (
+  settings: Pick<AISettings, 'cacheTTLDays' | 'modelName'>,
+  values: Map<string, unknown>
+): Promise<void> => {
+  if (!isCacheEnabled(settings) || values.size === 0) return;
+
+  const now = Date.now();
+  const entries: AICacheEntry[] = [...values].map(([key, value]) => ({
+    key,
+    value,
+    model: settings.modelName,
+    createdAt: now
+  }));
+
+  try {
+    await putCacheEntries(entries);
+  } catch (e) {
+    console.warn('写入 AI 结果缓存失败:', e);
+  }
+};
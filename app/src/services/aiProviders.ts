@@ -0,0 +1,317 @@
+import type { AISettings, AIProviderId, AIProviderCapabilities, AIRateLimit, AIUsage } from '@/types';
+
+// 发送给模型的系统提示词
+export const SYSTEM_PROMPT = 'You are a helpful assistant that outputs only valid JSON.';
+
+// 构建请求所需的配置
+export type AIRequestConfig = Pick<AISettings, 'baseUrl' | 'apiKey' | 'modelName' | 'ollamaUrl'>;
+
+// 构建请求时的选项
+export interface AIRequestOptions {
+  stream: boolean;
+  // 启用提供商的 JSON 输出模式（仅在 capabilities.jsonMode 为 true 时生效）
+  json?: boolean;
+}
+
+// 适配器构建出的 HTTP 请求
+export interface AIHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+// AI 服务提供商定义
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  // 是否需要经 background script 转发（绕过 CORS）
+  proxied: boolean;
+  capabilities: AIProviderCapabilities;
+  // 默认速率限制（参考各平台入门档位的配额）
+  defaultRateLimit: AIRateLimit;
+  // 构建对话请求
+  buildChatRequest: (config: AIRequestConfig, prompt: string, options: AIRequestOptions) => AIHttpRequest;
+  // 解析非流式响应，返回模型输出文本
+  parseChatResponse: (data: unknown) => string;
+  // 解析流式响应中一条 SSE data（已解析的 JSON），返回增量文本
+  parseStreamChunk: (data: unknown) => string;
+  // 解析响应或流式数据块中的 Token 用量，未包含时返回 null
+  parseUsage: (data: unknown) => Partial<AIUsage> | null;
+  // 构建嵌入请求（config.modelName 为嵌入模型，仅在 capabilities.embeddings 为 true 时提供）
+  buildEmbeddingRequest?: (config: AIRequestConfig, inputs: string[]) => AIHttpRequest;
+  // 解析嵌入响应，返回与输入顺序一致的向量
+  parseEmbeddingResponse?: (data: unknown) => number[][];
+}
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+// 各接口响应中用到的字段
+interface OpenAIChatResponse {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+interface OpenAIEmbeddingResponse {
+  data?: { index?: number; embedding?: number[] }[];
+}
+
+interface OllamaEmbedResponse {
+  embeddings?: number[][];
+}
+
+interface GeminiEmbeddingResponse {
+  embeddings?: { values?: number[] }[];
+}
+
+interface OllamaGenerateResponse {
+  response?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessageResponse {
+  content?: { type: string; text?: string }[];
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+// 组装用量，两个字段都缺失时返回 null
+const toUsage = (promptTokens?: number, completionTokens?: number): Partial<AIUsage> | null => {
+  if (promptTokens === undefined && completionTokens === undefined) return null;
+  return { promptTokens, completionTokens };
+};
+
+// OpenAI 兼容接口的请求头：LM Studio / vLLM 等本地服务通常不需要 API Key，未填写时不发送
+const openaiHeaders = (config: AIRequestConfig): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+});
+
+// OpenAI 兼容接口（OpenAI / DeepSeek / Kimi / LM Studio / vLLM 等）
+const openaiProvider: AIProvider = {
+  id: 'openai',
+  name: 'OpenAI Compatible',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: false,
+  proxied: false,
+  capabilities: { streaming: true, jsonMode: true, embeddings: true },
+  defaultRateLimit: { requestsPerMinute: 60, tokensPerMinute: 150000 },
+  buildChatRequest: (config, prompt, options) => {
+    return {
+      url: `${trimSlash(config.baseUrl)}/chat/completions`,
+      headers: openaiHeaders(config),
+      body: {
+        model: config.modelName,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt }
+        ],
+        stream: options.stream,
+        // 流式响应在最后一个数据块中返回用量
+        ...(options.stream ? { stream_options: { include_usage: true } } : {}),
+        temperature: 0.3,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {})
+      }
+    };
+  },
+  parseChatResponse: (data) => (data as OpenAIChatResponse)?.choices?.[0]?.message?.content || '',
+  parseStreamChunk: (data) => (data as OpenAIChatResponse)?.choices?.[0]?.delta?.content || '',
+  parseUsage: (data) => {
+    const usage = (data as OpenAIChatResponse)?.usage;
+    return usage ? toUsage(usage.prompt_tokens, usage.completion_tokens) : null;
+  },
+  buildEmbeddingRequest: (config, inputs) => ({
+    url: `${trimSlash(config.baseUrl)}/embeddings`,
+    headers: openaiHeaders(config),
+    body: { model: config.modelName, input: inputs }
+  }),
+  // 部分兼容接口不保证顺序，按 index 排序
+  parseEmbeddingResponse: (data) => {
+    const items = [...((data as OpenAIEmbeddingResponse)?.data || [])];
+    items.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    return items.map(item => item.embedding || []);
+  }
+};
+
+// Ollama 原生接口
+const ollamaProvider: AIProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  defaultBaseUrl: 'http://localhost:11434',
+  requiresApiKey: false,
+  proxied: true,
+  // 经 background 转发时不支持流式输出
+  capabilities: { streaming: false, jsonMode: true, embeddings: true },
+  // 本地模型不限速
+  defaultRateLimit: { requestsPerMinute: 0, tokensPerMinute: 0 },
+  buildChatRequest: (config, prompt, options) => ({
+    url: `${trimSlash(config.ollamaUrl || 'http://localhost:11434')}/api/generate`,
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      model: config.modelName || 'llama2',
+      system: SYSTEM_PROMPT,
+      prompt,
+      stream: options.stream,
+      ...(options.json ? { format: 'json' } : {})
+    }
+  }),
+  parseChatResponse: (data) => (data as OllamaGenerateResponse)?.response || '',
+  parseStreamChunk: (data) => (data as OllamaGenerateResponse)?.response || '',
+  parseUsage: (data) => {
+    const parsed = data as OllamaGenerateResponse;
+    return toUsage(parsed?.prompt_eval_count, parsed?.eval_count);
+  },
+  buildEmbeddingRequest: (config, inputs) => ({
+    url: `${trimSlash(config.ollamaUrl || 'http://localhost:11434')}/api/embed`,
+    headers: { 'Content-Type': 'application/json' },
+    body: { model: config.modelName, input: inputs }
+  }),
+  parseEmbeddingResponse: (data) => (data as OllamaEmbedResponse)?.embeddings || []
+};
+
+// Anthropic Messages 接口
+const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  requiresApiKey: true,
+  proxied: false,
+  capabilities: { streaming: true, jsonMode: false, embeddings: false },
+  defaultRateLimit: { requestsPerMinute: 50, tokensPerMinute: 40000 },
+  buildChatRequest: (config, prompt, options) => ({
+    url: `${trimSlash(config.baseUrl)}/messages`,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': config.apiKey,
+      'anthropic-version': '2023-06-01',
+      // 允许扩展页面直接从浏览器调用
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    body: {
+      model: config.modelName,
+      max_tokens: 4096,
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: prompt }],
+      stream: options.stream,
+      temperature: 0.3
+    }
+  }),
+  parseChatResponse: (data) => {
+    const blocks = (data as AnthropicMessageResponse)?.content || [];
+    return blocks.filter(b => b.type === 'text').map(b => b.text || '').join('');
+  },
+  parseStreamChunk: (data) => {
+    const parsed = data as AnthropicStreamEvent;
+    if (parsed?.type === 'content_block_delta' && parsed.delta?.type === 'text_delta') {
+      return parsed.delta.text || '';
+    }
+    return '';
+  },
+  // 流式响应中 message_start 带输入用量，message_delta 带输出用量
+  parseUsage: (data) => {
+    const parsed = data as AnthropicStreamEvent;
+    const usage = parsed?.message?.usage ?? parsed?.usage;
+    return usage ? toUsage(usage.input_tokens, usage.output_tokens) : null;
+  }
+};
+
+// 提取 Gemini 响应中的文本
+const extractGeminiText = (data: unknown): string => {
+  const parts = (data as GeminiResponse)?.candidates?.[0]?.content?.parts || [];
+  return parts.map(p => p.text || '').join('');
+};
+
+// Gemini 原生接口
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  requiresApiKey: true,
+  proxied: false,
+  capabilities: { streaming: true, jsonMode: true, embeddings: true },
+  defaultRateLimit: { requestsPerMinute: 15, tokensPerMinute: 1000000 },
+  buildChatRequest: (config, prompt, options) => {
+    const action = options.stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    return {
+      url: `${trimSlash(config.baseUrl)}/models/${config.modelName}:${action}`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.apiKey
+      },
+      body: {
+        systemInstruction: { parts: [{ text: SYSTEM_PROMPT }] },
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.3,
+          ...(options.json ? { responseMimeType: 'application/json' } : {})
+        }
+      }
+    };
+  },
+  parseChatResponse: extractGeminiText,
+  parseStreamChunk: extractGeminiText,
+  parseUsage: (data) => {
+    const usage = (data as GeminiResponse)?.usageMetadata;
+    return usage ? toUsage(usage.promptTokenCount, usage.candidatesTokenCount) : null;
+  },
+  buildEmbeddingRequest: (config, inputs) => ({
+    url: `${trimSlash(config.baseUrl)}/models/${config.modelName}:batchEmbedContents`,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': config.apiKey
+    },
+    body: {
+      requests: inputs.map(text => ({
+        model: `models/${config.modelName}`,
+        content: { parts: [{ text }] }
+      }))
+    }
+  }),
+  parseEmbeddingResponse: (data) => {
+    return ((data as GeminiEmbeddingResponse)?.embeddings || []).map(e => e.values || []);
+  }
+};
+
+// 提供商注册表
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  openai: openaiProvider,
+  ollama: ollamaProvider,
+  anthropic: anthropicProvider,
+  gemini: geminiProvider
+};
+
+// 获取提供商（未知 ID 时回退到 OpenAI 兼容接口）
+export const getProvider = (id: AIProviderId | undefined): AIProvider => {
+  return (id && AI_PROVIDERS[id]) || openaiProvider;
+};
+
+// 获取当前提供商生效的速率限制
+export const getRateLimit = (settings: Pick<AISettings, 'provider' | 'rateLimits'>): AIRateLimit => {
+  return settings.rateLimits?.[settings.provider] ?? getProvider(settings.provider).defaultRateLimit;
+};
+
+// 根据旧版配置的 Base URL 推断提供商（仅用于迁移未保存 provider 字段的设置）
+export const inferProviderFromUrl = (baseUrl: string): AIProviderId => {
+  if (baseUrl.includes('localhost') || baseUrl.includes('127.0.0.1')) return 'ollama';
+  if (baseUrl.includes('api.anthropic.com')) return 'anthropic';
+  if (baseUrl.includes('generativelanguage.googleapis.com')) return 'gemini';
+  return 'openai';
+};
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import type { AIResponse, OrganizeSuggestion, TaxonomyNode, TaxonomyLimits } from '@/types';
+import { limitTaxonomy, type RawTaxonomyNode } from '@/services/taxonomy';
+
+// AI 响应校验失败（JSON 无法解析或结构不符合要求）
+export class AIResponseValidationError extends Error {
+  rawResponse: string;
+
+  constructor(message: string, rawResponse: string) {
+    super(message);
+    this.name = 'AIResponseValidationError';
+    this.rawResponse = rawResponse;
+  }
+}
+
+// 兼容模型把布尔值输出成字符串的情况
+const booleanish = z.union([
+  z.boolean(),
+  z.enum(['true', 'false']).transform(v => v === 'true')
+]);
+
+// 兼容模型把置信度输出成百分数的情况
+const confidence = z.number().transform(v => (v > 1 && v <= 100 ? v / 100 : v)).pipe(z.number().min(0).max(1));
+
+// 智能保存响应结构
+export const smartSaveResponseSchema = z.object({
+  category: z.string().trim().min(1),
+  isNewCategory: booleanish.default(false),
+  useExistingFolder: booleanish.default(false),
+  reason: z.string().default(''),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  confidence: confidence.default(0.8)
+});
+
+// 批量整理中单个书签的结构
+export const organizeItemSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String),
+  category: z.string().trim().min(1),
+  isNewCategory: booleanish.default(false),
+  confidence: confidence.optional(),
+  reason: z.string().trim().optional()
+});
+
+// 批量整理响应：数组，或包含 results 数组的对象（JSON 模式下只能返回对象）
+const organizeEnvelopeSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ results: z.array(z.unknown()) }).transform(v => v.results)
+]);
+
+// 分类体系节点（递归结构）
+const taxonomyNodeSchema: z.ZodType<RawTaxonomyNode> = z.lazy(() => z.object({
+  name: z.string().trim().min(1),
+  children: z.array(taxonomyNodeSchema).optional()
+}));
+
+// 分类体系响应：数组，或包含 taxonomy 数组的对象
+const taxonomyEnvelopeSchema = z.union([
+  z.array(taxonomyNodeSchema),
+  z.object({ taxonomy: z.array(taxonomyNodeSchema) }).transform(v => v.taxonomy)
+]);
+
+// 批量整理的校验结果
+export interface OrganizeValidationResult {
+  items: Map<string, OrganizeSuggestion>;
+  // 响应中出现但不属于本批次的 ID
+  unknownIds: string[];
+  // 本批次中缺失或条目无效的 ID
+  missingIds: string[];
+}
+
+// 从模型输出中提取 JSON 文本（去掉 markdown 代码块和前后的说明文字）
+export const extractJson = (text: string): string => {
+  const withoutFences = text.replace(/```(?:json)?/gi, '').trim();
+  const start = withoutFences.search(/[[{]/);
+  if (start === -1) return withoutFences;
+
+  const closing = withoutFences[start] === '[' ? ']' : '}';
+  const end = withoutFences.lastIndexOf(closing);
+  return end > start ? withoutFences.slice(start, end + 1) : withoutFences.slice(start);
+};
+
+// 解析 JSON，失败时抛出校验错误
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(extractJson(text));
+  } catch (e) {
+    throw new AIResponseValidationError(
+      `JSON 解析失败: ${e instanceof Error ? e.message : String(e)}`,
+      text
+    );
+  }
+};
+
+// 把 zod 错误整理成一行可读信息（也用于修复提示词）
+const formatIssues = (error: z.ZodError): string => {
+  return error.issues
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+};
+
+// 校验智能保存响应
+export const validateSmartSaveResponse = (text: string): AIResponse => {
+  const result = smartSaveResponseSchema.safeParse(parseJson(text));
+  if (!result.success) {
+    throw new AIResponseValidationError(`响应结构无效: ${formatIssues(result.error)}`, text);
+  }
+  return result.data;
+};
+
+// 分类路径比较时忽略大小写和分隔符两侧的空格
+const normalizeCategory = (category: string): string => {
+  return category.split('/').map(s => s.trim()).join('/').toLowerCase();
+};
+
+// 校验批量整理响应，并与提交的书签 ID 交叉核对
+// 传入 allowedCategories 时只接受列表中的分类（统一为列表中的写法），其余条目计入 missingIds
+export const validateOrganizeResponse = (
+  text: string,
+  batchIds: string[],
+  allowedCategories?: string[]
+): OrganizeValidationResult => {
+  const envelope = organizeEnvelopeSchema.safeParse(parseJson(text));
+  if (!envelope.success) {
+    throw new AIResponseValidationError(`响应结构无效: ${formatIssues(envelope.error)}`, text);
+  }
+
+  const expected = new Set(batchIds);
+  const allowed = allowedCategories && new Map(allowedCategories.map(c => [normalizeCategory(c), c]));
+  const items = new Map<string, OrganizeSuggestion>();
+  const unknownIds: string[] = [];
+
+  for (const raw of envelope.data) {
+    const item = organizeItemSchema.safeParse(raw);
+    // 无效条目直接跳过，对应书签会被计入 missingIds
+    if (!item.success) continue;
+
+    const { id, category, isNewCategory, confidence, reason } = item.data;
+    if (!expected.has(id)) {
+      unknownIds.push(id);
+      continue;
+    }
+    if (allowed) {
+      const approved = allowed.get(normalizeCategory(category));
+      if (approved) items.set(id, { category: approved, isNewCategory: false, confidence, reason });
+      continue;
+    }
+    items.set(id, { category, isNewCategory, confidence, reason });
+  }
+
+  return {
+    items,
+    unknownIds,
+    missingIds: batchIds.filter(id => !items.has(id))
+  };
+};
+
+// 校验分类体系响应，并按规模限制裁剪
+export const validateTaxonomyResponse = (text: string, limits: TaxonomyLimits): TaxonomyNode[] => {
+  const result = taxonomyEnvelopeSchema.safeParse(parseJson(text));
+  if (!result.success) {
+    throw new AIResponseValidationError(`响应结构无效: ${formatIssues(result.error)}`, text);
+  }
+  
+  const taxonomy = limitTaxonomy(result.data, limits);
+  if (taxonomy.length === 0) {
+    throw new AIResponseValidationError('分类体系为空', text);
+  }
+  return taxonomy;
+};
+
+// 构建修复提示词：让模型把格式错误的输出改成合法 JSON
+export const buildRepairPrompt = (rawResponse: string, error: string, expectedFormat: string): string => {
+  return `Your previous response could not be parsed as the required JSON.
+
+Error: ${error}
+
+Previous response:
+${rawResponse}
+
+Required format:
+${expectedFormat}
+
+Respond ONLY with the corrected JSON. Keep the original content, fix only the format. Do not output any explanation.`;
+};
@@ -1,65 +1,123 @@
-import type { AISettings, BookmarkNode, AIResponse, TokenEstimate } from '@/types';
+import type {
+  AISettings,
+  BookmarkNode,
+  AIResponse,
+  TokenEstimate,
+  OrganizeSuggestion,
+  OrganizeSuggestionsResult,
+  OrganizeBatchFailure,
+  OrganizeProgress,
+  AIRateLimit,
+  ModelPricing,
+  AIFeature,
+  AIUsage,
+  SmartSaveData,
+  PageMeta,
+  BookmarkMetadata,
+  FolderPath,
+  CorrectionRecord,
+  TaxonomyNode,
+  TaxonomyLimits
+} from '@/types';
+import { CONFIG } from '@/config';
+import { getProvider, getRateLimit, SYSTEM_PROMPT } from '@/services/aiProviders';
+import { countTokens, truncateToTokens } from '@/services/tokenizer';
+import type { CountTokensFn } from '@/services/tokenizer';
+import { runWithConcurrency, sleep } from '@/lib/concurrency';
+import { addUsageRecord, getMonthlySpend } from '@/services/storageService';
+import { buildCacheKey, hashFolderList, readCache, writeCache } from '@/services/aiCache';
+import {
+  formatCorrectionExamples,
+  getCorrectionsFingerprint,
+  loadCorrections,
+  selectRelevantCorrections
+} from '@/services/corrections';
+import { describeRuleMatch, findMatchingRule, getRules, resolveRuleFolder } from '@/services/rules';
+import { getBookmarkMetadata } from '@/services/metadataFetcher';
+import {
+  MAX_FOLDER_SAMPLES,
+  classifyByEmbeddings,
+  getBookmarkEmbeddingText,
+  getEmbeddings,
+  getFolderCentroids,
+  isEmbeddingAvailable
+} from '@/services/embeddings';
+import {
+  AIResponseValidationError,
+  buildRepairPrompt,
+  extractJson,
+  validateOrganizeResponse,
+  validateSmartSaveResponse,
+  validateTaxonomyResponse
+} from '@/services/aiResponseValidator';
 
-// 计算 Token 数量（粗略估计：1 token ≈ 4 个字符）
-export const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
+// Prompt 版本：修改 Prompt 或响应格式时递增，使旧的缓存结果失效
+const SMART_SAVE_PROMPT_VERSION = 3;
+const ORGANIZE_PROMPT_VERSION = 5;
 
-// 预估批量整理的 Token 消耗
-export const estimateOrganizeTokens = (
-  bookmarks: BookmarkNode[],
-  existingFolders: string[]
-): TokenEstimate => {
-  // Prompt 模板的基础字符数
-  const basePromptChars = 500;
-  
-  // 每个书签的平均字符数（标题 + URL）
-  const avgBookmarkChars = bookmarks.reduce((sum, b) => {
-    return sum + (b.title?.length || 0) + (b.url?.length || 0);
-  }, 0) / Math.max(bookmarks.length, 1);
-  
-  // 文件夹列表字符数
-  const foldersChars = existingFolders.join(', ').length;
-  
-  // 总字符数
-  const totalChars = basePromptChars + (avgBookmarkChars * bookmarks.length) + foldersChars;
-  
-  // 估计 Token 数
-  const estimatedTokens = estimateTokens(totalChars.toString()) + (bookmarks.length * 50);
-  
-  // 估计成本（基于 GPT-4o-mini 价格：$0.15 / 1M input tokens）
-  const estimatedCost = (estimatedTokens / 1000000) * 0.15;
+// 智能保存要求的响应格式
+const SMART_SAVE_FORMAT = `{
+  "category": "full folder path, e.g. Parent/Child (use existing if suitable, create new if needed)",
+  "isNewCategory": true/false,
+  "useExistingFolder": true/false,
+  "reason": "brief explanation of why this folder was chosen",
+  "tags": ["tag1", "tag2", "tag3"],
+  "confidence": 0.95
+}`;
+
+// 批量整理要求的响应格式（JSON 模式只允许顶层为对象）
+const ORGANIZE_FORMAT = `{
+  "results": [
+    {"id": "bookmark_id", "category": "Parent/Child", "isNewCategory": true/false, "confidence": 0.9, "reason": "brief explanation"}
+  ]
+}`;
+
+// 正文摘录在 Prompt 中的 Token 预算
+const PAGE_EXCERPT_TOKEN_BUDGET = 400;
+
+// 批量整理时每个书签描述的 Token 上限
+const BOOKMARK_DESCRIPTION_TOKEN_BUDGET = 60;
+
+// 智能保存需要的书签信息
+export type SmartSaveInput = Pick<SmartSaveData, 'title' | 'url' | 'description' | 'pageMeta'>;
+
+// 把页面元信息整理成 Prompt 中的附加行（缺失的字段不输出）
+const formatPageMeta = (url: string, meta: PageMeta | undefined): string => {
+  if (!meta) return '';
   
-  let warning: string | undefined;
-  if (bookmarks.length > 50) {
-    warning = `书签数量较多（${bookmarks.length} 条），建议分批处理`;
-  }
-  if (estimatedTokens > 10000) {
-    warning = `预计消耗 ${estimatedTokens} tokens，可能产生较高费用`;
+  const lines: string[] = [];
+  if (meta.canonicalUrl && meta.canonicalUrl !== url) lines.push(`- Canonical URL: ${meta.canonicalUrl}`);
+  if (meta.siteName) lines.push(`- Site: ${meta.siteName}`);
+  if (meta.ogType) lines.push(`- Content Type: ${meta.ogType}`);
+  if (meta.lang) lines.push(`- Page Language: ${meta.lang}`);
+  if (meta.keywords.length > 0) lines.push(`- Keywords: ${meta.keywords.join(', ')}`);
+  if (meta.headings.length > 0) lines.push(`- Headings: ${meta.headings.join(' | ')}`);
+  if (meta.excerpt) {
+    lines.push(`- Content Excerpt:\n${truncateToTokens(meta.excerpt, PAGE_EXCERPT_TOKEN_BUDGET)}`);
   }
-  
-  return {
-    estimatedTokens,
-    estimatedCost,
-    bookmarkCount: bookmarks.length,
-    warning
-  };
+  return lines.length > 0 ? `\n${lines.join('\n')}` : '';
 };
 
+// 文件夹路径的说明（Prompt 中的文件夹均为完整路径）
+const FOLDER_PATH_RULES = `Folder paths:
+- Every folder is given as its full path, "/" separates levels (e.g. "Dev/Frontend/React"); a literal "/" inside a folder name is escaped as "\\/"
+- Always answer with the FULL path of the chosen folder, copied exactly from the list
+- A new folder may be nested under an existing one (e.g. "Learning/ML/Papers" if "Learning" exists); missing levels will be created`;
+
 // 构建智能保存的 Prompt
 const buildSmartSavePrompt = (
-  title: string,
-  url: string,
-  description: string | undefined,
+  input: SmartSaveInput,
   existingFolders: string[],
-  language: 'zh' | 'en'
+  language: 'zh' | 'en',
+  examples: CorrectionRecord[] = []
 ): string => {
+  const { title, url, description, pageMeta } = input;
   const langInstruction = language === 'zh' 
     ? '使用中文输出分类和标签' 
     : 'Use English for categories and tags';
   
   const foldersList = existingFolders.length > 0 
-    ? existingFolders.join(', ')
+    ? JSON.stringify(existingFolders)
     : (language === 'zh' ? '无' : 'None');
   
   return `You are a bookmark classification expert. Analyze this bookmark and recommend the best storage location.
@@ -67,37 +125,32 @@ const buildSmartSavePrompt = (
 Bookmark Information:
 - Title: ${title}
 - URL: ${url}
-- Description: ${description || 'N/A'}
+- Description: ${description || 'N/A'}${formatPageMeta(url, pageMeta)}
+
+Existing Folders: ${foldersList}${formatCorrectionExamples(examples)}
 
-Existing Folders: ${foldersList}
+${FOLDER_PATH_RULES}
 
 Task:
 1. First, check if any EXISTING folder is suitable for this bookmark
-2. If a suitable folder exists, use that folder name
-3. If no suitable folder exists, suggest creating a NEW folder with an appropriate name
+2. If a suitable folder exists, use that folder's full path
+3. If no suitable folder exists, suggest creating a NEW folder with an appropriate name, nested under the most relevant existing folder when one fits
 4. Generate 3-5 relevant tags for this bookmark
 
 ${langInstruction}
 
 Respond ONLY with a JSON object in this exact format:
-{
-  "category": "folder name (use existing if suitable, create new if needed)",
-  "isNewCategory": true/false,
-  "useExistingFolder": true/false,
-  "reason": "brief explanation of why this folder was chosen",
-  "tags": ["tag1", "tag2", "tag3"],
-  "confidence": 0.95
-}
+${SMART_SAVE_FORMAT}
 
 Rules:
 - "isNewCategory": true only if suggesting a new folder that doesn't exist
-- "useExistingFolder": true if using an existing folder name
+- "useExistingFolder": true if using an existing folder path
 - "reason": brief explanation (max 30 chars in ${language === 'zh' ? 'Chinese' : 'English'})
 - "confidence": 0.0-1.0 based on how certain the classification is
 
 Example response for a new folder:
 {
-  "category": "AI工具",
+  "category": "工具/AI工具",
   "isNewCategory": true,
   "useExistingFolder": false,
   "reason": "AI聊天工具，无合适现有分类",
@@ -107,7 +160,7 @@ Example response for a new folder:
 
 Example response for existing folder:
 {
-  "category": "技术文档",
+  "category": "开发/技术文档",
   "isNewCategory": false,
   "useExistingFolder": true,
   "reason": "匹配现有技术文档分类",
@@ -118,254 +171,1085 @@ Example response for existing folder:
 Do not output any explanation outside the JSON.`;
 };
 
+// 批量整理 Prompt 的附加信息
+interface OrganizePromptContext {
+  // 书签页面元信息（按 URL）
+  metadata?: Map<string, BookmarkMetadata>;
+  // 严格模式：只能归入给定的分类（重构模式下为用户确认的分类体系）
+  strict?: boolean;
+  // 用户纠正过的分类示例
+  examples?: CorrectionRecord[];
+}
+
 // 构建批量整理的 Prompt
 const buildOrganizePrompt = (
   bookmarks: BookmarkNode[],
   existingFolders: string[],
-  language: 'zh' | 'en'
+  language: 'zh' | 'en',
+  context: OrganizePromptContext = {}
 ): string => {
+  const { metadata, strict, examples = [] } = context;
   const langInstruction = language === 'zh'
     ? '使用中文输出新分类名称'
     : 'Use English for new category names';
   
-  const bookmarksJson = bookmarks.map(b => ({
-    id: b.id,
-    title: b.title,
-    url: b.url
-  }));
+  // 有页面元信息时附带描述和站点名，抓取失败的书签只发送标题和 URL
+  const bookmarksJson = bookmarks.map(b => {
+    const meta = b.url ? metadata?.get(b.url) : undefined;
+    return {
+      id: b.id,
+      title: b.title,
+      url: b.url,
+      ...(meta?.description
+        ? { description: truncateToTokens(meta.description, BOOKMARK_DESCRIPTION_TOKEN_BUDGET) }
+        : {}),
+      ...(meta?.siteName ? { site: meta.siteName } : {})
+    };
+  });
   
-  return `You are a strict JSON data classifier. Classify the following bookmarks into the provided existing categories.
+  const categoryRules = strict
+    ? `1. Choose ONLY from the approved categories above, copying the full path exactly
+2. Never create new categories; if nothing fits perfectly, choose the closest approved category
+3. Always set "isNewCategory" to false`
+    : `1. Use existing category paths if they fit well
+2. Create concise new category names (in ${language === 'zh' ? 'Chinese' : 'English'}) if none fit, nested under the most relevant existing category when one fits
+3. ${langInstruction}`;
+  
+  return `You are a strict JSON data classifier. Classify the following bookmarks into the provided ${strict ? 'approved' : 'existing'} categories.
 
 Bookmarks to classify:
 ${JSON.stringify(bookmarksJson, null, 2)}
 
-Existing Categories: ${JSON.stringify(existingFolders)}
+${strict ? 'Approved Categories' : 'Existing Categories'}: ${JSON.stringify(existingFolders)}${formatCorrectionExamples(examples)}
 
-${langInstruction}
+${FOLDER_PATH_RULES}
+
+Respond ONLY with a JSON object in this exact format:
+${ORGANIZE_FORMAT}
+
+Rules:
+${categoryRules}
+4. "confidence": 0.0-1.0 based on how certain the classification is; "reason": why this category fits (max 20 chars in ${language === 'zh' ? 'Chinese' : 'English'})
+5. Include every bookmark id exactly once, and only the ids listed above
+6. Do not output any explanation
+7. Return valid JSON only`;
+};
+
+// 分类体系要求的响应格式
+const TAXONOMY_FORMAT = `{
+  "taxonomy": [
+    {"name": "FolderName", "children": [{"name": "SubfolderName", "children": []}]}
+  ]
+}`;
+
+// 设计分类体系时采样的书签数量和列出的文件夹数量
+const TAXONOMY_SAMPLE_SIZE = 150;
+const TAXONOMY_FOLDER_LIMIT = 100;
+
+// 均匀采样：按固定步长覆盖整棵书签树，而不是只取开头
+const sampleEvenly = <T>(items: T[], limit: number): T[] => {
+  if (items.length <= limit) return items;
+  const step = items.length / limit;
+  return Array.from({ length: limit }, (_, i) => items[Math.floor(i * step)]);
+};
 
-Respond ONLY with a JSON array in this exact format:
-[
-  {"id": "bookmark_id", "category": "CategoryName", "isNewCategory": true/false}
-]
+// 提取 URL 的主机名
+const getHostname = (url?: string): string => {
+  try {
+    return url ? new URL(url).hostname.replace(/^www\./, '') : '';
+  } catch {
+    return '';
+  }
+};
+
+// 构建设计分类体系的 Prompt：现有文件夹（按书签数量排序）+ 书签采样
+const buildTaxonomyPrompt = (
+  bookmarks: BookmarkNode[],
+  folders: FolderPath[],
+  limits: TaxonomyLimits,
+  language: 'zh' | 'en'
+): string => {
+  const counts = new Map<string, number>();
+  for (const b of bookmarks) {
+    if (b.parentId) counts.set(b.parentId, (counts.get(b.parentId) ?? 0) + 1);
+  }
+  
+  const folderLines = [...folders]
+    .sort((a, b) => (counts.get(b.id) ?? 0) - (counts.get(a.id) ?? 0))
+    .slice(0, TAXONOMY_FOLDER_LIMIT)
+    .map(f => `- ${f.path} (${counts.get(f.id) ?? 0})`);
+  
+  const bookmarkLines = sampleEvenly(bookmarks, TAXONOMY_SAMPLE_SIZE)
+    .map(b => `- ${truncateToTokens(b.title || '(untitled)', 30)} [${getHostname(b.url)}]`);
+  
+  return `You are an information architect. Design a clean, consistent folder taxonomy for the user's whole bookmark collection.
+
+Collection size: ${bookmarks.length} bookmarks in ${folders.length} folders
+
+Current folders (path and number of bookmarks directly inside):
+${folderLines.length > 0 ? folderLines.join('\n') : 'None'}
+
+Sample of bookmarks (title [site]):
+${bookmarkLines.join('\n')}
+
+Respond ONLY with a JSON object in this exact format:
+${TAXONOMY_FORMAT}
 
 Rules:
-1. Use existing category names if they fit well
-2. Create concise new category names (in ${language === 'zh' ? 'Chinese' : 'English'}) if none fit
-3. Do not output any explanation
-4. Return valid JSON only`;
+1. At most ${limits.maxDepth} levels deep, at most ${limits.maxChildren} folders under each parent (including the top level)
+2. Every bookmark in the collection must fit into some folder; prefer broad, stable topics over one-off categories
+3. Reuse good existing folder names where they make sense
+4. Folder names are short and ${language === 'zh' ? 'in Chinese' : 'in English'}; do not use "/" in names
+5. Sibling folders must not overlap in meaning
+6. Do not output any explanation
+7. Return valid JSON only`;
+};
+
+// 获取当前模型的价格：用户填写 > 预置模型 > 本地模型免费，均无则返回 null
+export const getModelPricing = (
+  settings: Pick<AISettings, 'provider' | 'modelName' | 'customPricing'>
+): ModelPricing | null => {
+  const custom = settings.customPricing?.[settings.modelName];
+  if (custom) return custom;
+  
+  const preset = CONFIG.PRESET_MODELS.find(
+    m => m.model.toLowerCase() === settings.modelName.toLowerCase()
+  );
+  if (preset) return preset.pricing;
+  
+  return settings.provider === 'ollama' ? { input: 0, output: 0 } : null;
+};
+
+// 按平均长度的分类名和理由估算输出
+const SAMPLE_CATEGORY = { zh: '开发/工具', en: 'Dev/Tools' };
+const SAMPLE_REASON = { zh: '开发者常用的在线工具', en: 'Online developer tool' };
+
+// 预估批量整理的 Token 消耗（按实际分批构建 Prompt 并计数）
+export const estimateOrganizeTokens = (
+  settings: AISettings,
+  bookmarks: BookmarkNode[],
+  existingFolders: string[],
+  count: CountTokensFn = countTokens
+): TokenEstimate => {
+  const batchSize = Math.max(1, settings.organizeBatchSize);
+  const systemTokens = count(SYSTEM_PROMPT);
+  const category = SAMPLE_CATEGORY[settings.languagePreference];
+  const reason = SAMPLE_REASON[settings.languagePreference];
+  let inputTokens = 0;
+  let outputTokens = 0;
+  
+  for (let i = 0; i < bookmarks.length; i += batchSize) {
+    const batch = bookmarks.slice(i, i + batchSize);
+    const prompt = buildOrganizePrompt(batch, existingFolders, settings.languagePreference);
+    inputTokens += systemTokens + count(prompt);
+    
+    // 输出为每个书签一条分类结果
+    const expectedOutput = JSON.stringify({
+      results: batch.map(b => ({ id: b.id, category, isNewCategory: false, confidence: 0.9, reason }))
+    });
+    outputTokens += count(expectedOutput);
+  }
+  
+  const estimatedTokens = inputTokens + outputTokens;
+  const pricing = getModelPricing(settings);
+  const estimatedCost = pricing
+    ? (inputTokens / 1000000) * pricing.input + (outputTokens / 1000000) * pricing.output
+    : null;
+  
+  let warning: string | undefined;
+  if (bookmarks.length > settings.maxOrganizeCount) {
+    warning = `书签数量较多（${bookmarks.length} 条），建议分批处理`;
+  }
+  if (estimatedTokens > settings.tokenWarningThreshold) {
+    warning = `预计消耗 ${estimatedTokens} tokens，可能产生较高费用`;
+  }
+  
+  return {
+    inputTokens,
+    outputTokens,
+    estimatedTokens,
+    estimatedCost,
+    bookmarkCount: bookmarks.length,
+    warning
+  };
+};
+
+// AI 请求错误（携带 HTTP 状态码和服务端要求的重试等待时间）
+export class AIRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 本月花费已达到预算上限
+export class AIBudgetExceededError extends Error {
+  spent: number;
+  budget: number;
+
+  constructor(spent: number, budget: number) {
+    super(`本月 AI 花费 $${spent.toFixed(4)} 已达到预算上限 $${budget.toFixed(2)}，请在设置中调整预算`);
+    this.name = 'AIBudgetExceededError';
+    this.spent = spent;
+    this.budget = budget;
+  }
+}
+
+// callAI 的可选参数
+export interface CallAIOptions {
+  // 发起调用的功能，记入用量账本
+  feature: AIFeature;
+  onStream?: (chunk: string) => void;
+  signal?: AbortSignal;
+  // 请求 JSON 输出（提供商支持时启用其 JSON 模式）
+  json?: boolean;
+}
+
+// 单次请求的结果
+interface AIResponseText {
+  text: string;
+  usage: Partial<AIUsage> | null;
+}
+
+// 可重试的 HTTP 状态码
+const RETRYABLE_STATUS = [408, 409, 425, 429, 500, 502, 503, 504];
+
+// 退避等待的上限
+const MAX_BACKOFF_MS = 30000;
+
+// 判断是否为取消操作导致的错误
+export const isAbortError = (e: unknown): boolean => {
+  return e instanceof DOMException && e.name === 'AbortError';
+};
+
+// 判断错误是否值得重试
+const isRetryableError = (e: unknown): boolean => {
+  if (isAbortError(e)) return false;
+  // 单次请求超时
+  if (e instanceof DOMException && e.name === 'TimeoutError') return true;
+  if (e instanceof AIRequestError) {
+    return e.status !== undefined && RETRYABLE_STATUS.includes(e.status);
+  }
+  // fetch 的网络错误
+  return e instanceof TypeError;
+};
+
+// 解析 Retry-After 响应头（秒数或 HTTP 日期）
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+};
+
+// 计算第 attempt 次重试前的等待时间（指数退避 + 随机抖动）
+const getBackoffDelay = (attempt: number, error: unknown): number => {
+  if (error instanceof AIRequestError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_BACKOFF_MS * 2);
+  }
+  const exponential = 1000 * 2 ** attempt;
+  return Math.min(exponential, MAX_BACKOFF_MS) + Math.random() * 250;
+};
+
+// 速率限制的统计窗口
+const RATE_WINDOW_MS = 60000;
+
+// 各提供商最近一分钟内发出的请求（时间 + 预估 Token）
+const rateWindows = new Map<string, { time: number; tokens: number }[]>();
+
+// 等待直到本次请求不超过提供商的速率限制，并记入窗口
+const acquireRateLimit = async (
+  key: string,
+  limit: AIRateLimit,
+  tokens: number,
+  signal?: AbortSignal
+): Promise<void> => {
+  if (!limit.requestsPerMinute && !limit.tokensPerMinute) return;
+  
+  const entries = rateWindows.get(key) ?? [];
+  rateWindows.set(key, entries);
+  
+  while (true) {
+    const now = Date.now();
+    while (entries.length > 0 && now - entries[0].time >= RATE_WINDOW_MS) {
+      entries.shift();
+    }
+    
+    const usedTokens = entries.reduce((sum, e) => sum + e.tokens, 0);
+    const requestsOk = !limit.requestsPerMinute || entries.length < limit.requestsPerMinute;
+    // 单个请求超过 TPM 上限时，窗口为空即放行，避免永远等待
+    const tokensOk = !limit.tokensPerMinute || entries.length === 0 ||
+      usedTokens + tokens <= limit.tokensPerMinute;
+    
+    if (requestsOk && tokensOk) {
+      entries.push({ time: now, tokens });
+      return;
+    }
+    
+    // 等到最早的一条请求移出窗口再检查
+    await sleep(entries[0].time + RATE_WINDOW_MS - now, signal);
+  }
 };
 
 // 通过 background script 调用 Ollama（绕过 CORS）
 const callOllamaViaBackground = async (
-  ollamaUrl: string,
-  modelName: string,
-  prompt: string
-): Promise<string> => {
+  settings: AISettings,
+  prompt: string,
+  json: boolean,
+  signal?: AbortSignal
+): Promise<AIResponseText> => {
+  const requestId = crypto.randomUUID();
+  
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    
+    // 取消时通知 background 中止对应的 fetch
+    const onAbort = () => {
+      chrome.runtime.sendMessage({ type: 'OLLAMA_ABORT', requestId });
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    
     chrome.runtime.sendMessage(
       {
         type: 'OLLAMA_GENERATE',
-        ollamaUrl,
-        modelName,
-        prompt
+        requestId,
+        ollamaUrl: settings.ollamaUrl,
+        modelName: settings.modelName,
+        prompt,
+        json,
+        timeout: settings.requestTimeout * 1000
       },
       (response) => {
+        signal?.removeEventListener('abort', onAbort);
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message));
         } else if (response?.success) {
-          resolve(response.data);
+          resolve({ text: response.data, usage: response.usage ?? null });
         } else {
-          reject(new Error(response?.error || 'Ollama request failed'));
+          reject(new AIRequestError(response?.error || 'Ollama request failed', response?.status));
         }
       }
     );
   });
 };
 
-// 调用 AI API
-export const callAI = async (
+// 通过 background script 抓取书签页面元信息（跨域请求需在后台发起）
+const fetchMetadataViaBackground = async (urls: string[]): Promise<Map<string, BookmarkMetadata>> => {
+  // 在 background 中运行时直接抓取
+  if (typeof window === 'undefined') {
+    const entries = Object.entries(await getBookmarkMetadata(urls));
+    return new Map(entries.filter(([, meta]) => !meta.error));
+  }
+  
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ type: 'FETCH_METADATA', urls }, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else if (response?.success) {
+        const entries = Object.entries(response.data as Record<string, BookmarkMetadata>);
+        // 抓取失败的条目不用于 Prompt
+        resolve(new Map(entries.filter(([, meta]) => !meta.error)));
+      } else {
+        reject(new Error(response?.error || 'Metadata fetch failed'));
+      }
+    });
+  });
+};
+
+// 不支持 JSON 输出模式的接口（按提供商与 Base URL 记录）
+const jsonModeUnsupported = new Set<string>();
+
+// 发送一次 HTTP 请求（不含重试）
+const requestOnce = async (
   settings: AISettings,
   prompt: string,
-  onStream?: (chunk: string) => void
-): Promise<string> => {
-  const isOllama = settings.baseUrl.includes('localhost') || settings.baseUrl.includes('127.0.0.1');
+  options: CallAIOptions,
+  markStreamed: () => void
+): Promise<AIResponseText> => {
+  const provider = getProvider(settings.provider);
+  const { onStream, signal } = options;
+  const jsonKey = `${provider.id}:${settings.baseUrl}`;
+  const json = !!options.json && provider.capabilities.jsonMode && !jsonModeUnsupported.has(jsonKey);
   
-  // Ollama 通过 background script 调用以绕过 CORS
-  if (isOllama) {
-    return callOllamaViaBackground(settings.ollamaUrl, settings.modelName, prompt);
+  // Ollama 等需要转发的提供商通过 background script 调用以绕过 CORS
+  // （在 background 中运行时无法向自身发消息，直接请求即可）
+  if (provider.proxied && typeof window !== 'undefined') {
+    const result = await callOllamaViaBackground(settings, prompt, json, signal);
+    onStream?.(result.text);
+    return result;
   }
   
-  const url = `${settings.baseUrl}/chat/completions`;
-  
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${settings.apiKey}`
-  };
+  const stream = !!onStream && provider.capabilities.streaming;
   
-  const body = {
-    model: settings.modelName,
-    messages: [
-      { role: 'system', content: 'You are a helpful assistant that outputs only valid JSON.' },
-      { role: 'user', content: prompt }
-    ],
-    stream: !!onStream,
-    temperature: 0.3
+  // 单次请求超时与用户取消合并
+  const timeoutSignal = AbortSignal.timeout(settings.requestTimeout * 1000);
+  const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+  const send = (jsonMode: boolean) => {
+    const request = provider.buildChatRequest(settings, prompt, { stream, json: jsonMode });
+    return fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+      signal: requestSignal
+    });
   };
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(body)
-  });
+  let response = await send(json);
+
+  // 部分 OpenAI 兼容服务（LM Studio、部分 vLLM 版本）不支持 response_format，返回 400；
+  // 去掉 JSON 模式重发一次，成功后记住该接口，之后直接发送普通请求（输出由校验与修复流程兜底）
+  if (json && response.status === 400) {
+    const retried = await send(false);
+    if (retried.ok) jsonModeUnsupported.add(jsonKey);
+    response = retried;
+  }
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(`AI API error: ${response.status} - ${errorText}`);
+    throw new AIRequestError(
+      `AI API error: ${response.status} - ${errorText}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
   }
 
-  // 处理流式响应
-  if (onStream && response.body) {
+  // 处理流式响应（SSE）
+  if (stream && onStream && response.body) {
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let fullText = '';
+    let buffer = '';
+    let usage: Partial<AIUsage> | null = null;
     
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
       
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n').filter(line => line.trim());
+      // 按行切分，未完整的行留到下一次
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
       
       for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        
+        const data = trimmed.slice(5).trim();
+        if (!data || data === '[DONE]') continue;
+        
+        try {
+          const parsed: unknown = JSON.parse(data);
+          const chunkUsage = provider.parseUsage(parsed);
+          if (chunkUsage) {
+            usage = { ...(usage ?? {}), ...stripUndefined(chunkUsage) };
+          }
           
-          try {
-            const parsed = JSON.parse(data);
-            const content = isOllama 
-              ? parsed.response 
-              : parsed.choices?.[0]?.delta?.content || '';
-            
-            if (content) {
-              fullText += content;
-              onStream(content);
-            }
-          } catch (e) {
-            // 忽略解析错误
+          const content = provider.parseStreamChunk(parsed);
+          if (content) {
+            fullText += content;
+            markStreamed();
+            onStream(content);
           }
+        } catch {
+          // 忽略解析错误
         }
       }
     }
     
-    return fullText;
+    return { text: fullText, usage };
   }
 
   // 非流式响应
   const data = await response.json();
+  const text = provider.parseChatResponse(data);
+  onStream?.(text);
+  return { text, usage: provider.parseUsage(data) };
+};
+
+// 去掉值为 undefined 的字段，避免合并流式用量时覆盖已有值
+const stripUndefined = <T extends object>(obj: T): Partial<T> => {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+};
+
+// 发送前检查本月预算
+const checkBudget = async (settings: AISettings): Promise<void> => {
+  if (!settings.monthlyBudget) return;
+  const spent = await getMonthlySpend();
+  if (spent >= settings.monthlyBudget) {
+    throw new AIBudgetExceededError(spent, settings.monthlyBudget);
+  }
+};
+
+// 将一次成功的请求记入用量账本（接口未返回用量时按本地计数估算）
+const recordUsage = async (
+  settings: AISettings,
+  feature: AIFeature,
+  prompt: string,
+  result: AIResponseText,
+  latencyMs: number
+): Promise<void> => {
+  const promptTokens = result.usage?.promptTokens;
+  const completionTokens = result.usage?.completionTokens;
+  const usage: AIUsage = {
+    promptTokens: promptTokens ?? countTokens(SYSTEM_PROMPT) + countTokens(prompt),
+    completionTokens: completionTokens ?? countTokens(result.text)
+  };
+  const pricing = getModelPricing(settings);
+  
+  try {
+    await addUsageRecord({
+      timestamp: Date.now(),
+      provider: settings.provider,
+      model: settings.modelName,
+      feature,
+      ...usage,
+      estimated: promptTokens === undefined || completionTokens === undefined,
+      latencyMs,
+      cost: pricing
+        ? (usage.promptTokens / 1000000) * pricing.input + (usage.completionTokens / 1000000) * pricing.output
+        : null
+    });
+  } catch (e) {
+    // 记账失败不影响调用结果
+    console.warn('记录 AI 用量失败:', e);
+  }
+};
+
+// 调用 AI API（支持取消、超时、指数退避重试、预算检查和用量记录）
+export const callAI = async (
+  settings: AISettings,
+  prompt: string,
+  options: CallAIOptions
+): Promise<string> => {
+  const { signal, feature } = options;
+  let streamed = false;
+  
+  const rateLimit = getRateLimit(settings);
+  const tokens = countTokens(SYSTEM_PROMPT) + countTokens(prompt);
+  
+  await checkBudget(settings);
+  
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await acquireRateLimit(settings.provider, rateLimit, tokens, signal);
+      const startedAt = Date.now();
+      const result = await requestOnce(settings, prompt, options, () => { streamed = true; });
+      await recordUsage(settings, feature, prompt, result, Date.now() - startedAt);
+      return result.text;
+    } catch (e) {
+      // 已向调用方输出部分内容时不再重试，避免重复输出
+      if (streamed || attempt >= settings.maxRetries || !isRetryableError(e)) {
+        throw e;
+      }
+      const delay = getBackoffDelay(attempt, e);
+      console.warn(`AI 请求失败，${Math.round(delay)}ms 后重试 (${attempt + 1}/${settings.maxRetries}):`, e);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// 嵌入请求的结果
+interface EmbeddingResponse {
+  vectors: number[][];
+  usage: Partial<AIUsage> | null;
+}
+
+// 嵌入请求所需的配置
+export type EmbeddingRequestSettings = Pick<
+  AISettings,
+  'provider' | 'baseUrl' | 'apiKey' | 'ollamaUrl' | 'embeddingModel' | 'requestTimeout'
+>;
+
+// 发送一次嵌入请求（不含重试）；Ollama 通过 background script 转发，background 中直接请求
+export const requestEmbeddings = async (
+  settings: EmbeddingRequestSettings,
+  inputs: string[],
+  signal?: AbortSignal
+): Promise<EmbeddingResponse> => {
+  const provider = getProvider(settings.provider);
+  if (!provider.buildEmbeddingRequest || !provider.parseEmbeddingResponse) {
+    throw new AIRequestError(`${provider.name} 不支持嵌入接口`);
+  }
+  
+  if (provider.proxied && typeof window !== 'undefined') {
+    const requestId = crypto.randomUUID();
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      
+      // 取消时通知 background 中止对应的 fetch
+      const onAbort = () => {
+        chrome.runtime.sendMessage({ type: 'OLLAMA_ABORT', requestId });
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      
+      chrome.runtime.sendMessage({ type: 'OLLAMA_EMBED', requestId, settings, inputs }, (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+        } else if (response?.success) {
+          resolve(response.data as EmbeddingResponse);
+        } else {
+          reject(new AIRequestError(response?.error || 'Ollama embedding request failed', response?.status));
+        }
+      });
+    });
+  }
+  
+  const request = provider.buildEmbeddingRequest({ ...settings, modelName: settings.embeddingModel }, inputs);
+  const timeoutSignal = AbortSignal.timeout(settings.requestTimeout * 1000);
+  const response = await fetch(request.url, {
+    method: 'POST',
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+    signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+  });
+  
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new AIRequestError(
+      `Embedding API error: ${response.status} - ${errorText}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+  
+  const data = await response.json();
+  return { vectors: provider.parseEmbeddingResponse(data), usage: provider.parseUsage(data) };
+};
+
+// 获取嵌入模型的价格：用户填写 > 预置价格 > 本地模型免费
+const getEmbeddingPricing = (settings: AISettings): ModelPricing | null => {
+  const pricing = getModelPricing({ ...settings, modelName: settings.embeddingModel });
+  if (pricing) return pricing;
+  const preset = CONFIG.EMBEDDING_PRICING[settings.embeddingModel.toLowerCase()];
+  return preset !== undefined ? { input: preset, output: 0 } : null;
+};
+
+// 调用嵌入接口（支持重试、速率限制、预算检查和用量记录），返回与输入顺序一致的向量
+export const callEmbeddings = async (
+  settings: AISettings,
+  inputs: string[],
+  signal?: AbortSignal
+): Promise<number[][]> => {
+  const rateLimit = getRateLimit(settings);
+  const tokens = inputs.reduce((sum, text) => sum + countTokens(text), 0);
+  
+  await checkBudget(settings);
   
-  if (isOllama) {
-    return data.response;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await acquireRateLimit(settings.provider, rateLimit, tokens, signal);
+      const startedAt = Date.now();
+      const result = await requestEmbeddings(settings, inputs, signal);
+      const promptTokens = result.usage?.promptTokens;
+      const pricing = getEmbeddingPricing(settings);
+      
+      try {
+        await addUsageRecord({
+          timestamp: Date.now(),
+          provider: settings.provider,
+          model: settings.embeddingModel,
+          feature: 'embeddings',
+          promptTokens: promptTokens ?? tokens,
+          completionTokens: 0,
+          estimated: promptTokens === undefined,
+          latencyMs: Date.now() - startedAt,
+          cost: pricing ? ((promptTokens ?? tokens) / 1000000) * pricing.input : null
+        });
+      } catch (e) {
+        console.warn('记录 AI 用量失败:', e);
+      }
+      return result.vectors;
+    } catch (e) {
+      if (attempt >= settings.maxRetries || !isRetryableError(e)) {
+        throw e;
+      }
+      const delay = getBackoffDelay(attempt, e);
+      console.warn(`嵌入请求失败，${Math.round(delay)}ms 后重试 (${attempt + 1}/${settings.maxRetries}):`, e);
+      await sleep(delay, signal);
+    }
   }
+};
+
+// 请求 JSON 并校验，格式无效时自动发起一次修复请求
+const callAIWithRepair = async <T>(
+  settings: AISettings,
+  prompt: string,
+  expectedFormat: string,
+  validate: (response: string) => T,
+  options: CallAIOptions
+): Promise<T> => {
+  const response = await callAI(settings, prompt, { ...options, json: true });
   
-  return data.choices?.[0]?.message?.content || '';
+  try {
+    return validate(response);
+  } catch (e) {
+    if (!(e instanceof AIResponseValidationError)) throw e;
+    
+    console.warn('AI 响应格式无效，尝试修复:', e.message);
+    const repairPrompt = buildRepairPrompt(response, e.message, expectedFormat);
+    const repaired = await callAI(settings, repairPrompt, {
+      feature: options.feature,
+      signal: options.signal,
+      json: true
+    });
+    return validate(repaired);
+  }
 };
 
 // 智能保存：获取分类建议
 export const getSmartSaveSuggestion = async (
   settings: AISettings,
-  title: string,
-  url: string,
-  description: string | undefined,
+  input: SmartSaveInput,
   existingFolders: string[],
   onStream?: (chunk: string) => void
 ): Promise<AIResponse> => {
-  const prompt = buildSmartSavePrompt(title, url, description, existingFolders, settings.languagePreference);
-  const response = await callAI(settings, prompt, onStream);
+  // 先按用户规则分类，命中时不调用 AI
+  const rule = findMatchingRule(await getRules(), input);
+  if (rule) {
+    const { category, isNewCategory } = resolveRuleFolder(rule, existingFolders);
+    return {
+      category,
+      isNewCategory,
+      useExistingFolder: !isNewCategory,
+      reason: describeRuleMatch(rule, settings.languagePreference),
+      tags: rule.tags,
+      confidence: 1
+    };
+  }
+  
+  // 附带与当前页面相关的纠正示例
+  const examples = selectRelevantCorrections(await loadCorrections(settings), [input], existingFolders);
+  
+  const cacheKey = await buildCacheKey(
+    'smartSave',
+    SMART_SAVE_PROMPT_VERSION,
+    settings,
+    await hashFolderList(existingFolders),
+    { url: input.url, title: input.title, context: getCorrectionsFingerprint(examples) }
+  );
+  const cached = (await readCache<AIResponse>(settings, [cacheKey])).get(cacheKey);
+  if (cached) return cached;
+  
+  const prompt = buildSmartSavePrompt(input, existingFolders, settings.languagePreference, examples);
+  const response = await callAIWithRepair(settings, prompt, SMART_SAVE_FORMAT, validateSmartSaveResponse, {
+    feature: 'smartSave',
+    onStream
+  });
+  
+  await writeCache(settings, new Map([[cacheKey, response]]));
+  return response;
+};
+
+// getOrganizeSuggestions 的可选参数
+export interface OrganizeOptions {
+  onProgress?: (progress: OrganizeProgress) => void;
+  signal?: AbortSignal;
+  // 忽略已缓存的结果（新结果仍会写入缓存）
+  bypassCache?: boolean;
+  // 严格模式：existingFolders 为用户确认的分类体系，只能归入其中的分类
+  strict?: boolean;
+  // 嵌入向量分类的参考数据：现有文件夹及书签，用于计算各文件夹的中心向量
+  embeddingReference?: { folders: FolderPath[]; bookmarks: BookmarkNode[] };
+}
+
+// 单个批次的处理结果
+interface OrganizeBatchResult {
+  items: Map<string, OrganizeSuggestion>;
+  missingIds: string[];
+  failure?: OrganizeBatchFailure;
+}
+
+// 按嵌入向量与各文件夹的相似度分类，返回差距足够明显的结果（失败时返回空结果，全部交给对话模型）
+const matchByEmbeddings = async (
+  settings: AISettings,
+  bookmarks: BookmarkNode[],
+  existingFolders: string[],
+  reference: OrganizeOptions['embeddingReference'],
+  signal?: AbortSignal
+): Promise<Map<string, OrganizeSuggestion>> => {
+  if (bookmarks.length === 0 || existingFolders.length < 2 || !isEmbeddingAvailable(settings)) {
+    return new Map();
+  }
+  
+  // 各候选文件夹中的书签（每个文件夹最多取 MAX_FOLDER_SAMPLES 个）
+  const folderPaths = new Map((reference?.folders ?? []).map(f => [f.id, f.path.toLowerCase()]));
+  const samples = new Map<string, BookmarkNode[]>();
+  for (const b of reference?.bookmarks ?? []) {
+    const path = b.url && b.parentId ? folderPaths.get(b.parentId) : undefined;
+    if (!path) continue;
+    const list = samples.get(path) ?? [];
+    if (list.length < MAX_FOLDER_SAMPLES) {
+      list.push(b);
+      samples.set(path, list);
+    }
+  }
+  const folders = existingFolders.map(path => ({ path, members: samples.get(path.toLowerCase()) ?? [] }));
   
   try {
-    // 清理可能的 markdown 代码块
-    const cleanJson = response.replace(/```json\n?|\n?```/g, '').trim();
-    const parsed = JSON.parse(cleanJson);
+    const fetchBatch = (inputs: string[]) => callEmbeddings(settings, inputs, signal);
+    // 文件夹内容未变时中心向量直接读缓存，不必重新读取抽样书签的向量
+    const centroids = await getFolderCentroids(settings, folders, fetchBatch, signal);
+    const vectors = await getEmbeddings(settings, bookmarks.map(getBookmarkEmbeddingText), fetchBatch, signal);
     
-    return {
-      category: parsed.category || '未分类',
-      isNewCategory: parsed.isNewCategory || false,
-      useExistingFolder: parsed.useExistingFolder || false,
-      reason: parsed.reason || '',
-      tags: parsed.tags || [],
-      confidence: parsed.confidence || 0.8
-    };
+    return classifyByEmbeddings(
+      bookmarks.map((b, i) => ({ id: b.id, vector: vectors[i] })),
+      centroids,
+      settings.embeddingMargin,
+      settings.languagePreference
+    );
   } catch (e) {
-    console.error('Failed to parse AI response:', response);
-    // 返回默认响应
-    return {
-      category: existingFolders[0] || '未分类',
-      isNewCategory: false,
-      useExistingFolder: false,
-      reason: '',
-      tags: [],
-      confidence: 0.5
-    };
+    if (isAbortError(e)) throw e;
+    console.warn('嵌入向量分类失败，改用对话模型:', e);
+    return new Map();
   }
 };
 
-// 批量整理：获取整理建议
+// 批量整理：获取分类建议（分批并发处理，结果顺序与输入一致）
 export const getOrganizeSuggestions = async (
   settings: AISettings,
   bookmarks: BookmarkNode[],
   existingFolders: string[],
-  onProgress?: (current: number, total: number) => void
-): Promise<Map<string, { category: string; isNewCategory: boolean }>> => {
-  const results = new Map<string, { category: string; isNewCategory: boolean }>();
+  options: OrganizeOptions = {}
+): Promise<OrganizeSuggestionsResult> => {
+  const { onProgress, signal, bypassCache, strict, embeddingReference } = options;
+  
+  const corrections = await loadCorrections(settings);
+  const toTarget = (b: BookmarkNode) => ({ url: b.url || '', title: b.title });
+  
+  // 先按用户规则分类，命中的书签不再发送给 AI
+  const rules = await getRules();
+  const ruleMatched = new Map<string, OrganizeSuggestion>();
+  for (const b of bookmarks) {
+    const rule = findMatchingRule(rules, toTarget(b));
+    if (rule) {
+      ruleMatched.set(b.id, {
+        ...resolveRuleFolder(rule, existingFolders),
+        confidence: 1,
+        reason: describeRuleMatch(rule, settings.languagePreference),
+        ruleId: rule.id,
+        tags: rule.tags
+      });
+    }
+  }
+  const ruleUnmatched = bookmarks.filter(b => !ruleMatched.has(b.id));
+  
+  // 再按嵌入向量的相似度分类，难以区分的书签交给对话模型
+  if (isEmbeddingAvailable(settings) && ruleUnmatched.length > 0) {
+    onProgress?.({
+      phase: 'embed',
+      completedBatches: 0,
+      totalBatches: 0,
+      processedBookmarks: ruleMatched.size,
+      totalBookmarks: bookmarks.length
+    });
+  }
+  const embeddingMatched = await matchByEmbeddings(
+    settings,
+    ruleUnmatched,
+    existingFolders,
+    embeddingReference,
+    signal
+  );
+  const unmatched = ruleUnmatched.filter(b => !embeddingMatched.has(b.id));
+  
+  // 再查缓存，命中的书签不再发送给 AI（与该书签相关的纠正示例变化时缓存失效）
+  const foldersHash = await hashFolderList(existingFolders);
+  const cacheKeys = new Map<string, string>();
+  await Promise.all(unmatched.map(async (b) => {
+    const examples = selectRelevantCorrections(corrections, [toTarget(b)], existingFolders);
+    cacheKeys.set(b.id, await buildCacheKey(
+      strict ? 'organizeStrict' : 'organize',
+      ORGANIZE_PROMPT_VERSION,
+      settings,
+      foldersHash,
+      { ...toTarget(b), context: getCorrectionsFingerprint(examples) }
+    ));
+  }));
+  const cached = bypassCache
+    ? new Map<string, OrganizeSuggestion>()
+    : await readCache<OrganizeSuggestion>(settings, [...cacheKeys.values()]);
   
-  // 分批处理，每批最多 20 个
-  const batchSize = 20;
+  const isCached = (b: BookmarkNode) => cached.has(cacheKeys.get(b.id) ?? '');
+  const pending = unmatched.filter(b => !isCached(b));
+  const cachedCount = unmatched.length - pending.length;
+  
+  const batchSize = Math.max(1, settings.organizeBatchSize);
   const batches: BookmarkNode[][] = [];
   
-  for (let i = 0; i < bookmarks.length; i += batchSize) {
-    batches.push(bookmarks.slice(i, i + batchSize));
+  for (let i = 0; i < pending.length; i += batchSize) {
+    batches.push(pending.slice(i, i + batchSize));
   }
   
-  for (let i = 0; i < batches.length; i++) {
-    const batch = batches[i];
-    const prompt = buildOrganizePrompt(batch, existingFolders, settings.languagePreference);
-    
+  // 抓取待分类书签的页面元信息，失败时仅使用标题和 URL
+  let metadata = new Map<string, BookmarkMetadata>();
+  const urls = pending.map(b => b.url).filter((url): url is string => !!url);
+  if (settings.fetchPageMetadata && urls.length > 0) {
+    onProgress?.({
+      phase: 'metadata',
+      completedBatches: 0,
+      totalBatches: batches.length,
+      processedBookmarks: bookmarks.length - pending.length,
+      totalBookmarks: bookmarks.length
+    });
     try {
-      const response = await callAI(settings, prompt);
+      metadata = await fetchMetadataViaBackground(urls);
+    } catch (e) {
+      console.warn('抓取页面元信息失败:', e);
+    }
+    signal?.throwIfAborted();
+  }
+  
+  let completedBatches = 0;
+  let processedBookmarks = bookmarks.length - pending.length;
+  const reportProgress = () => onProgress?.({
+    phase: 'classify',
+    completedBatches,
+    totalBatches: batches.length,
+    processedBookmarks,
+    totalBookmarks: bookmarks.length
+  });
+  reportProgress();
+  
+  const batchResults = await runWithConcurrency(
+    batches,
+    settings.organizeConcurrency,
+    async (batch, batchIndex): Promise<OrganizeBatchResult> => {
+      signal?.throwIfAborted();
       
-      // 清理可能的 markdown 代码块
-      const cleanJson = response.replace(/```json\n?|\n?```/g, '').trim();
-      const parsed = JSON.parse(cleanJson);
+      const examples = selectRelevantCorrections(corrections, batch.map(toTarget), existingFolders);
+      const prompt = buildOrganizePrompt(batch, existingFolders, settings.languagePreference, {
+        metadata,
+        strict,
+        examples
+      });
+      const batchIds = batch.map(b => b.id);
+      let result: OrganizeBatchResult;
       
-      if (Array.isArray(parsed)) {
-        parsed.forEach((item: { id: string; category: string; isNewCategory: boolean }) => {
-          results.set(item.id, {
-            category: item.category,
-            isNewCategory: item.isNewCategory
-          });
+      try {
+        const validated = await callAIWithRepair(
+          settings,
+          prompt,
+          ORGANIZE_FORMAT,
+          (response) => validateOrganizeResponse(response, batchIds, strict ? existingFolders : undefined),
+          { feature: 'batchOrganize', signal }
+        );
+        
+        if (validated.unknownIds.length > 0) {
+          console.warn('AI 返回了不属于本批次的书签 ID:', validated.unknownIds);
+        }
+        result = { items: validated.items, missingIds: validated.missingIds };
+        
+        const toCache = new Map<string, OrganizeSuggestion>();
+        validated.items.forEach((suggestion, id) => {
+          const key = cacheKeys.get(id);
+          if (key) toCache.set(key, suggestion);
         });
+        await writeCache(settings, toCache);
+      } catch (e) {
+        // 取消时直接中止整个任务
+        if (isAbortError(e)) throw e;
+        
+        console.error('Batch organize failed:', e);
+        result = {
+          items: new Map(),
+          missingIds: batchIds,
+          failure: {
+            batchIndex,
+            bookmarkIds: batchIds,
+            error: e instanceof Error ? e.message : String(e)
+          }
+        };
       }
-    } catch (e) {
-      console.error('Failed to parse batch response:', e);
-    }
-    
-    if (onProgress) {
-      onProgress((i + 1) * batchSize, bookmarks.length);
+      
+      completedBatches++;
+      processedBookmarks += batch.length;
+      reportProgress();
+      return result;
     }
+  );
+  
+  // 按批次顺序合并，保证结果与完成先后无关
+  const fresh = new Map<string, OrganizeSuggestion>();
+  const failures: OrganizeBatchFailure[] = [];
+  const unclassifiedIds: string[] = [];
+  
+  for (const result of batchResults) {
+    result.items.forEach((suggestion, id) => fresh.set(id, suggestion));
+    unclassifiedIds.push(...result.missingIds);
+    if (result.failure) failures.push(result.failure);
   }
   
-  return results;
+  // 按输入顺序合并规则结果、嵌入向量结果、缓存结果与新结果
+  const suggestions = new Map<string, OrganizeSuggestion>();
+  for (const b of bookmarks) {
+    const suggestion = ruleMatched.get(b.id)
+      ?? embeddingMatched.get(b.id)
+      ?? cached.get(cacheKeys.get(b.id) ?? '')
+      ?? fresh.get(b.id);
+    if (suggestion) suggestions.set(b.id, suggestion);
+  }
+  
+  return {
+    suggestions,
+    failures,
+    unclassifiedIds,
+    cachedCount,
+    ruleMatchedCount: ruleMatched.size,
+    embeddingMatchedCount: embeddingMatched.size
+  };
+};
+
+// 重构模式：根据整棵书签树的采样设计分类体系
+export const proposeTaxonomy = async (
+  settings: AISettings,
+  bookmarks: BookmarkNode[],
+  folders: FolderPath[],
+  signal?: AbortSignal
+): Promise<TaxonomyNode[]> => {
+  const limits: TaxonomyLimits = {
+    maxDepth: Math.max(1, settings.taxonomyMaxDepth),
+    maxChildren: Math.max(1, settings.taxonomyMaxChildren)
+  };
+  const prompt = buildTaxonomyPrompt(bookmarks, folders, limits, settings.languagePreference);
+  
+  return callAIWithRepair(
+    settings,
+    prompt,
+    TAXONOMY_FORMAT,
+    (response) => validateTaxonomyResponse(response, limits),
+    { feature: 'taxonomy', signal }
+  );
 };
 
 // 测试 AI 连接
 export const testAIConnection = async (settings: AISettings): Promise<{ success: boolean; message: string }> => {
   try {
     const testPrompt = 'Respond with a simple JSON: {"status": "ok"}';
-    const response = await callAI(settings, testPrompt);
+    // 测试连接时不重试，尽快反馈结果
+    const response = await callAI({ ...settings, maxRetries: 0 }, testPrompt, { feature: 'testConnection' });
     
-    const cleanJson = response.replace(/```json\n?|\n?```/g, '').trim();
-    const parsed = JSON.parse(cleanJson);
+    const parsed = JSON.parse(extractJson(response));
     
     if (parsed.status === 'ok' || parsed.status === '"ok"') {
       return { success: true, message: '连接成功' };
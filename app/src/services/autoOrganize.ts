@@ -0,0 +1,135 @@
+import type { PendingSuggestion } from '@/types';
+import { getFolderPaths, ensureFolderPath, findBookmarkBarId } from '@/hooks/useBookmarks';
+import { addTagsToBookmark } from '@/services/storageService';
+
+// 待确认的建议保存在 chrome.storage.local，后台与弹窗共用
+const PENDING_KEY = 'pendingSuggestions';
+
+// 暂停标志保存在 chrome.storage.session（浏览器重启后自动清除）
+const SUSPENDED_UNTIL_KEY = 'autoOrganizeSuspendedUntil';
+const IMPORTING_KEY = 'bookmarkImportInProgress';
+
+// 暂停的最长时间，避免调用方异常退出后一直处于暂停状态
+const DEFAULT_SUSPEND_MS = 10 * 60 * 1000;
+
+// 恢复后仍暂停片刻：批量创建的书签的 onCreated 事件可能在恢复之后才送达 Service Worker
+const RESUME_GRACE_MS = 2000;
+
+// 读取待确认的建议
+export const getPendingSuggestions = async (): Promise<PendingSuggestion[]> => {
+  const result = await chrome.storage.local.get(PENDING_KEY);
+  const list = result[PENDING_KEY];
+  return Array.isArray(list) ? (list as PendingSuggestion[]) : [];
+};
+
+// 在扩展图标上显示待确认的数量
+export const updateBadge = async (count: number): Promise<void> => {
+  await chrome.action.setBadgeText({ text: count > 0 ? String(count) : '' });
+  if (count > 0) {
+    await chrome.action.setBadgeBackgroundColor({ color: '#f59e0b' });
+  }
+};
+
+// 按存储的列表刷新角标（浏览器启动后角标不会保留）
+export const refreshBadge = async (): Promise<void> => {
+  await updateBadge((await getPendingSuggestions()).length);
+};
+
+// 串行更新列表，避免多个新书签同时处理时互相覆盖；返回 null 表示无需修改
+let updateQueue: Promise<unknown> = Promise.resolve();
+const updatePendingSuggestions = (
+  update: (list: PendingSuggestion[]) => PendingSuggestion[] | null
+): Promise<void> => {
+  const next = updateQueue.then(async () => {
+    const list = update(await getPendingSuggestions());
+    if (!list) return;
+    await chrome.storage.local.set({ [PENDING_KEY]: list });
+    await updateBadge(list.length);
+  });
+  updateQueue = next.catch(() => undefined);
+  return next;
+};
+
+// 加入待确认列表（同一书签只保留最新的建议）
+export const addPendingSuggestion = (suggestion: PendingSuggestion): Promise<void> => {
+  return updatePendingSuggestions(list => [
+    ...list.filter(s => s.bookmarkId !== suggestion.bookmarkId),
+    suggestion
+  ]);
+};
+
+// 从待确认列表移除
+export const removePendingSuggestion = (bookmarkId: string): Promise<void> => {
+  return updatePendingSuggestions(list =>
+    list.some(s => s.bookmarkId === bookmarkId) ? list.filter(s => s.bookmarkId !== bookmarkId) : null
+  );
+};
+
+// 清空待确认列表
+export const clearPendingSuggestions = (): Promise<void> => {
+  return updatePendingSuggestions(list => (list.length > 0 ? [] : null));
+};
+
+// 监听待确认列表的变化，返回取消监听的函数
+export const onPendingSuggestionsChanged = (
+  callback: (list: PendingSuggestion[]) => void
+): (() => void) => {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName === 'local' && PENDING_KEY in changes) {
+      const list = changes[PENDING_KEY].newValue;
+      callback(Array.isArray(list) ? (list as PendingSuggestion[]) : []);
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
+
+// 暂停新书签自动整理（扩展自身批量创建书签时使用，如回滚快照）
+export const suspendAutoOrganize = async (durationMs = DEFAULT_SUSPEND_MS): Promise<void> => {
+  await chrome.storage.session.set({ [SUSPENDED_UNTIL_KEY]: Date.now() + durationMs });
+};
+
+// 恢复新书签自动整理（经过 RESUME_GRACE_MS 后生效）
+export const resumeAutoOrganize = async (): Promise<void> => {
+  await chrome.storage.session.set({ [SUSPENDED_UNTIL_KEY]: Date.now() + RESUME_GRACE_MS });
+};
+
+// 记录浏览器是否正在导入书签；导入结束后同样经过 RESUME_GRACE_MS 才恢复
+export const setImportInProgress = async (importing: boolean): Promise<void> => {
+  if (importing) {
+    await chrome.storage.session.set({ [IMPORTING_KEY]: true });
+    return;
+  }
+  
+  const result = await chrome.storage.session.get(SUSPENDED_UNTIL_KEY);
+  const suspendedUntil = (result[SUSPENDED_UNTIL_KEY] as number | undefined) ?? 0;
+  await chrome.storage.session.set({ [SUSPENDED_UNTIL_KEY]: Math.max(suspendedUntil, Date.now() + RESUME_GRACE_MS) });
+  await chrome.storage.session.remove(IMPORTING_KEY);
+};
+
+// 在 at 时刻是否暂停自动整理（导入书签期间或被扩展暂停）
+// 处理事件时传入事件到达的时间：读取设置等异步操作期间暂停可能已被解除
+export const isAutoOrganizePaused = async (at = Date.now()): Promise<boolean> => {
+  const result = await chrome.storage.session.get([SUSPENDED_UNTIL_KEY, IMPORTING_KEY]);
+  const suspendedUntil = (result[SUSPENDED_UNTIL_KEY] as number | undefined) ?? 0;
+  return !!result[IMPORTING_KEY] || suspendedUntil > at;
+};
+
+// 将书签移动到指定路径的文件夹（不存在的各级文件夹依次新建）并添加标签
+export const moveBookmarkToPath = async (
+  bookmarkId: string,
+  folderPath: string,
+  tags: string[] = []
+): Promise<void> => {
+  const tree = await chrome.bookmarks.getTree();
+  const target = await ensureFolderPath(getFolderPaths(tree), folderPath, findBookmarkBarId(tree));
+  await chrome.bookmarks.move(bookmarkId, { parentId: target.id });
+
+  if (tags.length > 0) {
+    try {
+      await addTagsToBookmark(bookmarkId, tags);
+    } catch (e) {
+      console.error('保存标签失败:', e);
+    }
+  }
+};
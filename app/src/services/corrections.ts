@@ -0,0 +1,115 @@
+import type { AISettings, CorrectionRecord } from '@/types';
+import { getAllCorrections, putCorrections } from '@/services/storageService';
+import { isSameFolderPath } from '@/hooks/useBookmarks';
+
+// 每次请求最多附带的纠正示例数
+export const MAX_CORRECTION_EXAMPLES = 6;
+
+// 需要比对相关度的书签
+export interface CorrectionTarget {
+  url: string;
+  title: string;
+}
+
+// 提取主机名（去掉 www 前缀）
+const getDomain = (url: string): string => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+// 分词：英文按单词，中日韩文字按相邻两字
+const tokenize = (text: string): Set<string> => {
+  const tokens = new Set<string>();
+  const lower = text.toLowerCase();
+  for (const word of lower.match(/[a-z0-9]{2,}/g) || []) {
+    tokens.add(word);
+  }
+  for (const run of lower.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu) || []) {
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.add(run.slice(i, i + 2));
+    }
+  }
+  return tokens;
+};
+
+// 相关度：同域名 + 标题词重合度（Jaccard）
+const scoreCorrection = (record: CorrectionRecord, target: CorrectionTarget): number => {
+  let score = record.domain && record.domain === getDomain(target.url) ? 3 : 0;
+
+  const a = tokenize(record.title);
+  const b = tokenize(target.title);
+  if (a.size > 0 && b.size > 0) {
+    const overlap = [...a].filter(token => b.has(token)).length;
+    score += (overlap / (a.size + b.size - overlap)) * 2;
+  }
+  return score;
+};
+
+// 记录用户的纠正（AI 建议与最终选择一致的条目会被忽略）
+export const recordCorrections = async (
+  items: Omit<CorrectionRecord, 'domain' | 'createdAt'>[]
+): Promise<void> => {
+  const now = Date.now();
+  const records = items
+    .filter(item => item.url && !isSameFolderPath(item.chosenFolder, item.suggestedFolder))
+    .map(item => ({ ...item, domain: getDomain(item.url), createdAt: now }));
+
+  try {
+    await putCorrections(records);
+  } catch (e) {
+    console.warn('保存分类纠正失败:', e);
+  }
+};
+
+// 加载纠正记录（关闭学习或读取失败时返回空列表）
+export const loadCorrections = async (
+  settings: Pick<AISettings, 'learnFromCorrections'>
+): Promise<CorrectionRecord[]> => {
+  if (!settings.learnFromCorrections) return [];
+  try {
+    return await getAllCorrections();
+  } catch (e) {
+    console.warn('读取分类纠正失败:', e);
+    return [];
+  }
+};
+
+// 选出与目标书签最相关的纠正示例；只保留目标文件夹仍在可选列表中的示例
+export const selectRelevantCorrections = (
+  corrections: CorrectionRecord[],
+  targets: CorrectionTarget[],
+  availableFolders: string[],
+  limit = MAX_CORRECTION_EXAMPLES
+): CorrectionRecord[] => {
+  const folders = new Set(availableFolders.map(f => f.toLowerCase()));
+
+  return corrections
+    .filter(record => folders.has(record.chosenFolder.toLowerCase()))
+    .map(record => ({
+      record,
+      score: Math.max(0, ...targets.map(target => scoreCorrection(record, target)))
+    }))
+    .filter(({ score }) => score > 0)
+    // 相关度相同时优先最近的纠正
+    .sort((a, b) => b.score - a.score || b.record.createdAt - a.record.createdAt)
+    .slice(0, limit)
+    .map(({ record }) => record);
+};
+
+// 示例的指纹（参与缓存键计算，示例变化时缓存失效）
+export const getCorrectionsFingerprint = (examples: CorrectionRecord[]): string => {
+  return examples.map(e => `${e.url}>${e.chosenFolder}`).sort().join('\n');
+};
+
+// 格式化为 Prompt 中的 Few-shot 示例
+export const formatCorrectionExamples = (examples: CorrectionRecord[]): string => {
+  if (examples.length === 0) return '';
+
+  const lines = examples.map(e =>
+    `- "${e.title}" [${e.domain}] → ${JSON.stringify(e.chosenFolder)} (AI had suggested ${JSON.stringify(e.suggestedFolder)})`
+  );
+  return `\n\nPast corrections by this user (follow the same preferences for similar bookmarks):\n${lines.join('\n')}`;
+};
@@ -0,0 +1,248 @@
+import type { AISettings, BookmarkNode, DuplicateCluster, DuplicateMatchKind, UrlNormalizationRules } from '@/types';
+import { callEmbeddings } from '@/services/aiService';
+import { cosineSimilarity, getBookmarkEmbeddingText, getEmbeddings, isEmbeddingAvailable } from '@/services/embeddings';
+import { DEFAULT_URL_RULES, normalizeUrl } from '@/services/urlNormalizer';
+
+// 标题相似度达到该值视为近似重复
+export const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+// 嵌入向量的余弦相似度达到该值视为内容重复
+export const SEMANTIC_SIMILARITY_THRESHOLD = 0.95;
+
+// 规范化后短于该长度的标题不参与比较，避免 "Home"、"登录" 之类的通用标题误判
+const MIN_TITLE_LENGTH = 8;
+
+// 出现在过多书签中的片段不用于生成候选对（通用词不能说明两个书签相关）
+const MAX_SHINGLE_FREQUENCY = 50;
+
+// 书签数不超过该值时两两比较嵌入向量，否则只比较标题相近的候选对
+const SEMANTIC_FULL_SCAN_LIMIT = 1500;
+
+// 匹配方式的可信程度（簇中包含多种方式时按最弱的显示）
+const KIND_RANK: Record<DuplicateMatchKind, number> = { url: 0, title: 1, semantic: 2 };
+
+// 规范化标题：小写、去掉 " - 站点名" 后缀和标点
+export const normalizeTitle = (title: string): string => {
+  const clean = (text: string) => text
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const withoutSuffix = title.replace(/\s+[-|–—·•]\s+[^-|–—·•]+$/, '');
+  const normalized = clean(withoutSuffix);
+  return normalized.length >= MIN_TITLE_LENGTH ? normalized : clean(title);
+};
+
+// 字符三元组（中文等无空格的语言同样适用）
+const getShingles = (text: string): Set<string> => {
+  const shingles = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    shingles.add(text.slice(i, i + 3));
+  }
+  return shingles;
+};
+
+// 三元组集合的 Jaccard 相似度
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(s => { if (b.has(s)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// 归一化编辑距离相似度（1 表示完全相同）
+const levenshteinSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / maxLength;
+};
+
+// 两个规范化标题的相似度：取三元组 Jaccard 与编辑距离中较高者
+export const titleSimilarity = (a: string, b: string): number => {
+  if (a.length < MIN_TITLE_LENGTH || b.length < MIN_TITLE_LENGTH) return 0;
+  return Math.max(jaccard(getShingles(a), getShingles(b)), levenshteinSimilarity(a, b));
+};
+
+// 让出主线程，避免长时间比较时页面卡顿
+const yieldToMain = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// 并查集
+const createUnionFind = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+  return { find, union };
+};
+
+// 相似的两个书签
+interface DuplicateEdge {
+  a: number;
+  b: number;
+  similarity: number;
+  kind: DuplicateMatchKind;
+}
+
+// 扫描选项
+export interface DuplicateScanOptions {
+  // 按标题相似度查找近似重复（关闭时只按 URL 判断）
+  nearDuplicates: boolean;
+  // 比较地址时的网址规范化规则
+  urlRules?: UrlNormalizationRules;
+  // 提供设置且启用了嵌入向量时，额外按内容语义查找重复
+  semanticSettings?: AISettings;
+  signal?: AbortSignal;
+}
+
+// 查找重复与近似重复的书签，按相似度分簇（相似度高的簇在前）
+export const findDuplicateClusters = async (
+  bookmarks: BookmarkNode[],
+  options: DuplicateScanOptions
+): Promise<DuplicateCluster[]> => {
+  const { nearDuplicates, urlRules = DEFAULT_URL_RULES, semanticSettings, signal } = options;
+  const items = bookmarks.filter(b => b.url);
+  const edges: DuplicateEdge[] = [];
+
+  // 1. 规范化后的地址相同
+  const byUrl = new Map<string, number[]>();
+  items.forEach((b, i) => {
+    const key = normalizeUrl(b.url!, urlRules);
+    const list = byUrl.get(key);
+    if (list) list.push(i);
+    else byUrl.set(key, [i]);
+  });
+  byUrl.forEach(indexes => {
+    indexes.slice(1).forEach(i => edges.push({ a: indexes[0], b: i, similarity: 1, kind: 'url' }));
+  });
+
+  // 2. 标题相近：共享不常见三元组的书签作为候选对，再计算完整的相似度
+  // 书签较多时语义比较也只比较这些候选对，因此只要会进行语义比较就生成候选对
+  const semantic = !!semanticSettings && isEmbeddingAvailable(semanticSettings) && items.length > 1;
+  const titles = items.map(b => normalizeTitle(b.title));
+  const candidates = new Set<string>();
+  if (nearDuplicates || (semantic && items.length > SEMANTIC_FULL_SCAN_LIMIT)) {
+    const index = new Map<string, number[]>();
+    titles.forEach((title, i) => {
+      if (title.length < MIN_TITLE_LENGTH) return;
+      getShingles(title).forEach(s => {
+        const list = index.get(s);
+        if (list) list.push(i);
+        else index.set(s, [i]);
+      });
+    });
+    index.forEach(list => {
+      if (list.length > MAX_SHINGLE_FREQUENCY) return;
+      for (let x = 0; x < list.length; x++) {
+        for (let y = x + 1; y < list.length; y++) {
+          candidates.add(`${list[x]}:${list[y]}`);
+        }
+      }
+    });
+  }
+
+  if (nearDuplicates) {
+    let checked = 0;
+    for (const pair of candidates) {
+      const [a, b] = pair.split(':').map(Number);
+      const similarity = titleSimilarity(titles[a], titles[b]);
+      if (similarity >= TITLE_SIMILARITY_THRESHOLD) {
+        edges.push({ a, b, similarity, kind: 'title' });
+      }
+      if (++checked % 2000 === 0) {
+        signal?.throwIfAborted();
+        await yieldToMain();
+      }
+    }
+  }
+
+  // 3. 内容语义相近（嵌入向量）
+  if (semanticSettings && semantic) {
+    const fullScan = items.length <= SEMANTIC_FULL_SCAN_LIMIT;
+    const pairs = fullScan ? [] : [...candidates].map(pair => pair.split(':').map(Number));
+    // 只请求需要比较的书签的向量，没有候选对时不请求
+    const needed = fullScan ? items.map((_, i) => i) : [...new Set(pairs.flat())].sort((a, b) => a - b);
+    const vectors = new Map<number, Float32Array>();
+    if (needed.length > 1) {
+      const result = await getEmbeddings(
+        semanticSettings,
+        needed.map(i => getBookmarkEmbeddingText(items[i])),
+        (inputs) => callEmbeddings(semanticSettings, inputs, signal),
+        signal
+      );
+      needed.forEach((i, j) => vectors.set(i, result[j]));
+    }
+    const addSemanticEdge = (a: number, b: number) => {
+      const similarity = cosineSimilarity(vectors.get(a)!, vectors.get(b)!);
+      if (similarity >= SEMANTIC_SIMILARITY_THRESHOLD) {
+        edges.push({ a, b, similarity, kind: 'semantic' });
+      }
+    };
+
+    if (fullScan) {
+      for (let a = 0; a < items.length; a++) {
+        for (let b = a + 1; b < items.length; b++) addSemanticEdge(a, b);
+        if (a % 100 === 99) {
+          signal?.throwIfAborted();
+          await yieldToMain();
+        }
+      }
+    } else if (needed.length > 1) {
+      pairs.forEach(([a, b]) => addSemanticEdge(a, b));
+    }
+  }
+
+  // 合并为簇：簇的相似度与匹配方式取最弱的一条边
+  const { find, union } = createUnionFind(items.length);
+  const strongest = new Map<string, DuplicateEdge>();
+  for (const edge of edges) {
+    // 同一对书签只保留最可信的匹配
+    const pair = `${Math.min(edge.a, edge.b)}:${Math.max(edge.a, edge.b)}`;
+    const existing = strongest.get(pair);
+    if (!existing || KIND_RANK[edge.kind] < KIND_RANK[existing.kind]) {
+      strongest.set(pair, edge);
+    }
+    union(edge.a, edge.b);
+  }
+
+  const clusters = new Map<number, { members: Set<number>; similarity: number; kind: DuplicateMatchKind }>();
+  strongest.forEach(edge => {
+    const root = find(edge.a);
+    const cluster = clusters.get(root) ?? { members: new Set<number>(), similarity: 1, kind: 'url' as DuplicateMatchKind };
+    cluster.members.add(edge.a).add(edge.b);
+    cluster.similarity = Math.min(cluster.similarity, edge.similarity);
+    if (KIND_RANK[edge.kind] > KIND_RANK[cluster.kind]) cluster.kind = edge.kind;
+    clusters.set(root, cluster);
+  });
+
+  return [...clusters.values()]
+    .map(({ members, similarity, kind }) => {
+      // 最早添加的书签排在前面（默认保留）
+      const list = [...members]
+        .map(i => items[i])
+        .sort((a, b) => (a.dateAdded ?? 0) - (b.dateAdded ?? 0));
+      return { key: list[0].id, bookmarks: list, similarity, kind };
+    })
+    .sort((a, b) => b.similarity - a.similarity || b.bookmarks.length - a.bookmarks.length);
+};
@@ -0,0 +1,244 @@
+import type { AISettings, BookmarkNode, OrganizeSuggestion } from '@/types';
+import { getProvider } from '@/services/aiProviders';
+import { sha256 } from '@/services/aiCache';
+import { getEmbeddingEntries, putEmbeddingEntries } from '@/services/storageService';
+import { splitFolderPath } from '@/hooks/useBookmarks';
+
+// 每次请求最多发送的文本数
+export const EMBEDDING_BATCH_SIZE = 64;
+
+// 每个文件夹最多取多少个书签计算中心向量
+export const MAX_FOLDER_SAMPLES = 50;
+
+// 参与分类的候选文件夹：路径与抽样的书签
+export interface FolderSample {
+  path: string;
+  members: BookmarkNode[];
+}
+
+// 文件夹的中心向量（文件夹名称与书签的单位向量之和；余弦相似度与缩放无关，不必求平均）
+export interface FolderCentroid {
+  path: string;
+  sum: Float32Array;
+  // 参与计算的书签，分类这些书签时需减去其自身的向量
+  memberIds: Set<string>;
+}
+
+// 当前设置能否使用嵌入向量（需开启且提供商支持嵌入接口）
+export const isEmbeddingAvailable = (
+  settings: Pick<AISettings, 'provider' | 'embeddingsEnabled' | 'embeddingModel'>
+): boolean => {
+  const provider = getProvider(settings.provider);
+  return settings.embeddingsEnabled
+    && !!settings.embeddingModel.trim()
+    && provider.capabilities.embeddings
+    && !!provider.buildEmbeddingRequest;
+};
+
+// 书签的嵌入文本：标题 + 站点与路径（路径常包含主题关键词）
+export const getBookmarkEmbeddingText = (bookmark: Pick<BookmarkNode, 'title' | 'url'>): string => {
+  const url = bookmark.url || '';
+  let location = url;
+  try {
+    const parsed = new URL(url);
+    let path = parsed.pathname;
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // 保留原始路径
+    }
+    location = `${parsed.hostname.replace(/^www\./, '')}${path.replace(/\/+$/, '')}`;
+  } catch {
+    // 非标准 URL 原样使用
+  }
+  return `${bookmark.title.trim()}\n${location}`.trim();
+};
+
+// 文件夹的嵌入文本：按层级展开的完整路径
+export const getFolderEmbeddingText = (path: string): string => {
+  return splitFolderPath(path).join(' > ');
+};
+
+// 缓存键：提供商 + 嵌入模型 + 文本
+const buildEmbeddingKey = (
+  settings: Pick<AISettings, 'provider' | 'embeddingModel'>,
+  text: string
+): Promise<string> => {
+  return sha256([`${settings.provider}:${settings.embeddingModel}`, text].join('\u0000'));
+};
+
+// 从缓存读取的向量（旧版本写入的条目为 number[]）
+const toVector = (vector: Float32Array | number[]): Float32Array => {
+  return vector instanceof Float32Array ? vector : Float32Array.from(vector);
+};
+
+// 读取缓存的向量，缓存不可用时返回空
+const readCache = async (keys: string[]): Promise<Map<string, Float32Array>> => {
+  const vectors = new Map<string, Float32Array>();
+  try {
+    const cached = await getEmbeddingEntries(keys);
+    cached.forEach((entry, key) => vectors.set(key, toVector(entry.vector)));
+  } catch (e) {
+    console.warn('读取嵌入向量缓存失败:', e);
+  }
+  return vectors;
+};
+
+const writeCache = async (model: string, vectors: [string, Float32Array][]): Promise<void> => {
+  const now = Date.now();
+  try {
+    await putEmbeddingEntries(vectors.map(([key, vector]) => ({ key, model, vector, createdAt: now })));
+  } catch (e) {
+    console.warn('写入嵌入向量缓存失败:', e);
+  }
+};
+
+// 获取文本的嵌入向量（顺序与输入一致）：先读缓存，未命中的文本去重后分批请求并写入缓存
+export const getEmbeddings = async (
+  settings: Pick<AISettings, 'provider' | 'embeddingModel'>,
+  texts: string[],
+  fetchBatch: (inputs: string[]) => Promise<number[][]>,
+  signal?: AbortSignal
+): Promise<Float32Array[]> => {
+  const keys = await Promise.all(texts.map(text => buildEmbeddingKey(settings, text)));
+  const vectors = await readCache(keys);
+
+  const missing = new Map<string, string>();
+  texts.forEach((text, i) => {
+    if (!vectors.has(keys[i])) missing.set(keys[i], text);
+  });
+
+  const pending = [...missing];
+  for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+    signal?.throwIfAborted();
+    const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const result = await fetchBatch(batch.map(([, text]) => text));
+    if (result.length !== batch.length || result.some(v => v.length === 0)) {
+      throw new Error(`嵌入接口返回的向量数量无效（${result.length}/${batch.length}）`);
+    }
+
+    const entries = batch.map(([key], j): [string, Float32Array] => [key, Float32Array.from(result[j])]);
+    entries.forEach(([key, vector]) => vectors.set(key, vector));
+    await writeCache(settings.embeddingModel, entries);
+  }
+
+  return keys.map(key => vectors.get(key) ?? new Float32Array(0));
+};
+
+// 余弦相似度（维度不一致或零向量时返回 0）
+export const cosineSimilarity = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// 归一化为单位向量，使各书签在中心向量中的权重相同
+const normalize = (vector: Float32Array): Float32Array => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+};
+
+// 中心向量的缓存键：文件夹路径与抽样书签（ID 与嵌入文本）不变时复用
+const buildCentroidKey = (
+  settings: Pick<AISettings, 'provider' | 'embeddingModel'>,
+  folder: FolderSample
+): Promise<string> => {
+  return sha256([
+    'centroid',
+    `${settings.provider}:${settings.embeddingModel}`,
+    folder.path,
+    ...folder.members.map(b => `${b.id}\t${getBookmarkEmbeddingText(b)}`)
+  ].join('\u0000'));
+};
+
+// 获取各文件夹的中心向量：内容未变的文件夹直接读缓存，其余请求名称与书签的向量后计算并写入缓存
+export const getFolderCentroids = async (
+  settings: Pick<AISettings, 'provider' | 'embeddingModel'>,
+  folders: FolderSample[],
+  fetchBatch: (inputs: string[]) => Promise<number[][]>,
+  signal?: AbortSignal
+): Promise<FolderCentroid[]> => {
+  const keys = await Promise.all(folders.map(folder => buildCentroidKey(settings, folder)));
+  const sums = await readCache(keys);
+
+  const missing = folders.filter((_, i) => !sums.has(keys[i]));
+  if (missing.length > 0) {
+    const vectors = await getEmbeddings(
+      settings,
+      missing.flatMap(folder => [getFolderEmbeddingText(folder.path), ...folder.members.map(getBookmarkEmbeddingText)]),
+      fetchBatch,
+      signal
+    );
+
+    let offset = 0;
+    const computed: [string, Float32Array][] = [];
+    for (const folder of missing) {
+      const sum = normalize(vectors[offset]).slice();
+      for (const vector of vectors.slice(offset + 1, offset + 1 + folder.members.length)) {
+        if (vector.length !== sum.length) continue;
+        normalize(vector).forEach((v, i) => { sum[i] += v; });
+      }
+      offset += 1 + folder.members.length;
+      computed.push([keys[folders.indexOf(folder)], sum]);
+    }
+    computed.forEach(([key, sum]) => sums.set(key, sum));
+    await writeCache(settings.embeddingModel, computed);
+  }
+
+  return folders.map((folder, i) => ({
+    path: folder.path,
+    sum: sums.get(keys[i]) ?? new Float32Array(0),
+    memberIds: new Set(folder.members.map(b => b.id))
+  }));
+};
+
+// 按与各文件夹中心向量的相似度分类
+// 只返回最相近与次相近的差值不小于 margin 的书签，其余交给对话模型判断
+// 书签所在文件夹的中心向量不包含它自身，避免总是倾向于原文件夹
+export const classifyByEmbeddings = (
+  items: { id: string; vector: Float32Array }[],
+  centroids: FolderCentroid[],
+  margin: number,
+  language: 'zh' | 'en'
+): Map<string, OrganizeSuggestion> => {
+  const result = new Map<string, OrganizeSuggestion>();
+  if (centroids.length < 2) return result;
+
+  const minMargin = Math.max(0.001, margin);
+
+  for (const item of items) {
+    const vector = normalize(item.vector);
+    const scores = centroids
+      .map(centroid => {
+        // 中心向量包含该书签时减去其自身的单位向量（与计算中心向量时使用的相同）
+        const own = centroid.memberIds.has(item.id) && vector.length === centroid.sum.length;
+        const sum = own ? centroid.sum.map((v, i) => v - vector[i]) : centroid.sum;
+        return { path: centroid.path, similarity: cosineSimilarity(vector, sum) };
+      })
+      .sort((a, b) => b.similarity - a.similarity);
+    const [best, second] = scores;
+    const gap = best.similarity - second.similarity;
+    if (best.similarity <= 0 || gap < minMargin) continue;
+
+    // 差值刚达到 margin 时为 0.6（低于默认自动接受阈值，需人工复核），达到两倍 margin 时为 0.95
+    const confidence = Math.min(0.95, 0.6 + (0.35 * (gap - minMargin)) / minMargin);
+    const similarity = best.similarity.toFixed(2);
+    result.set(item.id, {
+      category: best.path,
+      isNewCategory: false,
+      confidence: Math.round(confidence * 100) / 100,
+      reason: language === 'zh'
+        ? `与「${best.path}」中的书签内容最相近（相似度 ${similarity}）`
+        : `Most similar to bookmarks in "${best.path}" (similarity ${similarity})`
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,154 @@
+import type { AISettings, BookmarkNode, InboxProcessedEntry, InboxRunSummary, OrganizeSuggestion } from '@/types';
+import { getOrganizeSuggestions } from '@/services/aiService';
+import { addPendingSuggestion, getPendingSuggestions, moveBookmarkToPath } from '@/services/autoOrganize';
+import { addOperationLog, createSnapshot } from '@/services/storageService';
+import { getFolderPaths, findFolderByPath, flattenBookmarks } from '@/hooks/useBookmarks';
+
+// 收件箱定时整理的 alarm 名称
+export const INBOX_ALARM = 'inbox-organize';
+
+// 按设置创建或清除定时任务（间隔未变化时保留原有计划）
+export const scheduleInboxAlarm = async (
+  settings: Pick<AISettings, 'inboxFolderId' | 'inboxIntervalMinutes'>
+): Promise<void> => {
+  if (!settings.inboxFolderId) {
+    await chrome.alarms.clear(INBOX_ALARM);
+    return;
+  }
+
+  const period = Math.max(1, settings.inboxIntervalMinutes);
+  const existing = await chrome.alarms.get(INBOX_ALARM);
+  if (existing?.periodInMinutes === period) return;
+  await chrome.alarms.create(INBOX_ALARM, { delayInMinutes: period, periodInMinutes: period });
+};
+
+// 已处理过的书签保存在 chrome.storage.local
+const PROCESSED_KEY = 'inboxProcessed';
+
+// 分类失败后重试的等待时间：每次失败翻倍，最长一天
+const RETRY_BASE_MS = 60 * 60 * 1000;
+const RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+// 读取已处理过的书签
+const getProcessedEntries = async (): Promise<Record<string, InboxProcessedEntry>> => {
+  const result = await chrome.storage.local.get(PROCESSED_KEY);
+  const entries = result[PROCESSED_KEY];
+  return entries && typeof entries === 'object' ? (entries as Record<string, InboxProcessedEntry>) : {};
+};
+
+// 书签本次是否需要处理：给出过建议的（包括用户已忽略的）不再处理，失败的等退避时间过后重试
+const shouldProcess = (entry: InboxProcessedEntry | undefined, now: number): boolean => {
+  if (!entry) return true;
+  if (entry.failures === 0) return false;
+  return now >= entry.processedAt + Math.min(RETRY_BASE_MS * 2 ** (entry.failures - 1), RETRY_MAX_MS);
+};
+
+// 同一时间只运行一次整理
+let running = false;
+
+// 整理收件箱：高置信度的建议按设置直接移动，其余放入待确认列表
+// 已给出过建议的书签（待确认或已被忽略）不会重复处理；没有可处理的书签时返回 null
+export const processInbox = async (settings: AISettings): Promise<InboxRunSummary | null> => {
+  if (!settings.inboxFolderId || running) return null;
+  running = true;
+
+  try {
+    const now = Date.now();
+    const pendingIds = new Set((await getPendingSuggestions()).map(s => s.bookmarkId));
+    const children: BookmarkNode[] = await chrome.bookmarks.getChildren(settings.inboxFolderId);
+
+    // 只保留仍在收件箱中的记录（移出后再放回的书签会重新处理）
+    const stored = await getProcessedEntries();
+    const processed: Record<string, InboxProcessedEntry> = {};
+    children.forEach((b) => {
+      if (stored[b.id]) processed[b.id] = stored[b.id];
+    });
+
+    const bookmarks = children
+      .filter(b => b.url && !pendingIds.has(b.id) && shouldProcess(processed[b.id], now))
+      .slice(0, Math.max(1, settings.inboxMaxItems));
+    if (bookmarks.length === 0) {
+      await chrome.storage.local.set({ [PROCESSED_KEY]: processed });
+      return null;
+    }
+
+    // 收件箱本身不作为分类目标
+    const tree = await chrome.bookmarks.getTree();
+    const folders = getFolderPaths(tree);
+    const inboxPath = folders.find(f => f.id === settings.inboxFolderId)?.path ?? '';
+    const { suggestions } = await getOrganizeSuggestions(
+      settings,
+      bookmarks,
+      folders.filter(f => f.id !== settings.inboxFolderId).map(f => f.path),
+      { embeddingReference: { folders, bookmarks: flattenBookmarks(tree) } }
+    );
+
+    const toMove: [BookmarkNode, OrganizeSuggestion][] = [];
+    const toQueue: [BookmarkNode, OrganizeSuggestion][] = [];
+    for (const bookmark of bookmarks) {
+      const suggestion = suggestions.get(bookmark.id);
+      if (!suggestion) continue;
+      const autoApply = settings.inboxAutoApply && (suggestion.confidence ?? 0) >= settings.autoAcceptThreshold;
+      (autoApply ? toMove : toQueue).push([bookmark, suggestion]);
+    }
+
+    // 移动前创建快照，便于在历史记录中回滚
+    let snapshotId: string | undefined;
+    if (toMove.length > 0) {
+      snapshotId = (await createSnapshot(tree, `收件箱整理前 - ${toMove.length} 个书签`)).id;
+    }
+
+    // 先把本次的书签都记为失败，给出建议或移动成功后再改为已处理
+    bookmarks.forEach((b) => {
+      processed[b.id] = { processedAt: now, failures: (processed[b.id]?.failures ?? 0) + 1 };
+    });
+
+    let moved = 0;
+    for (const [bookmark, suggestion] of toMove) {
+      try {
+        await moveBookmarkToPath(bookmark.id, suggestion.category, suggestion.tags);
+        delete processed[bookmark.id];
+        moved++;
+      } catch (e) {
+        console.error('移动收件箱书签失败:', e);
+      }
+    }
+
+    for (const [bookmark, suggestion] of toQueue) {
+      const existing = findFolderByPath(folders, suggestion.category);
+      await addPendingSuggestion({
+        bookmarkId: bookmark.id,
+        title: bookmark.title,
+        url: bookmark.url || '',
+        currentFolder: inboxPath,
+        suggestedFolder: existing?.path ?? suggestion.category,
+        isNewCategory: !existing,
+        tags: suggestion.tags ?? [],
+        reason: suggestion.reason ?? '',
+        confidence: suggestion.confidence ?? 0,
+        createdAt: Date.now()
+      });
+      processed[bookmark.id] = { processedAt: now, failures: 0 };
+    }
+    await chrome.storage.local.set({ [PROCESSED_KEY]: processed });
+
+    if (moved > 0) {
+      await addOperationLog({
+        type: 'organize',
+        affectedCount: moved,
+        description: `收件箱自动整理 - ${moved} 个书签`,
+        snapshotId
+      });
+    }
+
+    return {
+      processed: bookmarks.length,
+      moved,
+      queued: toQueue.length,
+      failed: bookmarks.length - toMove.length - toQueue.length + (toMove.length - moved),
+      snapshotId
+    };
+  } finally {
+    running = false;
+  }
+};
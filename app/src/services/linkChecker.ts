@@ -0,0 +1,414 @@
+import type { LinkCheckResult, LinkRedirect, LinkStatusKind } from '@/types';
+import { detectParkedDomain, detectSoft404, parsePageSample } from '@/services/softFailures';
+import type { PageSample } from '@/services/softFailures';
+import { sleep } from '@/lib/concurrency';
+
+// 检测选项（fetchImpl 可替换为测试桩或本地测试服务器）
+export interface LinkCheckOptions {
+  fetchImpl?: typeof fetch;
+  // 单次请求的超时（毫秒）
+  timeoutMs?: number;
+  // 全局并发数
+  concurrency?: number;
+  // 同一主机同时进行的请求数
+  perHostConcurrency?: number;
+  // 同一主机两次请求之间的最小间隔（毫秒）
+  perHostDelayMs?: number;
+  maxRedirects?: number;
+  // 请求成功时读取页面内容，判断软 404 与停放域名（默认开启）
+  inspectContent?: boolean;
+  // 各主机随机路径的响应，同一次扫描中共享
+  probeCache?: Map<string, Promise<PageSample | null>>;
+  // 浏览器中 fetch 拿不到的网络层信息
+  tracer?: LinkTracer;
+  signal?: AbortSignal;
+}
+
+// 请求的网络层信息（浏览器中由 webRequest 提供）
+export interface LinkTracer {
+  // 该地址最近一次请求发生的重定向
+  getRedirect: (url: string) => { status: number; location: string } | undefined;
+  // 该地址最近一次请求的网络错误（如 net::ERR_NAME_NOT_RESOLVED）
+  getError: (url: string) => string | undefined;
+}
+
+// 待检测的书签
+export interface LinkCheckItem {
+  id: string;
+  url: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_PER_HOST_CONCURRENCY = 2;
+const DEFAULT_PER_HOST_DELAY_MS = 500;
+const DEFAULT_MAX_REDIRECTS = 10;
+// 判断软失效时最多读取的页面字节数
+const SAMPLE_MAX_BYTES = 64 * 1024;
+
+// 不能代表失效的访问限制状态码
+const BLOCKED_STATUSES = [401, 403, 429, 999];
+
+// HEAD 请求返回这些状态码时改用 GET 再试一次（不少服务器未正确实现 HEAD）
+const shouldRetryWithGet = (status: number) => status >= 400;
+
+// 判断检测结果是否为失效链接
+export const isBrokenLink = (result: Pick<LinkCheckResult, 'kind'>): boolean => {
+  return ['not-found', 'soft-404', 'parked', 'http-error', 'dns', 'tls', 'timeout', 'network'].includes(result.kind);
+};
+
+// 永久重定向状态码
+const PERMANENT_REDIRECT_STATUSES = [301, 308];
+
+// 沿重定向链中连续的永久重定向得到书签的新地址；不是永久迁移时返回 null
+// 永久重定向之后的临时跳转（如跳转到登录页）不计入
+export const getMovedDestination = (result: Pick<LinkCheckResult, 'kind' | 'url' | 'redirects'>): string | null => {
+  if (result.kind !== 'redirected') return null;
+  let destination: string | null = null;
+  for (const hop of result.redirects) {
+    if (!PERMANENT_REDIRECT_STATUSES.includes(hop.status)) break;
+    destination = hop.url;
+  }
+  return destination && destination !== result.url ? destination : null;
+};
+
+// 两个地址是否属于不同的域名（忽略 www.）
+export const isCrossDomainRedirect = (from: string, to: string): boolean => {
+  try {
+    const host = (url: string) => new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    return host(from) !== host(to);
+  } catch {
+    return true;
+  }
+};
+
+// 按状态码分类
+const classifyStatus = (status: number, redirected: boolean): LinkStatusKind => {
+  if (status >= 200 && status < 400) return redirected ? 'redirected' : 'ok';
+  if (BLOCKED_STATUSES.includes(status)) return 'blocked';
+  if (status === 404 || status === 410) return 'not-found';
+  return 'http-error';
+};
+
+// 按错误信息分类网络层错误（兼容 Chrome 的 net::ERR_* 与 Node 的错误码）
+export const classifyNetworkError = (message: string): LinkStatusKind => {
+  if (/NAME_NOT_RESOLVED|NAME_RESOLUTION_FAILED|ENOTFOUND|EAI_AGAIN/i.test(message)) return 'dns';
+  if (/ERR_CERT|ERR_SSL|CERT_|SSL|TLS|SELF_SIGNED|UNABLE_TO_VERIFY/i.test(message)) return 'tls';
+  if (/TIMED_OUT|TIMEOUT|ETIMEDOUT/i.test(message)) return 'timeout';
+  return 'network';
+};
+
+// 取出错误及其 cause 中的信息（Node 的 fetch 把底层错误码放在 cause 中）
+const describeError = (e: unknown): string => {
+  if (!(e instanceof Error)) return String(e);
+  const cause = e.cause as { code?: string; message?: string } | undefined;
+  return [e.message, cause?.code, cause?.message].filter(Boolean).join(': ');
+};
+
+// 浏览器隐藏了重定向细节时，用 tracer 记录的跳转还原重定向链
+const traceRedirects = (url: string, finalUrl: string, tracer: LinkTracer | undefined, maxRedirects: number): LinkRedirect[] => {
+  const redirects: LinkRedirect[] = [];
+  let current = url;
+  while (tracer && redirects.length < maxRedirects) {
+    const hop = tracer.getRedirect(current);
+    if (!hop) break;
+    redirects.push({ url: hop.location, status: hop.status });
+    current = hop.location;
+  }
+  if (finalUrl && finalUrl !== url && redirects[redirects.length - 1]?.url !== finalUrl) {
+    redirects.push({ url: finalUrl, status: 0 });
+  }
+  return redirects;
+};
+
+// 单次请求的结果
+interface RequestOutcome {
+  status: number;
+  finalUrl: string;
+  redirects: LinkRedirect[];
+  error?: string;
+}
+
+// 发送请求并逐跳跟随重定向（能看到 3xx 时手动跟随以记录完整链路）
+const request = async (
+  url: string,
+  method: 'HEAD' | 'GET',
+  options: Required<Pick<LinkCheckOptions, 'fetchImpl' | 'timeoutMs' | 'maxRedirects'>> & Pick<LinkCheckOptions, 'tracer' | 'signal'>
+): Promise<RequestOutcome> => {
+  const { fetchImpl, timeoutMs, maxRedirects, tracer, signal } = options;
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+  const init: RequestInit = {
+    method,
+    credentials: 'omit',
+    cache: 'no-store',
+    signal: requestSignal
+  };
+
+  const redirects: LinkRedirect[] = [];
+  let current = url;
+  for (;;) {
+    const response = await fetchImpl(current, { ...init, redirect: 'manual' });
+    // 不需要正文，取消读取以释放连接
+    response.body?.cancel().catch(() => {});
+
+    // 扩展环境中 manual 模式得到的是不透明响应，改为自动跟随
+    if (response.type === 'opaqueredirect') {
+      const followed = await fetchImpl(current, { ...init, redirect: 'follow' });
+      followed.body?.cancel().catch(() => {});
+      const finalUrl = followed.url || current;
+      return {
+        status: followed.status,
+        finalUrl,
+        redirects: [...redirects, ...traceRedirects(current, finalUrl, tracer, maxRedirects - redirects.length)]
+      };
+    }
+
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { status: response.status, finalUrl: current, redirects };
+    }
+
+    const next = new URL(location, current).toString();
+    redirects.push({ url: next, status: response.status });
+    if (redirects.length > maxRedirects || redirects.slice(0, -1).some(r => r.url === next) || next === url) {
+      return { status: response.status, finalUrl: next, redirects, error: 'too many redirects' };
+    }
+    current = next;
+  }
+};
+
+// 读取页面开头部分作为样本（非 HTML 或请求失败时返回 null；调用方取消时向上抛出）
+const fetchSample = async (
+  url: string,
+  options: Pick<LinkCheckOptions, 'fetchImpl' | 'timeoutMs' | 'signal'>
+): Promise<PageSample | null> => {
+  const { fetchImpl = fetch, timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options;
+  try {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const response = await fetchImpl(url, {
+      method: 'GET',
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+      redirect: 'follow',
+      credentials: 'omit',
+      cache: 'no-store',
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+    });
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.body || (contentType && !/html|xml/i.test(contentType))) {
+      response.body?.cancel().catch(() => {});
+      return null;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let html = '';
+    let bytes = 0;
+    try {
+      while (bytes < SAMPLE_MAX_BYTES) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytes += value.byteLength;
+        html += decoder.decode(value, { stream: true });
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+    return parsePageSample(response.url || url, response.status, html);
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return null;
+  }
+};
+
+// 请求同一主机上一个不存在的随机路径，用于对比软 404（每个主机只请求一次）
+const probeHost = (url: string, options: LinkCheckOptions): Promise<PageSample | null> => {
+  const origin = new URL(url).origin;
+  const cache = options.probeCache;
+  const cached = cache?.get(origin);
+  if (cached) return cached;
+
+  const random = Math.random().toString(36).slice(2, 12);
+  const probe = fetchSample(`${origin}/bookmark-check-${random}`, options);
+  cache?.set(origin, probe);
+  return probe;
+};
+
+// 检查返回成功的页面内容，是软 404 或停放域名时改写结论
+const inspectContent = async (result: LinkCheckResult, options: LinkCheckOptions): Promise<LinkCheckResult> => {
+  const sample = await fetchSample(result.finalUrl ?? result.url, options);
+  if (!sample) return result;
+
+  const parked = detectParkedDomain(result.url, sample);
+  if (parked.length > 0) return { ...result, kind: 'parked', evidence: parked };
+
+  const probe = await probeHost(sample.url, options);
+  const soft404 = detectSoft404(result.url, sample, probe);
+  if (soft404.length > 0) return { ...result, kind: 'soft-404', evidence: soft404 };
+
+  return result;
+};
+
+// 检测单个链接（失败时返回带 error 的结果，不抛出异常；调用方取消时向上抛出）
+export const checkLink = async (item: LinkCheckItem, options: LinkCheckOptions = {}): Promise<LinkCheckResult> => {
+  const {
+    fetchImpl = fetch,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    tracer,
+    signal
+  } = options;
+  const startedAt = Date.now();
+  const base = { bookmarkId: item.id, url: item.url };
+  const finish = (result: Omit<LinkCheckResult, 'bookmarkId' | 'url' | 'durationMs' | 'checkedAt'>): LinkCheckResult => ({
+    ...base,
+    ...result,
+    durationMs: Date.now() - startedAt,
+    checkedAt: Date.now()
+  });
+
+  if (!/^https?:\/\//i.test(item.url)) {
+    return finish({ kind: 'skipped', status: 0, redirects: [], method: 'HEAD', error: 'unsupported protocol' });
+  }
+
+  const requestOptions = { fetchImpl, timeoutMs, maxRedirects, tracer, signal };
+  let method: 'HEAD' | 'GET' = 'HEAD';
+  try {
+    let outcome = await request(item.url, 'HEAD', requestOptions);
+    if (shouldRetryWithGet(outcome.status) && !outcome.error) {
+      method = 'GET';
+      outcome = await request(item.url, 'GET', requestOptions);
+    }
+
+    const redirected = outcome.redirects.length > 0 && outcome.finalUrl !== item.url;
+    const result = finish({
+      kind: outcome.error ? 'http-error' : classifyStatus(outcome.status, redirected),
+      status: outcome.status,
+      finalUrl: redirected ? outcome.finalUrl : undefined,
+      redirects: outcome.redirects,
+      method,
+      error: outcome.error
+    });
+    if (options.inspectContent === false || (result.kind !== 'ok' && result.kind !== 'redirected')) {
+      return result;
+    }
+    return { ...(await inspectContent(result, options)), durationMs: Date.now() - startedAt };
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    if (e instanceof DOMException && e.name === 'TimeoutError') {
+      return finish({ kind: 'timeout', status: 0, redirects: [], method, error: 'timeout' });
+    }
+    // fetch 在浏览器中只报告 "Failed to fetch"，具体原因从 tracer 中取
+    const error = tracer?.getError(item.url) ?? describeError(e);
+    return finish({ kind: classifyNetworkError(error), status: 0, redirects: [], method, error });
+  }
+};
+
+// 取出主机名（无效地址归为同一组）
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+// 批量检测：控制全局与单个主机的并发，同一主机的请求之间保持间隔
+// 每得到一个结果就回调 onResult，便于逐条展示
+export const checkLinks = async (
+  items: LinkCheckItem[],
+  options: LinkCheckOptions & { onResult?: (result: LinkCheckResult) => void } = {}
+): Promise<LinkCheckResult[]> => {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    perHostConcurrency = DEFAULT_PER_HOST_CONCURRENCY,
+    perHostDelayMs = DEFAULT_PER_HOST_DELAY_MS,
+    onResult,
+    signal
+  } = options;
+
+  // 按主机分组排队，主机之间轮流取任务
+  const queues = new Map<string, { item: LinkCheckItem; index: number }[]>();
+  items.forEach((item, index) => {
+    const host = getHost(item.url);
+    const queue = queues.get(host);
+    if (queue) queue.push({ item, index });
+    else queues.set(host, [{ item, index }]);
+  });
+  const hosts = new Map<string, { active: number; nextStart: number }>();
+  queues.forEach((_, host) => hosts.set(host, { active: 0, nextStart: 0 }));
+
+  const results = new Array<LinkCheckResult>(items.length);
+  const probeCache = options.probeCache ?? new Map<string, Promise<PageSample | null>>();
+
+  // 取出一个当前可以开始的任务；没有时返回需要等待的时间
+  const take = (): { host: string; item: LinkCheckItem; index: number } | number => {
+    const now = Date.now();
+    let wait = Infinity;
+    for (const [host, queue] of queues) {
+      const state = hosts.get(host)!;
+      if (queue.length === 0 || state.active >= perHostConcurrency) continue;
+      if (state.nextStart > now) {
+        wait = Math.min(wait, state.nextStart - now);
+        continue;
+      }
+      const next = queue.shift()!;
+      if (queue.length === 0) queues.delete(host);
+      state.active++;
+      state.nextStart = now + perHostDelayMs;
+      return { host, ...next };
+    }
+    // 所有主机都已满载时稍后再看
+    return Number.isFinite(wait) ? wait : 50;
+  };
+
+  const runWorker = async (): Promise<void> => {
+    while (queues.size > 0) {
+      signal?.throwIfAborted();
+      const task = take();
+      if (typeof task === 'number') {
+        await sleep(task, signal);
+        continue;
+      }
+      try {
+        const result = await checkLink(task.item, { ...options, probeCache });
+        results[task.index] = result;
+        onResult?.(result);
+      } finally {
+        hosts.get(task.host)!.active--;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+};
+
+// 用 webRequest 记录扩展自身请求的重定向与网络错误（只在 Service Worker 中调用）
+export const createWebRequestTracer = (): LinkTracer => {
+  const redirects = new Map<string, { status: number; location: string }>();
+  const errors = new Map<string, string>();
+  // 只保留最近的记录，避免长时间运行后占用过多内存
+  const remember = <T>(map: Map<string, T>, key: string, value: T) => {
+    map.delete(key);
+    map.set(key, value);
+    if (map.size > 2000) map.delete(map.keys().next().value!);
+  };
+
+  // tabId 为 -1 表示不属于任何标签页的请求（即扩展自身发出的 fetch）
+  const filter: chrome.webRequest.RequestFilter = { urls: ['<all_urls>'], tabId: -1 };
+  chrome.webRequest.onBeforeRedirect.addListener((details) => {
+    remember(redirects, details.url, { status: details.statusCode, location: details.redirectUrl });
+  }, filter);
+  chrome.webRequest.onErrorOccurred.addListener((details) => {
+    remember(errors, details.url, details.error);
+  }, filter);
+
+  return {
+    getRedirect: (url) => redirects.get(url),
+    getError: (url) => errors.get(url)
+  };
+};
+
@@ -0,0 +1,173 @@
+import type { BrokenLinkCategory, LinkCheckResult, LinkHealthRecord, LinkScanJob } from '@/types';
+import { checkLinks, isBrokenLink } from '@/services/linkChecker';
+import type { LinkCheckItem, LinkTracer } from '@/services/linkChecker';
+import { getLinkHealthRecords, getLinkScanJob, putLinkHealthRecord, putLinkScanJob } from '@/services/storageService';
+
+// 设置页与 Service Worker 之间检测链接的长连接名称
+export const LINK_CHECK_PORT = 'link-check';
+
+// 增量扫描跳过该时间内已检测过的链接
+export const LINK_RECHECK_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 每个链接保留的检测次数
+const HEALTH_HISTORY_SIZE = 6;
+
+// 只保留一个扫描任务
+const JOB_ID = 'current';
+
+// 设置页发出的请求
+export type LinkCheckRequest =
+  | { type: 'start'; items: LinkCheckItem[]; incremental: boolean }
+  | { type: 'resume' }
+  | { type: 'pause' }
+  // 连接后获取当前任务状态
+  | { type: 'attach' };
+
+// Service Worker 推送的消息
+export type LinkCheckMessage =
+  | { type: 'job'; job: LinkScanJob | null; checked: number }
+  | { type: 'result'; result: LinkCheckResult; record: LinkHealthRecord }
+  | { type: 'done'; job: LinkScanJob }
+  | { type: 'error'; error: string };
+
+// 根据新的检测结果更新链接的检测历史
+// 最近几次检测中失效与正常交替出现两次以上（如 正常→失效→正常）视为时好时坏
+export const updateLinkHealth = (previous: LinkHealthRecord | undefined, result: LinkCheckResult): LinkHealthRecord => {
+  const failed = isBrokenLink(result);
+  const history = [...(previous?.history ?? []), failed].slice(-HEALTH_HISTORY_SIZE);
+  const transitions = history.filter((value, i) => i > 0 && value !== history[i - 1]).length;
+  return {
+    url: result.url,
+    lastResult: result,
+    checkedAt: result.checkedAt,
+    consecutiveFailures: failed ? (previous?.consecutiveFailures ?? 0) + 1 : 0,
+    history,
+    flaky: transitions >= 2
+  };
+};
+
+// 失效链接的类别（时好时坏的链接单独列出，避免误删）
+export const getBrokenLinkCategory = (record: LinkHealthRecord): BrokenLinkCategory => {
+  if (record.flaky) return 'flaky';
+  const { kind } = record.lastResult;
+  return kind === 'soft-404' || kind === 'parked' ? kind : 'unreachable';
+};
+
+// 任务中已完成的链接数
+const countChecked = (job: LinkScanJob, records: Map<string, LinkHealthRecord>): number => {
+  return job.items.filter(item => (records.get(item.url)?.checkedAt ?? 0) >= job.startedAt).length;
+};
+
+// 订阅任务进度的页面
+const listeners = new Set<(message: LinkCheckMessage) => void>();
+
+const broadcast = (message: LinkCheckMessage) => {
+  listeners.forEach(listener => listener(message));
+};
+
+export const subscribeLinkScan = (listener: (message: LinkCheckMessage) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// 正在运行的任务
+let activeController: AbortController | null = null;
+
+// 当前任务与进度
+export const getLinkScanState = async (): Promise<{ job: LinkScanJob | null; checked: number }> => {
+  const job = await getLinkScanJob(JOB_ID);
+  if (!job) return { job: null, checked: 0 };
+  const records = await getLinkHealthRecords(job.items.map(item => item.url));
+  return { job, checked: countChecked(job, records) };
+};
+
+// 执行任务中尚未检测的链接，每个结果立即写入 IndexedDB
+const runJob = async (job: LinkScanJob, tracer?: LinkTracer): Promise<void> => {
+  activeController?.abort();
+  const controller = new AbortController();
+  activeController = controller;
+
+  try {
+    const records = await getLinkHealthRecords(job.items.map(item => item.url));
+    const pending = job.items.filter(item => (records.get(item.url)?.checkedAt ?? 0) < job.startedAt);
+    broadcast({ type: 'job', job, checked: job.items.length - pending.length });
+
+    const writes: Promise<void>[] = [];
+    await checkLinks(pending, {
+      tracer,
+      signal: controller.signal,
+      onResult: (result) => {
+        const record = updateLinkHealth(records.get(result.url), result);
+        records.set(result.url, record);
+        writes.push(putLinkHealthRecord(record).catch(e => console.error('保存链接检测记录失败:', e)));
+        broadcast({ type: 'result', result, record });
+      }
+    });
+    await Promise.all(writes);
+
+    const completed: LinkScanJob = { ...job, status: 'completed', updatedAt: Date.now() };
+    await putLinkScanJob(completed);
+    broadcast({ type: 'done', job: completed });
+  } catch (e) {
+    // 暂停或被新任务取代时不报错
+    if (controller.signal.aborted) return;
+    console.error('链接扫描失败:', e);
+    await putLinkScanJob({ ...job, status: 'paused', updatedAt: Date.now() });
+    broadcast({ type: 'error', error: e instanceof Error ? e.message : String(e) });
+  } finally {
+    if (activeController === controller) activeController = null;
+  }
+};
+
+// 开始新的扫描：按 URL 去重；增量扫描时跳过近期已检测过的链接
+export const startLinkScan = async (items: LinkCheckItem[], incremental: boolean, tracer?: LinkTracer): Promise<void> => {
+  activeController?.abort();
+  activeController = null;
+
+  const unique = [...new Map(items.map(item => [item.url, item])).values()];
+  const now = Date.now();
+  let queue = unique;
+  if (incremental) {
+    const records = await getLinkHealthRecords(unique.map(item => item.url));
+    queue = unique.filter(item => {
+      const record = records.get(item.url);
+      return !record || now - record.checkedAt >= LINK_RECHECK_INTERVAL_MS;
+    });
+  }
+
+  const job: LinkScanJob = {
+    id: JOB_ID,
+    status: 'running',
+    items: queue,
+    skipped: unique.length - queue.length,
+    incremental,
+    startedAt: now,
+    updatedAt: now
+  };
+  await putLinkScanJob(job);
+  void runJob(job, tracer);
+};
+
+// 继续未完成的任务；onlyRunning 为 true 时只继续被中断（而非用户暂停）的任务
+export const resumeLinkScan = async (tracer?: LinkTracer, onlyRunning = false): Promise<void> => {
+  if (activeController) return;
+  const job = await getLinkScanJob(JOB_ID);
+  if (!job || job.status === 'completed' || (onlyRunning && job.status !== 'running')) return;
+
+  const resumed: LinkScanJob = { ...job, status: 'running', updatedAt: Date.now() };
+  await putLinkScanJob(resumed);
+  void runJob(resumed, tracer);
+};
+
+// 暂停任务，已检测的结果保留
+export const pauseLinkScan = async (): Promise<void> => {
+  activeController?.abort();
+  activeController = null;
+
+  const job = await getLinkScanJob(JOB_ID);
+  if (!job || job.status !== 'running') return;
+  const paused: LinkScanJob = { ...job, status: 'paused', updatedAt: Date.now() };
+  await putLinkScanJob(paused);
+  const records = await getLinkHealthRecords(job.items.map(item => item.url));
+  broadcast({ type: 'job', job: paused, checked: countChecked(paused, records) });
+};
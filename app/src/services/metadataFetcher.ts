@@ -0,0 +1,217 @@
+import type { BookmarkMetadata } from '@/types';
+import { runWithConcurrency } from '@/lib/concurrency';
+import { getMetadataEntries, putMetadataEntries } from '@/services/storageService';
+
+// 抓取选项（fetchImpl 可替换为测试桩或本地测试服务器）
+export interface MetadataFetchOptions {
+  fetchImpl?: typeof fetch;
+  // 单个页面的超时（毫秒）
+  timeoutMs?: number;
+  concurrency?: number;
+  // 最多读取的字节数，读到 </head> 后提前结束
+  maxBytes?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_MAX_BYTES = 256 * 1024;
+
+// 成功结果缓存 30 天，失败结果缓存 1 天
+const METADATA_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const FAILED_METADATA_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 判断缓存的元信息是否仍然有效
+export const isMetadataFresh = (entry: BookmarkMetadata, now = Date.now()): boolean => {
+  const ttl = entry.error ? FAILED_METADATA_TTL_MS : METADATA_TTL_MS;
+  return now - entry.fetchedAt < ttl;
+};
+
+// 常见 HTML 实体
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+// 解码 HTML 实体并压缩空白
+const decodeText = (text: string): string => {
+  return text
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// 解析标签上的属性（Service Worker 中没有 DOMParser，只能用正则解析）
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const attrRegex = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrRegex.exec(tag)) !== null) {
+    attrs[match[1].toLowerCase()] = decodeText(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+};
+
+// 从 HTML 中解析 <head> 元信息
+export const parseHeadMetadata = (html: string): Omit<BookmarkMetadata, 'url' | 'fetchedAt'> => {
+  const headEnd = html.search(/<\/head>|<body[\s>]/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  // name / property 统一转为小写后查找
+  const metas = new Map<string, string>();
+  for (const tag of head.match(/<meta\b[^>]*>/gi) || []) {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.property || attrs.name || '').toLowerCase();
+    if (key && attrs.content && !metas.has(key)) {
+      metas.set(key, attrs.content);
+    }
+  }
+
+  const titleMatch = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = (titleMatch && decodeText(titleMatch[1])) || metas.get('og:title') || metas.get('twitter:title');
+
+  return {
+    title: title || undefined,
+    description: metas.get('description') || metas.get('og:description') || metas.get('twitter:description'),
+    siteName: metas.get('og:site_name') || metas.get('application-name'),
+    ogType: metas.get('og:type'),
+    keywords: (metas.get('keywords') || '')
+      .split(/[,，]/)
+      .map(k => k.trim())
+      .filter(Boolean)
+      .slice(0, 20)
+  };
+};
+
+// 读取响应正文，直到 </head> 或达到字节上限
+const readHead = async (response: Response, maxBytes: number): Promise<string> => {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = '';
+  let bytes = 0;
+
+  try {
+    while (bytes < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value.byteLength;
+      html += decoder.decode(value, { stream: true });
+      if (/<\/head>|<body[\s>]/i.test(html)) break;
+    }
+  } finally {
+    // 不再需要剩余内容，取消读取以释放连接
+    reader.cancel().catch(() => {});
+  }
+  return html;
+};
+
+// 抓取单个页面的元信息（失败时返回带 error 的结果，不抛出异常）
+export const fetchBookmarkMetadata = async (
+  url: string,
+  options: MetadataFetchOptions = {}
+): Promise<BookmarkMetadata> => {
+  const {
+    fetchImpl = fetch,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    signal
+  } = options;
+  const fetchedAt = Date.now();
+
+  if (!/^https?:\/\//i.test(url)) {
+    return { url, keywords: [], fetchedAt, error: 'unsupported protocol' };
+  }
+
+  try {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const response = await fetchImpl(url, {
+      method: 'GET',
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+      redirect: 'follow',
+      credentials: 'omit',
+      signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+    });
+
+    // 仅在发生重定向时记录最终地址
+    const finalUrl = response.url && response.url !== url ? response.url : undefined;
+
+    if (!response.ok) {
+      response.body?.cancel().catch(() => {});
+      return { url, finalUrl, keywords: [], fetchedAt, error: `HTTP ${response.status}` };
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType && !/html|xml/i.test(contentType)) {
+      response.body?.cancel().catch(() => {});
+      return { url, finalUrl, keywords: [], fetchedAt, error: `unsupported content type: ${contentType}` };
+    }
+
+    const html = await readHead(response, maxBytes);
+    return {
+      url,
+      finalUrl,
+      ...parseHeadMetadata(html),
+      fetchedAt
+    };
+  } catch (e) {
+    // 调用方取消时向上抛出，其余错误记录在结果中
+    if (signal?.aborted) throw e;
+    const error = e instanceof DOMException && e.name === 'TimeoutError'
+      ? 'timeout'
+      : e instanceof Error ? e.message : String(e);
+    return { url, keywords: [], fetchedAt, error };
+  }
+};
+
+// 并发抓取多个页面的元信息，结果按 URL 返回
+export const fetchMetadataBatch = async (
+  urls: string[],
+  options: MetadataFetchOptions = {}
+): Promise<Map<string, BookmarkMetadata>> => {
+  const uniqueUrls = [...new Set(urls)];
+  const results = await runWithConcurrency(
+    uniqueUrls,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    (url) => fetchBookmarkMetadata(url, options)
+  );
+  return new Map(results.map(r => [r.url, r]));
+};
+
+// 获取书签页面元信息：优先使用未过期的缓存，其余在后台抓取并写入缓存
+export const getBookmarkMetadata = async (
+  urls: string[],
+  options: MetadataFetchOptions = {}
+): Promise<Record<string, BookmarkMetadata>> => {
+  const cached = await getMetadataEntries(urls);
+  const result: Record<string, BookmarkMetadata> = {};
+  const missing: string[] = [];
+
+  for (const url of new Set(urls)) {
+    const entry = cached.get(url);
+    if (entry && isMetadataFresh(entry)) {
+      result[url] = entry;
+    } else {
+      missing.push(url);
+    }
+  }
+
+  if (missing.length > 0) {
+    const fetched = await fetchMetadataBatch(missing, options);
+    await putMetadataEntries([...fetched.values()]);
+    fetched.forEach((entry, url) => { result[url] = entry; });
+  }
+
+  return result;
+};
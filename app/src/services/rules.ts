@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import type { BookmarkRule, BookmarkRuleMatchType } from '@/types';
+
+// 规则保存在 chrome.storage.local（规则较多时会超出 sync 的单项配额）
+const STORAGE_KEY = 'bookmarkRules';
+
+// 导出文件格式版本
+const EXPORT_VERSION = 1;
+
+// 参与匹配的书签信息
+export interface RuleTarget {
+  url: string;
+  title: string;
+}
+
+export const RULE_MATCH_TYPES: BookmarkRuleMatchType[] = ['domain', 'urlGlob', 'urlRegex', 'titleKeyword'];
+
+// 新建一条空规则
+export const createRule = (matchType: BookmarkRuleMatchType = 'domain'): BookmarkRule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  enabled: true,
+  matchType,
+  pattern: '',
+  targetFolder: '',
+  tags: []
+});
+
+// 读取规则列表
+export const getRules = async (): Promise<BookmarkRule[]> => {
+  return new Promise((resolve) => {
+    chrome.storage.local.get([STORAGE_KEY], (result) => {
+      const rules = result[STORAGE_KEY] as BookmarkRule[] | undefined;
+      resolve(Array.isArray(rules) ? rules : []);
+    });
+  });
+};
+
+// 保存规则列表（顺序即优先级）
+export const saveRules = async (rules: BookmarkRule[]): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [STORAGE_KEY]: rules }, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+};
+
+// 通配符转正则：* 匹配任意字符，? 匹配单个字符
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('')
+    .map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\/]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+// 编译正则，语法错误时返回 null
+const compileRegExp = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+// 规则的匹配内容是否有效（空内容或无效的正则视为无效）
+export const isRulePatternValid = (rule: Pick<BookmarkRule, 'matchType' | 'pattern'>): boolean => {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return false;
+  return rule.matchType !== 'urlRegex' || compileRegExp(pattern) !== null;
+};
+
+// 单条规则是否匹配书签
+export const matchesRule = (rule: BookmarkRule, target: RuleTarget): boolean => {
+  const pattern = rule.pattern.trim();
+  if (!pattern || !target.url) return false;
+
+  switch (rule.matchType) {
+    case 'domain': {
+      // 匹配域名本身及其子域名，允许写成 *.example.com
+      const domain = pattern.toLowerCase().replace(/^\*\./, '').replace(/^www\./, '');
+      try {
+        const host = new URL(target.url).hostname.toLowerCase().replace(/^www\./, '');
+        return host === domain || host.endsWith(`.${domain}`);
+      } catch {
+        return false;
+      }
+    }
+    case 'urlGlob': {
+      // 通配符可以省略协议和 www 前缀
+      const regex = globToRegExp(pattern);
+      const bare = target.url.replace(/^[a-z]+:\/\//i, '').replace(/^www\./i, '');
+      return regex.test(target.url) || regex.test(bare);
+    }
+    case 'urlRegex':
+      return compileRegExp(pattern)?.test(target.url) ?? false;
+    case 'titleKeyword': {
+      const title = target.title.toLowerCase();
+      return pattern
+        .split(/[,，]/)
+        .map(k => k.trim().toLowerCase())
+        .some(k => k && title.includes(k));
+    }
+  }
+};
+
+// 找到第一条匹配的启用规则
+export const findMatchingRule = (rules: BookmarkRule[], target: RuleTarget): BookmarkRule | null => {
+  return rules.find(rule => rule.enabled && rule.targetFolder.trim() && matchesRule(rule, target)) ?? null;
+};
+
+// 规则命中时的分类理由
+export const describeRuleMatch = (rule: BookmarkRule, language: 'zh' | 'en'): string => {
+  const name = rule.name.trim() || rule.pattern.trim();
+  return language === 'zh' ? `匹配规则「${name}」` : `Matched rule "${name}"`;
+};
+
+const ruleSchema = z.object({
+  name: z.string().default(''),
+  enabled: z.boolean().default(true),
+  matchType: z.enum(['domain', 'urlGlob', 'urlRegex', 'titleKeyword']),
+  pattern: z.string().trim().min(1),
+  targetFolder: z.string().trim().min(1),
+  tags: z.array(z.string().trim().min(1)).default([])
+});
+
+// 兼容直接导出的规则数组
+const rulesFileSchema = z.union([
+  z.array(ruleSchema),
+  z.object({ rules: z.array(ruleSchema) }).transform(v => v.rules)
+]);
+
+// 导出规则集为 JSON 文本
+export const exportRules = (rules: BookmarkRule[]): string => {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    rules: rules.map(({ name, enabled, matchType, pattern, targetFolder, tags }) => ({
+      name, enabled, matchType, pattern, targetFolder, tags
+    }))
+  }, null, 2);
+};
+
+// 解析导入的规则集（重新生成 ID，避免与现有规则冲突）
+export const parseRulesImport = (text: string): BookmarkRule[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('规则文件不是有效的 JSON');
+  }
+
+  const parsed = rulesFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`规则文件格式无效: ${parsed.error.issues[0]?.message ?? ''}`);
+  }
+  return parsed.data.map(rule => ({ ...rule, id: crypto.randomUUID() }));
+};
+
+// 规则的目标文件夹：已存在时使用现有路径（忽略大小写）
+export const resolveRuleFolder = (
+  rule: BookmarkRule,
+  existingFolders: string[]
+): { category: string; isNewCategory: boolean } => {
+  const target = rule.targetFolder.trim();
+  const existing = existingFolders.find(f => f.toLowerCase() === target.toLowerCase());
+  return { category: existing ?? target, isNewCategory: !existing };
+};
@@ -0,0 +1,247 @@
+import type { LinkEvidence } from '@/types';
+
+// 页面样本：判断软 404 与停放域名所需的内容
+export interface PageSample {
+  // 跟随重定向后的最终地址
+  url: string;
+  status: number;
+  title: string;
+  // 可见文字（已压缩空白，只取开头部分）
+  text: string;
+  // 原始 HTML 片段（用于查找停放服务的脚本和链接）
+  html: string;
+}
+
+// 可见文字最多保留的长度
+const MAX_TEXT_LENGTH = 5000;
+
+// 停放页内容很少；只有一条停放特征时，页面文字短于该长度才判断为停放
+const PARKED_MAX_TEXT_LENGTH = 1000;
+
+// 随机路径的响应与页面相似时，页面文字至少要有这么长才可信（单页应用的空壳页面所有路径都相同）
+const MIN_PROBE_TEXT_LENGTH = 200;
+
+// 两个页面的词集合相似度达到该值视为同一页面
+const PROBE_SIMILARITY_THRESHOLD = 0.9;
+
+// 标题中表示页面不存在的文字
+const NOT_FOUND_TITLE = /\b404\b|not\s+found|page\s+(?:does\s+not|doesn't)\s+exist|no\s+longer\s+(?:available|exists)|找不到|不存在|已删除|未找到|无法访问/i;
+
+// 正文中表示页面不存在的文字（小写比较）
+const NOT_FOUND_PHRASES = [
+  'page not found',
+  'page could not be found',
+  'page cannot be found',
+  "page can't be found",
+  'page you requested could not be found',
+  "this page doesn't exist",
+  'this page does not exist',
+  'page no longer exists',
+  'is no longer available',
+  'has been removed',
+  'has been deleted',
+  'error 404',
+  '404 error',
+  '页面不存在',
+  '页面找不到',
+  '找不到页面',
+  '找不到该页面',
+  '页面已删除',
+  '内容已删除',
+  '内容已被删除',
+  '链接已失效',
+  '页面已失效'
+];
+
+// 域名停放与域名交易服务
+export const PARKING_HOSTS = [
+  'sedo.com',
+  'sedoparking.com',
+  'parkingcrew.net',
+  'bodis.com',
+  'parklogic.com',
+  'above.com',
+  'dan.com',
+  'afternic.com',
+  'hugedomains.com',
+  'buydomains.com',
+  'undeveloped.com',
+  'uniregistry.com',
+  'domainmarket.com',
+  'parkingpage.namecheap.com',
+  'sav.com'
+];
+
+// 停放页中的文字特征（小写比较）
+const PARKING_PHRASES = [
+  'this domain is for sale',
+  'this domain may be for sale',
+  'the domain name is for sale',
+  'buy this domain',
+  'is parked free',
+  'parked domain',
+  'domain parking',
+  '该域名正在出售',
+  '此域名正在出售',
+  '域名出售中'
+];
+
+// 解码常见 HTML 实体
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'");
+};
+
+// 从 HTML 片段中取出标题和可见文字（Service Worker 中没有 DOMParser）
+export const parsePageSample = (url: string, status: number, html: string): PageSample => {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const text = decodeEntities(
+    html
+      .replace(/<(script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<head\b[\s\S]*?<\/head>/i, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TEXT_LENGTH);
+
+  return {
+    url,
+    status,
+    title: titleMatch ? decodeEntities(titleMatch[1]).replace(/\s+/g, ' ').trim() : '',
+    text,
+    html
+  };
+};
+
+// 主机名是否属于列表中的某个域名（含子域名）
+const matchesHost = (host: string, domains: string[]): string | undefined => {
+  return domains.find(domain => host === domain || host.endsWith(`.${domain}`));
+};
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+// 判断是否为停放域名，返回判断依据（为空表示不是）
+// 书签本身就是停放服务的网站时不判断
+export const detectParkedDomain = (url: string, sample: PageSample): LinkEvidence[] => {
+  const host = getHost(url);
+  if (matchesHost(host, PARKING_HOSTS)) return [];
+
+  const evidence: LinkEvidence[] = [];
+  const finalHost = matchesHost(getHost(sample.url), PARKING_HOSTS);
+  if (finalHost) {
+    evidence.push({ kind: 'parking-host', detail: sample.url });
+  }
+
+  // 停放页通常从停放服务加载脚本或链接到交易页面
+  const html = sample.html.toLowerCase();
+  const provider = PARKING_HOSTS.find(domain => new RegExp(`[/."'\\s]${domain.replace(/\./g, '\\.')}(?=[/"'?:\\s])`).test(html));
+  if (provider && provider !== finalHost) {
+    evidence.push({ kind: 'parking-marker', detail: provider });
+  }
+
+  const text = `${sample.title} ${sample.text}`.toLowerCase();
+  const phrase = PARKING_PHRASES.find(p => text.includes(p));
+  if (phrase) {
+    evidence.push({ kind: 'parking-marker', detail: phrase });
+  }
+
+  // 普通页面偶尔也会提到停放服务，单条特征只在内容很少的页面上采信
+  const parked = !!finalHost || evidence.length >= 2 || (evidence.length === 1 && sample.text.length < PARKED_MAX_TEXT_LENGTH);
+  return parked ? evidence : [];
+};
+
+// 拆分为词集合（忽略数字）
+const toWords = (text: string): Set<string> => {
+  return new Set(text.toLowerCase().replace(/\d+/g, ' ').split(/[\s\p{P}\p{S}]+/u).filter(Boolean));
+};
+
+// 地址路径中的词（软 404 页面常把请求的路径显示出来）
+const getPathWords = (url: string): Set<string> => {
+  try {
+    return toWords(decodeURIComponent(new URL(url).pathname));
+  } catch {
+    return new Set();
+  }
+};
+
+// 词集合的 Jaccard 相似度，ignore 中的词不参与比较
+const textSimilarity = (a: string, b: string, ignore: Set<string>): number => {
+  const words = (text: string) => new Set([...toWords(text)].filter(w => !ignore.has(w)));
+  const setA = words(a);
+  const setB = words(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  setA.forEach(w => { if (setB.has(w)) shared++; });
+  return shared / (setA.size + setB.size - shared);
+};
+
+// 地址的路径是否为首页
+const isRootPath = (url: string): boolean => {
+  try {
+    return /^\/?(index\.\w+)?$/.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+};
+
+// 登录页：需要登录的网站对任意路径都跳转到同一页面，不能说明页面不存在
+const LOGIN_PATH = /\/(?:log-?in|sign-?in|auth|sso|session|account)\b/i;
+
+// 随机路径的响应与页面是否为同一页面
+const isSameAsProbe = (sample: PageSample, probe: PageSample): boolean => {
+  if (probe.status < 200 || probe.status >= 300 || LOGIN_PATH.test(sample.url)) return false;
+  // 都被重定向到首页
+  if (sample.url === probe.url) return isRootPath(sample.url);
+  const ignore = new Set([...getPathWords(sample.url), ...getPathWords(probe.url)]);
+  return sample.title === probe.title
+    && sample.text.length >= MIN_PROBE_TEXT_LENGTH
+    && textSimilarity(sample.text, probe.text, ignore) >= PROBE_SIMILARITY_THRESHOLD;
+};
+
+// 判断返回 200 的页面是否为软 404，返回判断依据（为空表示不是）
+// probe 为同一主机上随机路径的响应：网站对不存在的页面也返回与之相同的内容时，说明该页面已不存在
+export const detectSoft404 = (url: string, sample: PageSample, probe: PageSample | null): LinkEvidence[] => {
+  if (isRootPath(url)) return [];
+
+  const evidence: LinkEvidence[] = [];
+  if (NOT_FOUND_TITLE.test(sample.title)) {
+    evidence.push({ kind: 'title', detail: sample.title });
+  }
+
+  const text = sample.text.slice(0, 2000).toLowerCase();
+  const phrase = NOT_FOUND_PHRASES.find(p => text.includes(p));
+  if (phrase) {
+    evidence.push({ kind: 'body', detail: phrase });
+  }
+
+  const homeRedirect = sample.url !== url && isRootPath(sample.url);
+  if (homeRedirect) {
+    evidence.push({ kind: 'home-redirect', detail: sample.url });
+  }
+
+  const probeMatched = !!probe && isSameAsProbe(sample, probe);
+  if (probeMatched) {
+    evidence.push({ kind: 'probe', detail: probe.url });
+  }
+
+  if (probeMatched) return evidence;
+  // 网站对不存在的路径能正确返回 404 时，返回 200 的页面通常确实存在（例如介绍 404 错误的文章），
+  // 此时只有文字特征不足以判断，需同时跳转到首页
+  const textSignals = evidence.filter(e => e.kind === 'title' || e.kind === 'body').length;
+  const probeNotFound = !!probe && probe.status >= 400 && probe.status < 500;
+  if (probeNotFound) return homeRedirect && textSignals > 0 ? evidence : [];
+  // 单一的特征不足以判断，需与其他依据同时出现
+  return evidence.length >= 2 ? evidence : [];
+};
@@ -1,7 +1,7 @@
-import type { BookmarkSnapshot, OperationLog, BookmarkNode } from '@/types';
+import type { BookmarkSnapshot, OperationLog, BookmarkNode, UsageRecord, UsageTotals, AICacheEntry, BookmarkMetadata, CorrectionRecord, EmbeddingEntry, LinkHealthRecord, LinkScanJob } from '@/types';
 
 const DB_NAME = 'AIBookmarkOrganizer';
-const DB_VERSION = 2; // 升级版本以添加标签存储
+const DB_VERSION = 8; // 升级版本以添加链接检测记录存储
 
 // 标签类型
 export interface Tag {
@@ -17,7 +17,15 @@ export const initDB = (): Promise<IDBDatabase> => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // 其他页面升级数据库时关闭旧连接，下次访问重新打开
+      db.onversionchange = () => {
+        db.close();
+        dbInstance = null;
+      };
+      resolve(db);
+    };
     
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -40,6 +48,45 @@ export const initDB = (): Promise<IDBDatabase> => {
         tagStore.createIndex('name', 'name', { unique: true });
         tagStore.createIndex('createdAt', 'createdAt', { unique: false });
       }
+      
+      // 创建用量账本存储
+      if (!db.objectStoreNames.contains('usage')) {
+        const usageStore = db.createObjectStore('usage', { keyPath: 'id' });
+        usageStore.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+      
+      // 创建 AI 结果缓存存储
+      if (!db.objectStoreNames.contains('aiCache')) {
+        const cacheStore = db.createObjectStore('aiCache', { keyPath: 'key' });
+        cacheStore.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      
+      // 创建页面元信息存储
+      if (!db.objectStoreNames.contains('metadata')) {
+        const metadataStore = db.createObjectStore('metadata', { keyPath: 'url' });
+        metadataStore.createIndex('fetchedAt', 'fetchedAt', { unique: false });
+      }
+      
+      // 创建分类纠正存储
+      if (!db.objectStoreNames.contains('corrections')) {
+        const correctionStore = db.createObjectStore('corrections', { keyPath: 'url' });
+        correctionStore.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      
+      // 创建嵌入向量存储
+      if (!db.objectStoreNames.contains('embeddings')) {
+        const embeddingStore = db.createObjectStore('embeddings', { keyPath: 'key' });
+        embeddingStore.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      
+      // 创建链接检测记录与扫描任务存储
+      if (!db.objectStoreNames.contains('linkHealth')) {
+        const linkHealthStore = db.createObjectStore('linkHealth', { keyPath: 'url' });
+        linkHealthStore.createIndex('checkedAt', 'checkedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains('linkScans')) {
+        db.createObjectStore('linkScans', { keyPath: 'id' });
+      }
     };
   });
 };
@@ -377,6 +424,399 @@ export const removeTagFromBookmark = async (bookmarkId: string, tagId: string):
   });
 };
 
+// ========== 用量账本相关 ==========
+
+// 记录一次 AI 调用的用量
+export const addUsageRecord = async (record: Omit<UsageRecord, 'id'>): Promise<UsageRecord> => {
+  const db = await getDB();
+  
+  const fullRecord: UsageRecord = {
+    ...record,
+    id: `usage_${record.timestamp}_${Math.random().toString(36).slice(2, 8)}`
+  };
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['usage'], 'readwrite');
+    const store = transaction.objectStore('usage');
+    const request = store.add(fullRecord);
+    
+    request.onsuccess = () => resolve(fullRecord);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 获取指定时间之后的用量记录（按时间正序）
+export const getUsageRecords = async (since: number): Promise<UsageRecord[]> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['usage'], 'readonly');
+    const store = transaction.objectStore('usage');
+    const index = store.index('timestamp');
+    const request = index.getAll(IDBKeyRange.lowerBound(since));
+    
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 汇总用量记录
+export const sumUsage = (records: UsageRecord[]): UsageTotals => {
+  return records.reduce<UsageTotals>(
+    (totals, r) => ({
+      requests: totals.requests + 1,
+      promptTokens: totals.promptTokens + r.promptTokens,
+      completionTokens: totals.completionTokens + r.completionTokens,
+      cost: totals.cost + (r.cost ?? 0)
+    }),
+    { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+  );
+};
+
+// 获取本月 1 日零点的时间戳
+export const getMonthStart = (date = new Date()): number => {
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+// 获取本月已花费的金额（美元）
+export const getMonthlySpend = async (): Promise<number> => {
+  const records = await getUsageRecords(getMonthStart());
+  return sumUsage(records).cost;
+};
+
+// ========== AI 结果缓存相关 ==========
+
+// 批量读取缓存，过期条目视为未命中并顺便删除
+export const getCacheEntries = async (keys: string[], maxAgeMs: number): Promise<Map<string, AICacheEntry>> => {
+  const db = await getDB();
+  const now = Date.now();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['aiCache'], 'readwrite');
+    const store = transaction.objectStore('aiCache');
+    const entries = new Map<string, AICacheEntry>();
+    
+    for (const key of new Set(keys)) {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        const entry = request.result as AICacheEntry | undefined;
+        if (!entry) return;
+        if (now - entry.createdAt > maxAgeMs) {
+          store.delete(key);
+        } else {
+          entries.set(key, entry);
+        }
+      };
+    }
+    
+    transaction.oncomplete = () => resolve(entries);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 批量写入缓存
+export const putCacheEntries = async (entries: AICacheEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['aiCache'], 'readwrite');
+    const store = transaction.objectStore('aiCache');
+    entries.forEach(entry => store.put(entry));
+    
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 获取缓存条目数和大致占用空间（字节）
+export const getCacheStats = async (): Promise<{ count: number; bytes: number }> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['aiCache'], 'readonly');
+    const store = transaction.objectStore('aiCache');
+    const request = store.openCursor();
+    
+    let count = 0;
+    let bytes = 0;
+    
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        count++;
+        bytes += JSON.stringify(cursor.value).length;
+        cursor.continue();
+      } else {
+        resolve({ count, bytes });
+      }
+    };
+    
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 清空缓存
+export const clearCache = async (): Promise<void> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['aiCache'], 'readwrite');
+    const store = transaction.objectStore('aiCache');
+    const request = store.clear();
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ========== 页面元信息相关 ==========
+
+// 批量读取页面元信息（按 URL）
+export const getMetadataEntries = async (urls: string[]): Promise<Map<string, BookmarkMetadata>> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['metadata'], 'readonly');
+    const store = transaction.objectStore('metadata');
+    const entries = new Map<string, BookmarkMetadata>();
+    
+    for (const url of new Set(urls)) {
+      const request = store.get(url);
+      request.onsuccess = () => {
+        if (request.result) {
+          entries.set(url, request.result as BookmarkMetadata);
+        }
+      };
+    }
+    
+    transaction.oncomplete = () => resolve(entries);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 批量写入页面元信息
+export const putMetadataEntries = async (entries: BookmarkMetadata[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['metadata'], 'readwrite');
+    const store = transaction.objectStore('metadata');
+    entries.forEach(entry => store.put(entry));
+    
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// ========== 分类纠正相关 ==========
+
+// 批量保存纠正记录（同一 URL 覆盖旧记录）
+export const putCorrections = async (records: CorrectionRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['corrections'], 'readwrite');
+    const store = transaction.objectStore('corrections');
+    records.forEach(record => store.put(record));
+    
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 获取所有纠正记录（按时间倒序）
+export const getAllCorrections = async (): Promise<CorrectionRecord[]> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['corrections'], 'readonly');
+    const store = transaction.objectStore('corrections');
+    const request = store.getAll();
+    
+    request.onsuccess = () => {
+      const records = request.result as CorrectionRecord[];
+      resolve(records.sort((a, b) => b.createdAt - a.createdAt));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 删除纠正记录
+export const deleteCorrection = async (url: string): Promise<void> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['corrections'], 'readwrite');
+    const store = transaction.objectStore('corrections');
+    const request = store.delete(url);
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 清空纠正记录
+export const clearCorrections = async (): Promise<void> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['corrections'], 'readwrite');
+    const store = transaction.objectStore('corrections');
+    const request = store.clear();
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ========== 嵌入向量相关 ==========
+
+// 批量读取嵌入向量
+export const getEmbeddingEntries = async (keys: string[]): Promise<Map<string, EmbeddingEntry>> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['embeddings'], 'readonly');
+    const store = transaction.objectStore('embeddings');
+    const entries = new Map<string, EmbeddingEntry>();
+    
+    for (const key of new Set(keys)) {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if (request.result) {
+          entries.set(key, request.result as EmbeddingEntry);
+        }
+      };
+    }
+    
+    transaction.oncomplete = () => resolve(entries);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 批量写入嵌入向量
+export const putEmbeddingEntries = async (entries: EmbeddingEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['embeddings'], 'readwrite');
+    const store = transaction.objectStore('embeddings');
+    entries.forEach(entry => store.put(entry));
+    
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 统计已缓存的嵌入向量数
+export const countEmbeddings = async (): Promise<number> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['embeddings'], 'readonly');
+    const request = transaction.objectStore('embeddings').count();
+    
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 清空嵌入向量
+export const clearEmbeddings = async (): Promise<void> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['embeddings'], 'readwrite');
+    const store = transaction.objectStore('embeddings');
+    const request = store.clear();
+    
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ========== 链接检测相关 ==========
+
+// 批量读取链接检测记录（按 URL）
+export const getLinkHealthRecords = async (urls: string[]): Promise<Map<string, LinkHealthRecord>> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['linkHealth'], 'readonly');
+    const store = transaction.objectStore('linkHealth');
+    const records = new Map<string, LinkHealthRecord>();
+    
+    for (const url of new Set(urls)) {
+      const request = store.get(url);
+      request.onsuccess = () => {
+        if (request.result) {
+          records.set(url, request.result as LinkHealthRecord);
+        }
+      };
+    }
+    
+    transaction.oncomplete = () => resolve(records);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 保存链接检测记录
+export const putLinkHealthRecord = async (record: LinkHealthRecord): Promise<void> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['linkHealth'], 'readwrite');
+    transaction.objectStore('linkHealth').put(record);
+    
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 清空链接检测记录与扫描任务
+export const clearLinkHealth = async (): Promise<void> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['linkHealth', 'linkScans'], 'readwrite');
+    transaction.objectStore('linkHealth').clear();
+    transaction.objectStore('linkScans').clear();
+    
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// 读取扫描任务
+export const getLinkScanJob = async (id: string): Promise<LinkScanJob | null> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['linkScans'], 'readonly');
+    const request = transaction.objectStore('linkScans').get(id);
+    
+    request.onsuccess = () => resolve((request.result as LinkScanJob) || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 保存扫描任务
+export const putLinkScanJob = async (job: LinkScanJob): Promise<void> => {
+  const db = await getDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['linkScans'], 'readwrite');
+    transaction.objectStore('linkScans').put(job);
+    
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
 // ========== 回滚相关 ==========
 
 // 恢复快照（真正的书签树恢复）
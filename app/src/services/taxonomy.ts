@@ -0,0 +1,73 @@
+import type { TaxonomyNode, TaxonomyLimits } from '@/types';
+import { joinFolderPath } from '@/hooks/useBookmarks';
+
+// 分类体系的原始结构（来自模型输出，尚未分配 ID）
+export interface RawTaxonomyNode {
+  name: string;
+  children?: RawTaxonomyNode[];
+}
+
+// 创建分类节点
+export const createTaxonomyNode = (name: string, children: TaxonomyNode[] = []): TaxonomyNode => ({
+  id: crypto.randomUUID(),
+  name,
+  children
+});
+
+// 按规模限制裁剪分类体系：超出层级或数量的节点丢弃，同级重名（忽略大小写）的节点合并
+export const limitTaxonomy = (nodes: RawTaxonomyNode[], limits: TaxonomyLimits, depth = 1): TaxonomyNode[] => {
+  if (depth > limits.maxDepth) return [];
+
+  const merged = new Map<string, RawTaxonomyNode>();
+  for (const node of nodes) {
+    const name = node.name.trim();
+    if (!name) continue;
+
+    const key = name.toLowerCase();
+    const existing = merged.get(key);
+    if (existing) {
+      existing.children = [...(existing.children ?? []), ...(node.children ?? [])];
+    } else {
+      merged.set(key, { name, children: node.children ?? [] });
+    }
+  }
+
+  return [...merged.values()]
+    .slice(0, limits.maxChildren)
+    .map(node => createTaxonomyNode(node.name, limitTaxonomy(node.children ?? [], limits, depth + 1)));
+};
+
+// 展开为完整路径列表（包含中间层级，父文件夹在子文件夹之前）
+export const taxonomyToPaths = (nodes: TaxonomyNode[], parent: string[] = []): string[] => {
+  return nodes.flatMap(node => {
+    const segments = [...parent, node.name.trim()];
+    return [joinFolderPath(segments), ...taxonomyToPaths(node.children, segments)];
+  });
+};
+
+// 统计分类体系中的文件夹数量
+export const countTaxonomyNodes = (nodes: TaxonomyNode[]): number => {
+  return nodes.reduce((sum, node) => sum + 1 + countTaxonomyNodes(node.children), 0);
+};
+
+// 检查分类体系是否可用：名称不能为空，同级不能重名
+export const isTaxonomyValid = (nodes: TaxonomyNode[]): boolean => {
+  const names = nodes.map(n => n.name.trim().toLowerCase());
+  if (names.some(n => !n) || new Set(names).size !== names.length) return false;
+  return nodes.every(n => isTaxonomyValid(n.children));
+};
+
+// 更新指定节点（返回新树，不修改原树）
+export const updateTaxonomyNode = (
+  nodes: TaxonomyNode[],
+  id: string,
+  update: (node: TaxonomyNode) => TaxonomyNode | null
+): TaxonomyNode[] => {
+  return nodes.flatMap(node => {
+    if (node.id === id) {
+      const updated = update(node);
+      return updated ? [updated] : [];
+    }
+    return [{ ...node, children: updateTaxonomyNode(node.children, id, update) }];
+  });
+};
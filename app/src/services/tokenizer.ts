@@ -0,0 +1,65 @@
+// Token 计数：优先使用内置的 BPE 编码器（o200k_base），未加载完成时使用 CJK 感知的估算
+
+export type CountTokensFn = (text: string) => number;
+
+let bpeCountTokens: CountTokensFn | null = null;
+let loadingPromise: Promise<void> | null = null;
+
+// 中日韩字符通常每个字符至少占 1 个 token
+const CJK_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+// 按需加载 BPE 编码器（词表约 2MB，单独打包，避免拖慢弹窗打开）
+export const loadTokenizer = (): Promise<void> => {
+  if (!loadingPromise) {
+    loadingPromise = import('gpt-tokenizer/encoding/o200k_base')
+      .then((mod) => {
+        bpeCountTokens = mod.countTokens;
+      })
+      .catch((e) => {
+        console.warn('BPE 编码器加载失败，使用估算值:', e);
+        loadingPromise = null;
+      });
+  }
+  return loadingPromise;
+};
+
+// BPE 编码器是否已可用
+export const isTokenizerReady = (): boolean => bpeCountTokens !== null;
+
+// 当前可用的计数函数：BPE 编码器加载完成前后返回不同的函数，可作为重新计数的依赖
+export const getTokenCounter = (): CountTokensFn => bpeCountTokens ? countTokens : estimateTokensHeuristic;
+
+// 估算 Token 数：CJK 字符按 1 个计，其余按 4 个字符 ≈ 1 token 计
+export const estimateTokensHeuristic = (text: string): number => {
+  const cjkCount = text.match(CJK_REGEX)?.length ?? 0;
+  return Math.ceil(cjkCount + (text.length - cjkCount) / 4);
+};
+
+// 计算 Token 数量
+export const countTokens = (text: string): number => {
+  if (bpeCountTokens) {
+    try {
+      return bpeCountTokens(text);
+    } catch {
+      // 文本中包含特殊 token 等情况时退回估算
+    }
+  }
+  return estimateTokensHeuristic(text);
+};
+
+// 按 Token 预算截断文本（二分查找最长的前缀）
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (countTokens(text) <= maxTokens) return text;
+
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (countTokens(text.slice(0, mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return `${text.slice(0, low).trimEnd()}…`;
+};
@@ -0,0 +1,131 @@
+import type { UrlNormalizationRules } from '@/types';
+
+// 默认规则
+export const DEFAULT_URL_RULES: UrlNormalizationRules = {
+  stripTrackingParams: true,
+  extraTrackingParams: [],
+  keepParams: [],
+  foldWww: true,
+  foldMobile: true,
+  foldAmp: true,
+  upgradeHttp: true,
+  stripTrailingSlash: true,
+  stripDefaultPort: true,
+  keepHashRoutes: true
+};
+
+// 常见的跟踪参数（以 * 结尾表示前缀匹配）
+export const TRACKING_PARAMS = [
+  'utm_*',
+  'fbclid',
+  'gclid',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'vero_id',
+  'spm',
+  'scm',
+  'ref_src',
+  'share_source'
+];
+
+// 移动版子域名
+const MOBILE_SUBDOMAINS = /^(m|mobile)\./;
+
+// 参数名是否匹配列表中的某一项（忽略大小写）
+const matchesParam = (name: string, patterns: string[]): boolean => {
+  const lower = name.toLowerCase();
+  return patterns.some(pattern => {
+    const p = pattern.trim().toLowerCase();
+    if (!p) return false;
+    return p.endsWith('*') ? lower.startsWith(p.slice(0, -1)) : lower === p;
+  });
+};
+
+// 参数是否为跟踪参数
+export const isTrackingParam = (name: string, rules: UrlNormalizationRules = DEFAULT_URL_RULES): boolean => {
+  if (!rules.stripTrackingParams || matchesParam(name, rules.keepParams)) return false;
+  return matchesParam(name, TRACKING_PARAMS) || matchesParam(name, rules.extraTrackingParams);
+};
+
+// AMP 版本的参数
+const isAmpParam = (name: string, value: string): boolean => {
+  return (name.toLowerCase() === 'amp' && value !== 'false') || (name === 'outputType' && value === 'amp');
+};
+
+// 去掉主机名开头的子域名；去掉后不足两级时保留（amp.dev、mobile.de 中的前缀属于域名本身）
+const stripSubdomain = (host: string, prefix: RegExp): string => {
+  const stripped = host.replace(prefix, '');
+  return stripped.includes('.') ? stripped : host;
+};
+
+// 解析 http(s) 地址，其他协议返回 null
+const parseHttpUrl = (url: string): URL | null => {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// 规范化网址，用于比较两个书签是否指向同一页面（结果仍是有效的网址）
+// 保留有意义的查询参数（?id=1 与 ?id=2 不相同）并按名称排序；非 http(s) 地址原样返回
+export const normalizeUrl = (url: string, rules: UrlNormalizationRules = DEFAULT_URL_RULES): string => {
+  const parsed = parseHttpUrl(url);
+  if (!parsed) return url.trim();
+
+  if (rules.upgradeHttp) parsed.protocol = 'https:';
+
+  let host = parsed.hostname.toLowerCase();
+  if (rules.foldWww) host = stripSubdomain(host, /^www\./);
+  if (rules.foldMobile) host = stripSubdomain(host, MOBILE_SUBDOMAINS);
+  if (rules.foldAmp) host = stripSubdomain(host, /^amp\./);
+  parsed.hostname = host;
+  // 端口无需处理：URL 对象已去掉与协议匹配的默认端口，而 https://host:80 与 https://host 是不同的源
+
+  let path = parsed.pathname;
+  if (rules.foldAmp) path = path.replace(/\/amp\/?$/i, '/');
+  if (rules.stripTrailingSlash) path = path.replace(/\/+$/, '');
+
+  const params = [...parsed.searchParams]
+    .filter(([name, value]) => !isTrackingParam(name, rules) && !(rules.foldAmp && isAmpParam(name, value)))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  const hash = rules.keepHashRoutes && /^#!?\//.test(parsed.hash) ? parsed.hash : '';
+
+  return `${parsed.origin}${path}${query}${hash}`;
+};
+
+// 两个网址在规则下是否相同
+export const isSameUrl = (a: string, b: string, rules: UrlNormalizationRules = DEFAULT_URL_RULES): boolean => {
+  return normalizeUrl(a, rules) === normalizeUrl(b, rules);
+};
+
+// 清理网址中的跟踪参数和默认端口，用于直接改写书签（不改动域名、协议、路径和锚点）
+// 无需清理时原样返回
+export const cleanUrl = (url: string, rules: UrlNormalizationRules = DEFAULT_URL_RULES): string => {
+  const parsed = parseHttpUrl(url);
+  if (!parsed) return url;
+
+  const params = [...parsed.searchParams];
+  const kept = params.filter(([name]) => !isTrackingParam(name, rules));
+  // 解析时已去掉与协议匹配的默认端口，原地址中写明了端口即说明需要清理
+  const hasDefaultPort = rules.stripDefaultPort
+    && parsed.port === ''
+    && /^https?:\/\/[^/?#]*:\d+(?=[/?#]|$)/i.test(url.trim());
+  if (kept.length === params.length && !hasDefaultPort) return url;
+
+  if (kept.length !== params.length) {
+    parsed.search = kept.length > 0 ? new URLSearchParams(kept).toString() : '';
+  }
+  return parsed.toString();
+};
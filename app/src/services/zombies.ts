@@ -0,0 +1,105 @@
+import type { BookmarkNode, CleanResult, ZombieBookmark, ZombieReason } from '@/types';
+
+// 读取浏览历史所需的可选权限
+const HISTORY_PERMISSION: chrome.permissions.Permissions = { permissions: ['history'] };
+
+// 同时查询历史记录的书签数
+const HISTORY_BATCH_SIZE = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 浏览器只保留有限时间的历史记录（Chrome 约 90 天），未访问月数超过该值时，
+// 更早访问过的书签也会因查不到记录被误判
+export const MAX_UNVISITED_MONTHS = 3;
+
+export interface ZombieScanOptions {
+  // 超过该月数未访问（或添加后没有访问记录）视为僵尸书签，最大为 MAX_UNVISITED_MONTHS
+  unvisitedMonths: number;
+  // 添加超过该年数视为僵尸书签，0 表示不按添加时间判断
+  maxAgeYears: number;
+  // 是否读取浏览历史（需要 history 权限）
+  useHistory: boolean;
+  // 不参与扫描的文件夹（归档文件夹），包括其子文件夹
+  excludeFolderId?: string;
+}
+
+export const DEFAULT_ZOMBIE_OPTIONS: ZombieScanOptions = {
+  unvisitedMonths: 3,
+  maxAgeYears: 3,
+  useHistory: true
+};
+
+export const hasHistoryPermission = (): Promise<boolean> => {
+  return chrome.permissions.contains(HISTORY_PERMISSION);
+};
+
+// 申请浏览历史权限（必须在用户点击时调用）
+export const requestHistoryPermission = (): Promise<boolean> => {
+  return chrome.permissions.request(HISTORY_PERMISSION);
+};
+
+// 查询每个网址的访问次数与最后访问时间
+const getVisitStats = async (urls: string[]): Promise<Map<string, { count: number; lastVisitTime?: number }>> => {
+  const stats = new Map<string, { count: number; lastVisitTime?: number }>();
+  for (let i = 0; i < urls.length; i += HISTORY_BATCH_SIZE) {
+    const batch = urls.slice(i, i + HISTORY_BATCH_SIZE);
+    const results = await Promise.all(batch.map(url => chrome.history.getVisits({ url }).catch(() => [])));
+    batch.forEach((url, j) => {
+      const times = results[j].map(v => v.visitTime ?? 0).filter(Boolean);
+      stats.set(url, { count: results[j].length, lastVisitTime: times.length > 0 ? Math.max(...times) : undefined });
+    });
+  }
+  return stats;
+};
+
+// 收集书签，跳过排除的文件夹
+const collectBookmarks = (nodes: BookmarkNode[], excludeFolderId?: string): BookmarkNode[] => {
+  return nodes.flatMap(node => {
+    if (node.id === excludeFolderId) return [];
+    return node.url ? [node] : collectBookmarks(node.children ?? [], excludeFolderId);
+  });
+};
+
+// 查找僵尸书签：保留的历史记录中没有访问、长期未访问或添加时间过久的书签
+export const findZombieBookmarks = async (
+  tree: BookmarkNode[],
+  options: ZombieScanOptions = DEFAULT_ZOMBIE_OPTIONS
+): Promise<Pick<CleanResult, 'zombieBookmarks'>> => {
+  const now = Date.now();
+  const unvisitedMonths = Math.min(Math.max(1, options.unvisitedMonths), MAX_UNVISITED_MONTHS);
+  const unvisitedCutoff = now - unvisitedMonths * 30 * DAY_MS;
+  const ageCutoff = options.maxAgeYears > 0 ? now - options.maxAgeYears * 365 * DAY_MS : 0;
+
+  const withUrl = collectBookmarks(tree, options.excludeFolderId).filter(b => /^https?:/i.test(b.url!));
+  const useHistory = options.useHistory && await hasHistoryPermission();
+  const visits = useHistory ? await getVisitStats([...new Set(withUrl.map(b => b.url!))]) : new Map();
+
+  const zombies: ZombieBookmark[] = [];
+  for (const bookmark of withUrl) {
+    const reasons: ZombieReason[] = [];
+    const stats = visits.get(bookmark.url!);
+    // 刚添加的书签还没来得及访问，不判断
+    const addedBeforeCutoff = !!bookmark.dateAdded && bookmark.dateAdded < unvisitedCutoff;
+
+    if (useHistory && addedBeforeCutoff) {
+      if (!stats?.lastVisitTime) {
+        reasons.push('no-visits');
+      } else if (stats.lastVisitTime < unvisitedCutoff) {
+        reasons.push('not-visited');
+      }
+    }
+    if (ageCutoff && bookmark.dateAdded && bookmark.dateAdded < ageCutoff) {
+      reasons.push('old');
+    }
+
+    if (reasons.length > 0) {
+      zombies.push({
+        bookmark,
+        reasons,
+        lastVisitTime: stats?.lastVisitTime,
+        visitCount: stats?.count ?? 0
+      });
+    }
+  }
+  return { zombieBookmarks: zombies };
+};
@@ -10,14 +10,62 @@ export interface BookmarkNode {
   children?: BookmarkNode[];
 }
 
+// 分类体系中的文件夹节点（重构模式下由 AI 设计、用户编辑）
+export interface TaxonomyNode {
+  id: string;
+  name: string;
+  children: TaxonomyNode[];
+}
+
+// 分类体系的规模限制
+export interface TaxonomyLimits {
+  maxDepth: number;
+  maxChildren: number;
+}
+
+// 带完整路径的文件夹（如 "开发/前端/React"）
+export interface FolderPath {
+  id: string;
+  parentId?: string;
+  title: string;
+  // 从书签栏等系统文件夹下开始的完整路径，重名时带上系统文件夹名
+  path: string;
+}
+
 export interface BookmarkTree {
   id: string;
   title: string;
   children?: BookmarkNode[];
 }
 
+// AI 服务提供商类型
+export type AIProviderId = 'openai' | 'ollama' | 'anthropic' | 'gemini';
+
+// AI 服务提供商能力
+export interface AIProviderCapabilities {
+  streaming: boolean;
+  jsonMode: boolean;
+  embeddings: boolean;
+}
+
+// 每分钟请求数 / Token 数上限（0 表示不限制）
+export interface AIRateLimit {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// 模型价格（美元 / 百万 Token）
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// 新建书签时的自动整理方式：关闭 / 放入待确认列表 / 直接移动
+export type AutoOrganizeMode = 'off' | 'suggest' | 'move';
+
 // AI 设置相关类型
 export interface AISettings {
+  provider: AIProviderId;
   baseUrl: string;
   apiKey: string;
   modelName: string;
@@ -25,6 +73,87 @@ export interface AISettings {
   tokenWarningThreshold: number;
   languagePreference: 'zh' | 'en';
   ollamaUrl: string;
+  // 请求失败后的最大重试次数
+  maxRetries: number;
+  // 单次请求超时（秒）
+  requestTimeout: number;
+  // 批量整理时每批的书签数
+  organizeBatchSize: number;
+  // 批量整理时同时进行的请求数
+  organizeConcurrency: number;
+  // 各提供商的速率限制（未设置时使用提供商默认值）
+  rateLimits: Partial<Record<AIProviderId, AIRateLimit>>;
+  // 用户填写的模型价格（按模型名称保存，优先于预置价格）
+  customPricing: Record<string, ModelPricing>;
+  // 每月预算上限（美元，0 表示不限制）
+  monthlyBudget: number;
+  // AI 结果缓存有效期（天，0 表示不使用缓存）
+  cacheTTLDays: number;
+  // 批量整理前在后台抓取页面元信息（描述、站点名等）
+  fetchPageMetadata: boolean;
+  // 重构模式下 AI 设计分类体系的最大层级和每个文件夹的最大子文件夹数
+  taxonomyMaxDepth: number;
+  taxonomyMaxChildren: number;
+  // 批量整理中自动接受的置信度阈值（0-1），低于阈值的结果需人工复核
+  autoAcceptThreshold: number;
+  // 把用户纠正过的分类作为示例加入 Prompt
+  learnFromCorrections: boolean;
+  // 通过浏览器星标等方式新建书签时自动分类
+  autoOrganizeMode: AutoOrganizeMode;
+  // 收件箱文件夹 ID（为空表示不启用），定时整理其中的书签
+  inboxFolderId: string;
+  // 收件箱整理间隔（分钟）与每次最多处理的书签数
+  inboxIntervalMinutes: number;
+  inboxMaxItems: number;
+  // 直接应用建议；关闭时放入待确认列表
+  inboxAutoApply: boolean;
+  // 批量整理时先用嵌入向量按文件夹相似度分类，只把难以区分的书签交给对话模型
+  embeddingsEnabled: boolean;
+  embeddingModel: string;
+  // 最相近与次相近文件夹的相似度差值达到该值时直接采用（0-1）
+  embeddingMargin: number;
+  // 比较书签地址（查重、缓存）时的网址规范化规则
+  urlRules: UrlNormalizationRules;
+}
+
+// 网址规范化规则
+export interface UrlNormalizationRules {
+  // 去掉 utm_*、fbclid 等跟踪参数
+  stripTrackingParams: boolean;
+  // 额外视为跟踪参数的名称（支持以 * 结尾的前缀匹配）
+  extraTrackingParams: string[];
+  // 始终保留的参数（优先于跟踪参数列表）
+  keepParams: string[];
+  // 忽略 www. 前缀
+  foldWww: boolean;
+  // 忽略 m.、mobile. 等移动版子域名
+  foldMobile: boolean;
+  // 忽略 AMP 版本（/amp 路径与 amp 参数）
+  foldAmp: boolean;
+  // 视 http 与 https 为同一地址
+  upgradeHttp: boolean;
+  // 忽略路径末尾的斜杠
+  stripTrailingSlash: boolean;
+  // 忽略默认端口（:80、:443）
+  stripDefaultPort: boolean;
+  // 保留 #/、#!/ 形式的前端路由（其余锚点一律忽略）
+  keepHashRoutes: boolean;
+}
+
+// 页面元信息（从当前标签页提取，用于丰富分类 Prompt）
+export interface PageMeta {
+  title: string;
+  // 依次取 meta description、OpenGraph、Twitter 描述，均无时取正文摘录开头
+  description?: string;
+  canonicalUrl?: string;
+  lang?: string;
+  siteName?: string;
+  // OpenGraph 类型（article、video 等）
+  ogType?: string;
+  keywords: string[];
+  headings: string[];
+  // 正文摘录（未截断，构建 Prompt 时按 Token 预算截断）
+  excerpt?: string;
 }
 
 // 智能保存相关类型
@@ -32,6 +161,7 @@ export interface SmartSaveData {
   title: string;
   url: string;
   description?: string;
+  pageMeta?: PageMeta;
   suggestedFolder?: string;
   tags: string[];
   note?: string;
@@ -44,11 +174,131 @@ export interface OrganizeTask {
   targetFolders: string[];
 }
 
+// 单个书签的整理建议
+export interface OrganizeSuggestion {
+  category: string;
+  isNewCategory: boolean;
+  // 0-1，旧版缓存结果中可能缺失
+  confidence?: number;
+  // 选择该分类的简短理由
+  reason?: string;
+  // 由规则匹配得到的结果：规则 ID 与附加的标签
+  ruleId?: string;
+  tags?: string[];
+}
+
+// 批量整理中失败的批次
+export interface OrganizeBatchFailure {
+  batchIndex: number;
+  bookmarkIds: string[];
+  error: string;
+}
+
+// 批量整理进度
+export interface OrganizeProgress {
+  // 当前阶段：嵌入向量分类 / 抓取页面元信息 / AI 分类
+  phase: 'embed' | 'metadata' | 'classify';
+  completedBatches: number;
+  totalBatches: number;
+  processedBookmarks: number;
+  totalBookmarks: number;
+}
+
+// 批量整理的返回结果
+export interface OrganizeSuggestionsResult {
+  suggestions: Map<string, OrganizeSuggestion>;
+  failures: OrganizeBatchFailure[];
+  // 未能得到有效分类的书签 ID（含失败批次、缺失或无效的条目）
+  unclassifiedIds: string[];
+  // 直接使用缓存结果的书签数
+  cachedCount: number;
+  // 由规则直接分类、未发送给 AI 的书签数
+  ruleMatchedCount: number;
+  // 由嵌入向量相似度直接分类、未发送给对话模型的书签数
+  embeddingMatchedCount: number;
+}
+
+// 批量整理预览中的单条结果（用户可逐条确认或修改目标文件夹）
 export interface OrganizeResult {
-  id: string;
+  bookmarkId: string;
+  title: string;
+  url: string;
+  // 原位置与目标位置均为完整路径
   originalFolder: string;
   suggestedFolder: string;
   isNewCategory: boolean;
+  confidence?: number;
+  reason?: string;
+  // AI 最初建议的文件夹（用户修改目标文件夹后用于记录纠正）
+  aiFolder?: string;
+  // 规则附加的标签（应用时一并添加）
+  tags?: string[];
+  // 置信度低于自动接受阈值（或缺失），默认不应用，需用户复核
+  needsReview: boolean;
+  // AI 未返回有效分类，保持原位置
+  unclassified: boolean;
+  // 是否应用这条修改
+  accepted: boolean;
+}
+
+// 用户纠正过的分类（用作 Few-shot 示例，按 URL 只保留最近一次）
+export interface CorrectionRecord {
+  url: string;
+  domain: string;
+  title: string;
+  // AI 建议的文件夹与用户最终选择的文件夹（完整路径）
+  suggestedFolder: string;
+  chosenFolder: string;
+  source: 'smartSave' | 'batchOrganize';
+  createdAt: number;
+}
+
+// 新建书签的分类建议（等待用户在弹窗中确认）
+export interface PendingSuggestion {
+  bookmarkId: string;
+  title: string;
+  url: string;
+  // 当前位置与建议位置均为完整路径
+  currentFolder: string;
+  suggestedFolder: string;
+  isNewCategory: boolean;
+  tags: string[];
+  reason: string;
+  confidence: number;
+  createdAt: number;
+}
+
+// 一次收件箱整理的结果
+export interface InboxRunSummary {
+  processed: number;
+  moved: number;
+  queued: number;
+  // 未能分类、保留在收件箱中的书签数
+  failed: number;
+  snapshotId?: string;
+}
+
+// 收件箱中已处理过的书签（保存在 chrome.storage.local，按书签 ID 索引）
+export interface InboxProcessedEntry {
+  processedAt: number;
+  // 连续分类失败的次数；为 0 时表示已给出建议，不再重复处理
+  failures: number;
+}
+
+// 分类规则的匹配方式
+export type BookmarkRuleMatchType = 'domain' | 'urlGlob' | 'urlRegex' | 'titleKeyword';
+
+// 用户定义的分类规则（按列表顺序匹配，先匹配的优先），命中的书签不再发送给 AI
+export interface BookmarkRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  matchType: BookmarkRuleMatchType;
+  // 域名 / URL 通配符 / 正则表达式 / 逗号分隔的标题关键词
+  pattern: string;
+  // 目标文件夹完整路径
+  targetFolder: string;
+  tags: string[];
 }
 
 // 快照相关类型
@@ -74,7 +324,140 @@ export interface OperationLog {
 export interface CleanResult {
   brokenLinks: BookmarkNode[];
   duplicates: BookmarkNode[][];
-  zombieBookmarks: BookmarkNode[];
+  zombieBookmarks: ZombieBookmark[];
+}
+
+// 僵尸书签的判断原因：保留的历史记录中没有访问 / 长期未访问 / 添加时间过久
+export type ZombieReason = 'no-visits' | 'not-visited' | 'old';
+
+// 僵尸书签（长期不用的书签）
+export interface ZombieBookmark {
+  bookmark: BookmarkNode;
+  reasons: ZombieReason[];
+  // 最后访问时间（来自浏览历史，未授权或没有访问记录时为空）
+  lastVisitTime?: number;
+  visitCount: number;
+}
+
+// 重复书签的匹配方式：规范化 URL 相同 / 标题相近 / 内容语义相近
+export type DuplicateMatchKind = 'url' | 'title' | 'semantic';
+
+// 一组重复或近似重复的书签
+export interface DuplicateCluster {
+  // 取第一个书签的 ID
+  key: string;
+  // 按添加时间排序，默认保留第一个
+  bookmarks: BookmarkNode[];
+  // 簇内最弱一对的相似度（0-1）
+  similarity: number;
+  kind: DuplicateMatchKind;
+}
+
+// 链接检测结论
+// blocked：401/403/429 等访问限制，多为反爬，不视为失效
+// soft-404 / parked：返回 200，但内容是“页面不存在”或域名停放页
+// dns / tls / timeout / network：网络层错误，没有 HTTP 状态码
+export type LinkStatusKind =
+  | 'ok'
+  | 'redirected'
+  | 'blocked'
+  | 'not-found'
+  | 'soft-404'
+  | 'parked'
+  | 'http-error'
+  | 'dns'
+  | 'tls'
+  | 'timeout'
+  | 'network'
+  | 'skipped';
+
+// 重定向链中的一跳
+export interface LinkRedirect {
+  url: string;
+  // 3xx 状态码；浏览器隐藏了中间跳转时为 0
+  status: number;
+}
+
+// 软失效的判断依据
+// title / body：标题或正文包含“页面不存在”之类的文字
+// probe：与同一主机上随机路径的响应几乎相同
+// home-redirect：深层页面被重定向到首页
+// parking-marker / parking-host：页面包含停放服务的特征，或被重定向到停放服务
+export type LinkEvidenceKind = 'title' | 'body' | 'probe' | 'home-redirect' | 'parking-marker' | 'parking-host';
+
+export interface LinkEvidence {
+  kind: LinkEvidenceKind;
+  // 命中的文字、特征或地址
+  detail: string;
+}
+
+// 单个链接的检测结果
+export interface LinkCheckResult {
+  bookmarkId: string;
+  url: string;
+  kind: LinkStatusKind;
+  // 最终响应的状态码，网络错误时为 0
+  status: number;
+  // 发生重定向时的最终地址
+  finalUrl?: string;
+  // 依次经过的重定向（不含原地址）
+  redirects: LinkRedirect[];
+  // 得到结论的请求方式（HEAD 不被支持时改用 GET）
+  method: 'HEAD' | 'GET';
+  error?: string;
+  // soft-404 / parked 的判断依据
+  evidence?: LinkEvidence[];
+  durationMs: number;
+  checkedAt: number;
+}
+
+// 失效链接的类别：无法访问（状态码或网络错误）/ 软 404 / 停放域名 / 时好时坏
+export type BrokenLinkCategory = 'unreachable' | 'soft-404' | 'parked' | 'flaky';
+
+// 清理大师中的失效链接
+export interface BrokenLinkResult {
+  bookmark: BookmarkNode;
+  check: LinkCheckResult;
+  category: BrokenLinkCategory;
+  consecutiveFailures: number;
+}
+
+// 链接的检测历史（按 URL 保存在 IndexedDB 中）
+export interface LinkHealthRecord {
+  url: string;
+  lastResult: LinkCheckResult;
+  checkedAt: number;
+  // 连续失效的次数，恢复正常后清零
+  consecutiveFailures: number;
+  // 最近几次检测是否失效（按时间顺序）
+  history: boolean[];
+  // 在多次扫描中时而失效时而正常
+  flaky: boolean;
+}
+
+// 链接扫描任务的状态
+export type LinkScanStatus = 'running' | 'paused' | 'completed';
+
+// 链接扫描任务（保存在 IndexedDB 中，页面或 Service Worker 重启后可继续）
+export interface LinkScanJob {
+  id: string;
+  status: LinkScanStatus;
+  // 需要检测的链接（按 URL 去重）；检测时间晚于 startedAt 的视为已完成
+  items: { id: string; url: string }[];
+  // 增量扫描时因近期已检测而跳过的链接数
+  skipped: number;
+  incremental: boolean;
+  startedAt: number;
+  updatedAt: number;
+}
+
+// 永久重定向（301/308）到新地址的书签
+export interface MovedLinkResult {
+  bookmark: BookmarkNode;
+  check: LinkCheckResult;
+  newUrl: string;
+  // 跳转到其他域名，需人工确认（可能是域名被收购或跳转到无关页面）
+  crossDomain: boolean;
 }
 
 // API 响应类型
@@ -89,8 +472,78 @@ export interface AIResponse {
 
 // Token 预估类型
 export interface TokenEstimate {
+  inputTokens: number;
+  // 预计模型输出的 Token 数
+  outputTokens: number;
   estimatedTokens: number;
-  estimatedCost: number;
+  // 模型价格未知时为 null
+  estimatedCost: number | null;
   bookmarkCount: number;
   warning?: string;
 }
+
+// 发起 AI 调用的功能
+export type AIFeature = 'smartSave' | 'batchOrganize' | 'taxonomy' | 'testConnection' | 'embeddings';
+
+// 接口返回的 Token 用量
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// 用量账本中的一条记录（对应一次成功的 AI 请求）
+export interface UsageRecord extends AIUsage {
+  id: string;
+  timestamp: number;
+  provider: AIProviderId;
+  model: string;
+  feature: AIFeature;
+  // 接口未返回 usage 时为 true，Token 数为本地估算
+  estimated: boolean;
+  latencyMs: number;
+  // 按调用时的模型价格计算，价格未知时为 null
+  cost: number | null;
+}
+
+// 用量汇总
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+// AI 结果缓存条目
+export interface AICacheEntry {
+  // 内容寻址的缓存键（SHA-256）
+  key: string;
+  // 缓存的结果（批量整理为 OrganizeSuggestion，智能保存为 AIResponse）
+  value: unknown;
+  model: string;
+  createdAt: number;
+}
+
+// 缓存的文本嵌入向量（也用于缓存文件夹的中心向量）
+export interface EmbeddingEntry {
+  // 模型 + 文本的 SHA-256
+  key: string;
+  model: string;
+  // 以 Float32Array 存储，体积约为 number[] 的一半（旧版本写入的条目为 number[]）
+  vector: Float32Array | number[];
+  createdAt: number;
+}
+
+// 后台抓取的书签页面元信息（按书签 URL 缓存）
+export interface BookmarkMetadata {
+  url: string;
+  // 跟随重定向后的最终地址
+  finalUrl?: string;
+  title?: string;
+  description?: string;
+  siteName?: string;
+  ogType?: string;
+  keywords: string[];
+  fetchedAt: number;
+  // 抓取失败的原因（失败结果也会缓存，避免反复请求）
+  error?: string;
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BookmarkNode } from '@/types';
+import { createChromeStub } from './chromeStub';
+
+const getSmartSaveSuggestion = vi.fn(async () => ({ category: 'Reading', confidence: 1, tags: [], reason: '' }));
+vi.mock('@/services/aiService', () => ({
+  getSmartSaveSuggestion,
+  requestEmbeddings: async () => ({ vectors: [], usage: null }),
+  testAIConnection: async () => ''
+}));
+// 链接扫描与本测试无关
+vi.mock('@/services/linkScanner', () => ({
+  LINK_CHECK_PORT: 'link-check',
+  getLinkScanState: async () => ({}),
+  pauseLinkScan: async () => {},
+  resumeLinkScan: async () => {},
+  startLinkScan: async () => {},
+  subscribeLinkScan: () => () => {}
+}));
+
+const bookmark = (id: string): BookmarkNode => ({ id, parentId: '1', title: id, url: `https://example.com/${id}` });
+
+const tree: BookmarkNode[] = [{
+  id: '0',
+  title: '',
+  children: [{ id: '1', title: 'Bookmarks bar', children: [{ id: 'reading', title: 'Reading', children: [] }] }]
+}];
+
+const stub = createChromeStub({
+  bookmarks: {
+    get: async (id: string) => [bookmark(id)],
+    getTree: async () => tree,
+    move: async () => ({})
+  }
+});
+const onCreated = stub.event('bookmarks.onCreated');
+
+const { suspendAutoOrganize, resumeAutoOrganize } = await import('@/services/autoOrganize');
+
+// 等待新书签的分类延迟（5 秒）结束
+const settle = () => vi.advanceTimersByTimeAsync(10_000);
+
+describe('auto-organize pause', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('chrome', stub.chrome);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await import('@/background');
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    stub.storage.sync.data.settings = { autoOrganizeMode: 'move', fetchPageMetadata: false };
+    Object.keys(stub.storage.session.data).forEach(key => delete stub.storage.session.data[key]);
+    getSmartSaveSuggestion.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('organizes bookmarks created while not paused', async () => {
+    onCreated.fire('a', bookmark('a'));
+    await settle();
+    expect(getSmartSaveSuggestion).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips bookmarks whose events arrived before the pause was lifted', async () => {
+    await suspendAutoOrganize();
+    onCreated.fire('a', bookmark('a'));
+    // 回滚结束后立即恢复，此时上面的事件还在读取设置
+    await resumeAutoOrganize();
+    await settle();
+    expect(getSmartSaveSuggestion).not.toHaveBeenCalled();
+  });
+
+  it('skips onCreated fired right after resume', async () => {
+    await suspendAutoOrganize();
+    await resumeAutoOrganize();
+    onCreated.fire('a', bookmark('a'));
+    await settle();
+    expect(getSmartSaveSuggestion).not.toHaveBeenCalled();
+
+    // 宽限期过后恢复处理
+    onCreated.fire('b', bookmark('b'));
+    await settle();
+    expect(getSmartSaveSuggestion).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips bookmarks created by an import that just ended', async () => {
+    stub.event('bookmarks.onImportBegan').fire();
+    onCreated.fire('a', bookmark('a'));
+    stub.event('bookmarks.onImportEnded').fire();
+    onCreated.fire('b', bookmark('b'));
+    await settle();
+    expect(getSmartSaveSuggestion).not.toHaveBeenCalled();
+  });
+});
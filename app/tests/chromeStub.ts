@@ -0,0 +1,118 @@
+// 测试用的 chrome 扩展 API：storage 保存在内存中，事件可手动触发
+// 未单独提供的 API 返回 resolve 为 undefined 的 Promise，未单独提供的事件只记录监听器
+
+type Listener = (...args: unknown[]) => unknown;
+
+export interface ChromeEventStub {
+  addListener: (listener: Listener) => void;
+  removeListener: (listener: Listener) => void;
+  hasListener: (listener: Listener) => boolean;
+  // 同步调用所有监听器
+  fire: (...args: unknown[]) => void;
+}
+
+const createEvent = (): ChromeEventStub => {
+  const listeners = new Set<Listener>();
+  return {
+    addListener: (listener) => { listeners.add(listener); },
+    removeListener: (listener) => { listeners.delete(listener); },
+    hasListener: (listener) => listeners.has(listener),
+    fire: (...args) => { listeners.forEach(listener => listener(...args)); }
+  };
+};
+
+// 内存中的 storage 区域：写入立即生效，同时支持 Promise 与回调两种调用方式
+const createStorageArea = (name: string, onChanged: ChromeEventStub) => {
+  const data: Record<string, unknown> = {};
+
+  const pick = (keys?: string | string[] | null): Record<string, unknown> => {
+    if (keys == null) return { ...data };
+    const list = Array.isArray(keys) ? keys : [keys];
+    return Object.fromEntries(list.filter(key => key in data).map(key => [key, data[key]]));
+  };
+
+  const notify = (changes: Record<string, { oldValue?: unknown; newValue?: unknown }>) => {
+    if (Object.keys(changes).length > 0) onChanged.fire(changes, name);
+  };
+
+  const reply = <T>(value: T, callback?: (value: T) => void): Promise<T> => {
+    callback?.(value);
+    return Promise.resolve(value);
+  };
+
+  return {
+    data,
+    get: (keys?: string | string[] | null, callback?: (items: Record<string, unknown>) => void) => {
+      return reply(structuredClone(pick(keys)), callback);
+    },
+    set: (items: Record<string, unknown>, callback?: () => void) => {
+      const changes: Record<string, { oldValue?: unknown; newValue?: unknown }> = {};
+      Object.entries(items).forEach(([key, value]) => {
+        changes[key] = { oldValue: data[key], newValue: value };
+        data[key] = structuredClone(value);
+      });
+      notify(changes);
+      return reply(undefined, callback);
+    },
+    remove: (keys: string | string[], callback?: () => void) => {
+      const changes: Record<string, { oldValue?: unknown }> = {};
+      (Array.isArray(keys) ? keys : [keys]).forEach((key) => {
+        if (key in data) {
+          changes[key] = { oldValue: data[key] };
+          delete data[key];
+        }
+      });
+      notify(changes);
+      return reply(undefined, callback);
+    }
+  };
+};
+
+// 按属性名自动生成的命名空间：onXxx 为事件，其他属性为嵌套命名空间，调用时返回 Promise
+const createNamespace = (overrides: Record<string, unknown> = {}): Record<string, unknown> => {
+  const cache = new Map<PropertyKey, unknown>(Object.entries(overrides));
+  const target = () => Promise.resolve(undefined);
+  return new Proxy(target as unknown as Record<string, unknown>, {
+    get: (_target, prop) => {
+      if (!cache.has(prop)) {
+        cache.set(prop, typeof prop === 'string' && /^on[A-Z]/.test(prop) ? createEvent() : createNamespace());
+      }
+      return cache.get(prop);
+    }
+  });
+};
+
+export type StorageAreaStub = ReturnType<typeof createStorageArea>;
+
+export interface ChromeStub {
+  // 通过 vi.stubGlobal('chrome', stub.chrome) 注入
+  chrome: unknown;
+  storage: { local: StorageAreaStub; session: StorageAreaStub; sync: StorageAreaStub };
+  // 取出事件，如 event('bookmarks.onCreated')
+  event: (path: string) => ChromeEventStub;
+}
+
+// 创建 chrome 桩对象；overrides 按命名空间覆盖具体的方法，如 { bookmarks: { get: vi.fn() } }
+export const createChromeStub = (overrides: Record<string, Record<string, unknown>> = {}): ChromeStub => {
+  const onChanged = createEvent();
+  const storage = {
+    local: createStorageArea('local', onChanged),
+    session: createStorageArea('session', onChanged),
+    sync: createStorageArea('sync', onChanged)
+  };
+
+  const namespaces: Record<string, unknown> = {
+    storage: createNamespace({ ...storage, onChanged }),
+    runtime: createNamespace({ lastError: undefined, ...overrides.runtime })
+  };
+  Object.entries(overrides).forEach(([name, methods]) => {
+    if (!(name in namespaces)) namespaces[name] = createNamespace(methods);
+  });
+  const chrome = createNamespace(namespaces);
+
+  const event = (path: string): ChromeEventStub => {
+    return path.split('.').reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], chrome) as ChromeEventStub;
+  };
+
+  return { chrome, storage, event };
+};
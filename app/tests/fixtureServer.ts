@@ -0,0 +1,68 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// 收到的请求
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  startedAt: number;
+}
+
+export type FixtureHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+export interface FixtureServer {
+  origin: string;
+  requests: FixtureRequest[];
+  // 同时处理中的请求数的最大值
+  maxActive: () => number;
+  close: () => Promise<void>;
+}
+
+// 本地测试服务器：按路径分发到处理函数，未配置的路径返回 404
+export const startFixtureServer = async (routes: Record<string, FixtureHandler>): Promise<FixtureServer> => {
+  const requests: FixtureRequest[] = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    requests.push({ method: req.method ?? 'GET', path, startedAt: Date.now() });
+    active++;
+    maxActive = Math.max(maxActive, active);
+    res.on('close', () => { active--; });
+
+    const handler = routes[path];
+    if (handler) {
+      handler(req, res);
+    } else {
+      res.writeHead(404, { 'Content-Type': 'text/html' });
+      res.end('<html><head><title>404 Not Found</title></head><body>Not Found</body></html>');
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    requests,
+    maxActive: () => maxActive,
+    close: () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+};
+
+// 返回 HTML 页面
+export const html = (body: string, status = 200): FixtureHandler => (_req, res) => {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(body);
+};
+
+// 重定向到另一路径
+export const redirect = (location: string, status = 301): FixtureHandler => (_req, res) => {
+  res.writeHead(status, { Location: location });
+  res.end();
+};
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BookmarkNode, OrganizeSuggestion } from '@/types';
+import { createChromeStub } from './chromeStub';
+import type { ChromeStub } from './chromeStub';
+
+// 只有 id 为 good-* 的书签能得到分类
+const getOrganizeSuggestions = vi.fn(async (_settings: unknown, bookmarks: BookmarkNode[]) => ({
+  suggestions: new Map<string, OrganizeSuggestion>(
+    bookmarks
+      .filter(b => b.id.startsWith('good-'))
+      .map(b => [b.id, { category: 'Reading', isNewCategory: false, confidence: 0.5 }])
+  )
+}));
+vi.mock('@/services/aiService', () => ({ getOrganizeSuggestions, testAIConnection: async () => '' }));
+vi.mock('@/services/storageService', () => ({
+  addOperationLog: async () => {},
+  addTagsToBookmark: async () => {},
+  createSnapshot: async () => ({ id: 'snapshot' })
+}));
+
+const { processInbox } = await import('@/services/inbox');
+const { getPendingSuggestions, removePendingSuggestion } = await import('@/services/autoOrganize');
+const { getSettings } = await import('@/hooks/useSettings');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const bookmark = (id: string): BookmarkNode => ({ id, parentId: 'inbox', title: id, url: `https://example.com/${id}` });
+
+describe('processInbox', () => {
+  let stub: ChromeStub;
+  let inbox: BookmarkNode[];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    inbox = [bookmark('good-1'), bookmark('bad-1'), bookmark('good-2')];
+    stub = createChromeStub({
+      bookmarks: {
+        getChildren: async () => inbox,
+        getTree: async () => [{
+          id: '0',
+          title: '',
+          children: [{
+            id: '1',
+            title: 'Bookmarks bar',
+            children: [
+              { id: 'inbox', title: 'Inbox', children: inbox },
+              { id: 'reading', title: 'Reading', children: [] }
+            ]
+          }]
+        }]
+      }
+    });
+    vi.stubGlobal('chrome', stub.chrome);
+    getOrganizeSuggestions.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const run = async () => processInbox({ ...(await getSettings()), inboxFolderId: 'inbox' });
+  const classifiedIds = (call: number) => (getOrganizeSuggestions.mock.calls[call][1] as BookmarkNode[]).map(b => b.id);
+
+  it('does not classify dismissed suggestions again', async () => {
+    expect(await run()).toMatchObject({ processed: 3, queued: 2, failed: 1 });
+
+    await removePendingSuggestion('good-1');
+    await removePendingSuggestion('good-2');
+    expect(await getPendingSuggestions()).toHaveLength(0);
+
+    // 被忽略的建议与刚失败的书签都不再处理
+    expect(await run()).toBeNull();
+    expect(getOrganizeSuggestions).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves room for newer bookmarks instead of reprocessing old ones', async () => {
+    const settings = { ...(await getSettings()), inboxFolderId: 'inbox', inboxMaxItems: 2 };
+    await processInbox(settings);
+    await removePendingSuggestion('good-1');
+
+    inbox.push(bookmark('good-3'));
+    await processInbox(settings);
+    expect(classifiedIds(1)).toEqual(['good-2', 'good-3']);
+  });
+
+  it('retries failed bookmarks with a growing backoff', async () => {
+    await run();
+
+    vi.advanceTimersByTime(HOUR_MS);
+    await run();
+    expect(classifiedIds(1)).toEqual(['bad-1']);
+
+    // 第二次失败后等待两小时
+    vi.advanceTimersByTime(HOUR_MS);
+    expect(await run()).toBeNull();
+    vi.advanceTimersByTime(HOUR_MS);
+    await run();
+    expect(classifiedIds(2)).toEqual(['bad-1']);
+  });
+
+  it('forgets bookmarks that left the inbox', async () => {
+    await run();
+    await removePendingSuggestion('good-1');
+
+    // 移出后再放回收件箱的书签重新处理
+    inbox.splice(0, 1);
+    await run();
+    inbox.unshift(bookmark('good-1'));
+    await run();
+    expect(classifiedIds(1)).toEqual(['good-1']);
+  });
+});
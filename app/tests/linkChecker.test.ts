@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { checkLink, checkLinks, getMovedDestination } from '@/services/linkChecker';
+import { startFixtureServer, html, redirect } from './fixtureServer';
+import type { FixtureHandler, FixtureServer } from './fixtureServer';
+
+// 延迟一段时间后返回页面，使并发的请求在服务器上重叠
+const slow = (delayMs: number): FixtureHandler => (req, res) => {
+  setTimeout(() => html('<title>Slow</title>')(req, res), delayMs);
+};
+
+describe('checkLink', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer({
+      '/page': html('<title>Page</title>'),
+      // 未实现 HEAD 的服务器
+      '/no-head': (req, res) => {
+        if (req.method === 'HEAD') {
+          res.writeHead(405);
+          res.end();
+          return;
+        }
+        html('<title>GET only</title>')(req, res);
+      },
+      '/r1': redirect('/r2', 301),
+      '/r2': redirect('/final', 302),
+      '/final': html('<title>Final</title>'),
+      '/loop': redirect('/loop', 302)
+    });
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    server.requests.length = 0;
+  });
+
+  it('answers with HEAD when the server supports it', async () => {
+    const result = await checkLink({ id: '1', url: `${server.origin}/page` }, { inspectContent: false });
+    expect(result).toMatchObject({ kind: 'ok', status: 200, method: 'HEAD', redirects: [] });
+    expect(server.requests.map(r => r.method)).toEqual(['HEAD']);
+  });
+
+  it('falls back to GET when HEAD is rejected', async () => {
+    const result = await checkLink({ id: '1', url: `${server.origin}/no-head` }, { inspectContent: false });
+    expect(result).toMatchObject({ kind: 'ok', status: 200, method: 'GET' });
+    expect(server.requests.map(r => r.method)).toEqual(['HEAD', 'GET']);
+  });
+
+  it('records every hop of a redirect chain', async () => {
+    const url = `${server.origin}/r1`;
+    const result = await checkLink({ id: '1', url }, { inspectContent: false });
+    expect(result).toMatchObject({
+      kind: 'redirected',
+      status: 200,
+      finalUrl: `${server.origin}/final`,
+      redirects: [
+        { url: `${server.origin}/r2`, status: 301 },
+        { url: `${server.origin}/final`, status: 302 }
+      ]
+    });
+    // 301 之后是临时跳转，只有第一跳算作永久迁移
+    expect(getMovedDestination(result)).toBe(`${server.origin}/r2`);
+  });
+
+  it('stops on redirect loops', async () => {
+    const result = await checkLink({ id: '1', url: `${server.origin}/loop` }, { inspectContent: false });
+    expect(result).toMatchObject({ kind: 'http-error', error: 'too many redirects' });
+  });
+});
+
+describe('checkLinks politeness', () => {
+  let first: FixtureServer;
+  let second: FixtureServer;
+
+  beforeAll(async () => {
+    // 端口不同即为不同主机
+    first = await startFixtureServer({ '/a': slow(50), '/b': slow(50), '/c': slow(50) });
+    second = await startFixtureServer({ '/a': slow(200) });
+  });
+
+  afterAll(async () => {
+    await first.close();
+    await second.close();
+  });
+
+  it('limits concurrency and keeps a delay between requests to the same host', async () => {
+    const items = ['/a', '/b', '/c'].map((path, i) => ({ id: String(i), url: `${first.origin}${path}` }));
+    const results = await checkLinks(items, {
+      inspectContent: false,
+      concurrency: 4,
+      perHostConcurrency: 1,
+      perHostDelayMs: 100
+    });
+
+    expect(results.map(r => r.bookmarkId)).toEqual(['0', '1', '2']);
+    expect(results.every(r => r.kind === 'ok')).toBe(true);
+    expect(first.maxActive()).toBe(1);
+    const starts = first.requests.map(r => r.startedAt);
+    for (let i = 1; i < starts.length; i++) {
+      // 计时器可能提前 1 毫秒左右触发
+      expect(starts[i] - starts[i - 1]).toBeGreaterThanOrEqual(95);
+    }
+  });
+
+  it('checks different hosts in parallel', async () => {
+    first.requests.length = 0;
+    const startedAt = Date.now();
+    await checkLinks(
+      [{ id: '1', url: `${second.origin}/a` }, { id: '2', url: `${first.origin}/a` }],
+      { inspectContent: false, concurrency: 2, perHostConcurrency: 1 }
+    );
+
+    // 第二个主机不必等第一个主机的慢请求结束
+    expect(first.requests[0].startedAt - second.requests[0].startedAt).toBeLessThan(150);
+    expect(Date.now() - startedAt).toBeLessThan(400);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BookmarkMetadata } from '@/types';
+import { startFixtureServer, html } from './fixtureServer';
+import type { FixtureServer } from './fixtureServer';
+
+// 用内存中的 Map 代替 IndexedDB 缓存
+const store = new Map<string, BookmarkMetadata>();
+vi.mock('@/services/storageService', () => ({
+  getMetadataEntries: async (urls: string[]) => new Map(urls.filter(url => store.has(url)).map(url => [url, store.get(url)!])),
+  putMetadataEntries: async (entries: BookmarkMetadata[]) => {
+    entries.forEach(entry => store.set(entry.url, entry));
+  }
+}));
+
+const { fetchBookmarkMetadata, getBookmarkMetadata, isMetadataFresh, parseHeadMetadata } = await import('@/services/metadataFetcher');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ARTICLE = `<!doctype html>
+<html><head>
+  <title>  Vitest &amp; Friends  </title>
+  <meta name="description" content="Fast unit tests">
+  <meta property="og:site_name" content='Example Docs'>
+  <meta property="og:type" content="article">
+  <meta name="keywords" content="testing, vite，node">
+</head><body><p>body text</p></body></html>`;
+
+describe('parseHeadMetadata', () => {
+  it('reads title, description, site name and keywords from <head>', () => {
+    expect(parseHeadMetadata(ARTICLE)).toEqual({
+      title: 'Vitest & Friends',
+      description: 'Fast unit tests',
+      siteName: 'Example Docs',
+      ogType: 'article',
+      keywords: ['testing', 'vite', 'node']
+    });
+  });
+
+  it('falls back to Open Graph tags and ignores meta tags in <body>', () => {
+    const page = '<head><meta property="og:title" content="OG Title"></head><body><meta name="description" content="late"></body>';
+    const meta = parseHeadMetadata(page);
+    expect(meta.title).toBe('OG Title');
+    expect(meta.description).toBeUndefined();
+  });
+});
+
+describe('fetchBookmarkMetadata', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer({
+      '/article': html(ARTICLE),
+      '/gone': html('<title>Gone</title>', 410),
+      '/file.pdf': (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/pdf' });
+        res.end('%PDF-1.4');
+      },
+      // 1 秒后才返回响应
+      '/slow': (_req, res) => {
+        setTimeout(() => html(ARTICLE)(_req, res), 1000);
+      }
+    });
+  });
+
+  afterAll(() => server.close());
+
+  it('parses the head of an HTML page', async () => {
+    const meta = await fetchBookmarkMetadata(`${server.origin}/article`);
+    expect(meta.error).toBeUndefined();
+    expect(meta.title).toBe('Vitest & Friends');
+    expect(meta.siteName).toBe('Example Docs');
+  });
+
+  it('records HTTP errors and non-HTML responses instead of throwing', async () => {
+    expect((await fetchBookmarkMetadata(`${server.origin}/gone`)).error).toBe('HTTP 410');
+    expect((await fetchBookmarkMetadata(`${server.origin}/file.pdf`)).error).toMatch(/unsupported content type/);
+    expect((await fetchBookmarkMetadata('ftp://example.com/')).error).toBe('unsupported protocol');
+  });
+
+  it('gives up after the timeout', async () => {
+    const startedAt = Date.now();
+    const meta = await fetchBookmarkMetadata(`${server.origin}/slow`, { timeoutMs: 100 });
+    expect(meta.error).toBe('timeout');
+    expect(Date.now() - startedAt).toBeLessThan(900);
+  });
+});
+
+describe('getBookmarkMetadata cache', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer({ '/article': html(ARTICLE) });
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    store.clear();
+    server.requests.length = 0;
+  });
+
+  it('serves fresh entries from the cache', async () => {
+    const url = `${server.origin}/article`;
+    await getBookmarkMetadata([url]);
+    const second = await getBookmarkMetadata([url, url]);
+
+    expect(second[url].title).toBe('Vitest & Friends');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('refetches entries past their TTL', async () => {
+    const url = `${server.origin}/article`;
+    store.set(url, { url, title: 'Old', keywords: [], fetchedAt: Date.now() - 31 * DAY_MS });
+
+    const result = await getBookmarkMetadata([url]);
+    expect(result[url].title).toBe('Vitest & Friends');
+    expect(server.requests).toHaveLength(1);
+    expect(isMetadataFresh(store.get(url)!)).toBe(true);
+  });
+
+  it('keeps failed results for a shorter time', () => {
+    const now = Date.now();
+    const failed = { url: 'https://example.com', keywords: [], error: 'HTTP 500', fetchedAt: now - 2 * DAY_MS };
+    expect(isMetadataFresh(failed, now)).toBe(false);
+    expect(isMetadataFresh({ ...failed, error: undefined }, now)).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_URL_RULES, cleanUrl, isSameUrl, normalizeUrl } from '@/services/urlNormalizer';
+
+describe('normalizeUrl', () => {
+  it('folds www, mobile and AMP subdomains', () => {
+    expect(normalizeUrl('https://www.example.com/a')).toBe('https://example.com/a');
+    expect(normalizeUrl('https://m.example.com/a')).toBe('https://example.com/a');
+    expect(normalizeUrl('https://mobile.example.com/a')).toBe('https://example.com/a');
+    expect(normalizeUrl('https://amp.example.com/a/amp/')).toBe('https://example.com/a');
+  });
+
+  it('keeps prefixes that are part of the registrable domain', () => {
+    expect(normalizeUrl('https://amp.dev/')).toBe('https://amp.dev');
+    expect(normalizeUrl('https://mobile.de/x')).toBe('https://mobile.de/x');
+    expect(normalizeUrl('https://m.me/u')).toBe('https://m.me/u');
+    expect(normalizeUrl('https://www.amp.dev/')).toBe('https://amp.dev');
+    expect(isSameUrl('https://amp.dev/', 'https://dev/')).toBe(false);
+  });
+
+  it('only drops the default port of the URL\'s own scheme', () => {
+    expect(normalizeUrl('https://example.com:443/a')).toBe('https://example.com/a');
+    expect(normalizeUrl('https://example.com:80/a')).toBe('https://example.com:80/a');
+    expect(isSameUrl('https://example.com:80/', 'https://example.com/')).toBe(false);
+  });
+
+  it('drops tracking parameters and sorts the rest', () => {
+    expect(normalizeUrl('http://example.com/p/?utm_source=x&b=2&a=1&fbclid=y#top'))
+      .toBe('https://example.com/p?a=1&b=2');
+  });
+
+  it('respects disabled rules', () => {
+    const rules = { ...DEFAULT_URL_RULES, foldWww: false, upgradeHttp: false };
+    expect(normalizeUrl('http://www.example.com/', rules)).toBe('http://www.example.com');
+  });
+
+  it('leaves non-http URLs alone', () => {
+    expect(normalizeUrl(' javascript:void(0) ')).toBe('javascript:void(0)');
+  });
+});
+
+describe('cleanUrl', () => {
+  it('removes tracking parameters and explicit default ports only', () => {
+    expect(cleanUrl('https://www.example.com:443/a?utm_medium=x&id=1')).toBe('https://www.example.com/a?id=1');
+    expect(cleanUrl('https://example.com:80/a')).toBe('https://example.com:80/a');
+    expect(cleanUrl('https://example.com/a?id=1')).toBe('https://example.com/a?id=1');
+  });
+});